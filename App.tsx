@@ -1,48 +1,631 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Plus, Search, Settings, ArrowLeft, Pin, Trash2, Share2, MoreVertical, Check, SortDesc, PinOff, User, Camera, Download, Upload, AlertTriangle } from 'lucide-react';
-import { Note, SortOption, ViewState, COLORS, UserProfile } from './types';
-import { loadNotes, saveNotes, loadProfile, saveProfile } from './utils/storage';
+import { Plus, Search, RefreshCw, FileSymlink, LayoutTemplate, Merge, Settings, ArrowLeft, Pin, Trash2, Share2, MoreVertical, Check, SortDesc, PinOff, User, Camera, Download, Upload, AlertTriangle, RotateCcw, Undo2, History, X, Tag, Folder, Lock, KeyRound, ShieldCheck, FileText, FileCode, FileDown, FolderOpen, ChevronDown, Heading, List, ListOrdered, Link, Code, Eye, PenLine, Palette, ListChecks, ListX, TextAlignStart, Square, SquareCheck, GripVertical, ListIndentIncrease, ListIndentDecrease, Bell, BellOff, CalendarClock, Paperclip, ChevronLeft, ChevronRight, HardDrive, Keyboard, Command, Layers, Pencil, Cloud, CloudOff, Sun, Moon, Monitor, LayoutGrid, Rows3, ChartColumn, ArchiveRestore } from 'lucide-react';
+import { Note, NoteTemplate, Attachment, NoteColor, ReminderRepeat, SortOption, COLORS, UserProfile, Workspace, SyncConfig, SyncProvider, SyncState, Snapshot, SnapshotData, SnapshotReason, BackupSchedule, AppSettings, DEFAULT_SETTINGS, ThemeMode, EditorFont, ListDensity, Revision, LockConfig } from './types';
+import { loadNotes, saveNoteChanges, loadRecentSearches, saveRecentSearches, loadTemplates, saveTemplates, loadProfile, saveProfile, loadSettings, saveSettings, loadRevisions, recordRevision, deleteRevisions, pruneRevisions, clearAllData, takeMigrationWarnings, StorageError, loadLockConfig, reencryptAll, setEncryptionKey, getEncryptionKey, subscribeToOtherTabs, mergeRemoteNotes, saveAttachment, loadAttachment, copyAttachments, pruneAttachments, loadWorkspaces, getActiveWorkspaceId, selectWorkspace, createWorkspace, renameWorkspace, deleteWorkspace, subscribeToWorkspaces, loadSyncState, enableSync, disableSync, loadActivity, recordActivity, loadSnapshots, takeSnapshot, readSnapshot, deleteSnapshot } from './utils/storage';
+import { syncNotes, SyncAdapter } from './utils/sync';
+import { createWebDavAdapter } from './utils/webdav';
+import { createLock, unlock, sealBackup, openBackup, isEncryptedBackup, EncryptedBackup, WrongPassphraseError } from './utils/crypto';
+import { diffLines } from './utils/diff';
+import { createBackupFile, parseBackup, planImport, applyImport, BackupAttachment, ImportPlan, MergeStrategy, RejectedEntry, MERGE_STRATEGY_LABELS, diffSnapshot, SnapshotDiff } from './utils/backup';
+import { exportNotes, readNoteFiles, downloadBlob, isJsonFile, ExportFormat, EXPORT_FORMAT_LABELS, IMPORT_ACCEPT } from './utils/formats';
+import { extractHashtags, mergeTags, normalizeTag, normalizeNotebook, countTags, countNotebooks, renameTag, renameNotebook, LabelCount } from './utils/tags';
+import { NOTE_COLOR_STYLES, normalizeColor, countColors } from './utils/colors';
+import { parseChecklist, serializeChecklist, checklistToText, checklistProgress, updateItem, insertItem, removeItem, moveItem, clearCompleted, ChecklistItem } from './utils/checklist';
+import { createSearchIndex, updateSearchIndex, parseQuery, searchNotes, hasTextTerms, highlightText, buildSnippets, SearchQuery, HighlightPart } from './utils/search';
+import { dueReminders, markNotified, electReminderTab, upcomingNotes, isOverdue, formatDue, sendNotification, requestNotificationPermission, REPEAT_LABELS } from './utils/reminders';
+import { findNoteByTitle, findBacklinks, linksTo, renameLinks, suggestTitles, linkQueryAt, completeLink, normalizeTitle, Backlink } from './utils/links';
+import { revertChange, mergeNotes } from './utils/bulk';
+import { prepareAttachment, attachmentUsage, formatBytes, fileLabel, isImage, blobToBase64, base64ToBlob, AttachmentSummary } from './utils/attachments';
+import { templateFromNote, templateFields, expandTemplate, PLACEHOLDER_HELP, STARTER_TEMPLATES } from './utils/templates';
+import { currentLocation, pushLocation, replaceLocation, canGoBack, readSharedNote, AppLocation, Route } from './utils/routes';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { SHORTCUT_GROUPS, MOD_KEY, isTypingTarget, isArrowKey, gridStep } from './utils/shortcuts';
+import { fuzzyFilter } from './utils/fuzzy';
+import { isTrashed, purgeExpiredNotes, daysUntilPurge, TRASH_RETENTION_OPTIONS } from './utils/trash';
+import { parseMarkdown, toPlainText, applyInlineFormat, applyLineFormat, insertLink, InlineNode, InlineFormat, LineFormat, EditResult } from './utils/markdown';
+import { applyAppearance, subscribeToColorScheme, THEME_OPTIONS, ACCENT_OPTIONS, EDITOR_FONTS, EDITOR_FONT_SIZES } from './utils/theme';
+import { countText, noteTextStats, readingMinutes, writingStats, heatmapWeeks, activityLevel, dayKey } from './utils/stats';
 import { format } from 'date-fns';
 
+// A revision is snapshotted once the editor has been idle this long.
+const REVISION_IDLE_MS = 5000;
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 0];
+
+const BACKUP_SCHEDULE_OPTIONS: { value: BackupSchedule, label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'startup', label: 'On App Start' },
+  { value: 'daily', label: 'Daily' },
+];
+
+const BACKUPS_TO_KEEP_OPTIONS = [3, 7, 14, 30];
+
+const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  'automatic': 'Automatic',
+  'before-clear': 'Before Clear All',
+  'before-restore': 'Before Restore',
+};
+
+const THEME_ICONS: Record<ThemeMode, React.ReactNode> = {
+  light: <Sun size={14} />,
+  dark: <Moon size={14} />,
+  system: <Monitor size={14} />,
+};
+
+const REMINDER_CHECK_MS = 30_000;
+const TRASH_PURGE_CHECK_MS = 60 * 60_000;
+
+// With daily backups, how often an open app checks whether a day has passed since the last snapshot.
+const SNAPSHOT_CHECK_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+// Edits are pushed once typing pauses this long; remote changes are pulled at least this often.
+const SYNC_DELAY_MS = 3000;
+const SYNC_INTERVAL_MS = 5 * 60_000;
+
+// Sync backends by the provider stored in SyncConfig. New adapters are registered here.
+const SYNC_ADAPTERS: Record<SyncProvider, (config: SyncConfig) => SyncAdapter> = {
+  webdav: createWebDavAdapter,
+};
+
+const noteCount = (count: number) => `${count} ${count === 1 ? 'note' : 'notes'}`;
+
+interface SnackbarState {
+  id: number;
+  message: string;
+  onUndo?: () => void;
+}
+
+interface PassphrasePrompt {
+  title: string;
+  description: string;
+  /** Fields are password inputs unless given another `type`. */
+  fields: { name: string, label: string, type?: 'text' | 'url' }[];
+  submitLabel: string;
+  onSubmit: (values: Record<string, string>) => Promise<void>;
+}
+
+interface SyncStatus {
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+  /** Local changes the server doesn't have yet. */
+  pendingCount: number;
+  error: string | null;
+}
+
+const syncStatusOf = (state: SyncState | null, error: string | null = null): SyncStatus => ({
+  isSyncing: false,
+  lastSyncedAt: state?.lastSyncedAt ?? null,
+  pendingCount: state ? Object.keys(state.pending).length : 0,
+  error,
+});
+
+/**
+ * After a failed save, puts the baseline back to how it was for each note that save touched, so the
+ * next save writes them again. Notes a later save or another tab has moved on since are left alone.
+ */
+const revertBaseline = (baseline: Note[], prev: Note[], attempted: Note[]): Note[] => {
+  const before = new Map(prev.map(n => [n.id, n]));
+  const after = new Map(attempted.map(n => [n.id, n]));
+  const reverted = baseline.flatMap(n => {
+    if (after.get(n.id) !== n || before.get(n.id) === n) return [n];
+    const old = before.get(n.id);
+    return old ? [old] : [];
+  });
+  const present = new Set(baseline.map(n => n.id));
+  const removed = prev.filter(n => !after.has(n.id) && !present.has(n.id));
+  return [...reverted, ...removed];
+};
+
+interface PendingImport {
+  plan: ImportPlan;
+  profile: UserProfile | null;
+  /** Base64 attachment bytes from the backup, by attachment id. */
+  attachments: Map<string, string>;
+}
+
+interface PaletteCommand {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  /** Keys that do the same thing directly, shown next to the command. */
+  shortcut?: string[];
+  run: () => void;
+}
+
+const checkNewPassphrase = (passphrase: string, confirmation: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  if (passphrase !== confirmation) throw new Error('The passphrases do not match.');
+};
+
 const App: React.FC = () => {
   const [notes, setNotes] = useState<Note[]>([]);
   const [profile, setProfile] = useState<UserProfile>({ name: 'Guest', avatar: null });
-  const [viewState, setViewState] = useState<ViewState>('list');
-  const [currentNoteId, setCurrentNoteId] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>(SortOption.MODIFIED_DESC);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(loadWorkspaces);
+  const workspaceId = getActiveWorkspaceId();
+  const currentWorkspace = workspaces.find(w => w.id === workspaceId) ?? workspaces[0];
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [snackbar, setSnackbar] = useState<SnackbarState | null>(null);
+  // Notes whose reminder went off and hasn't been dismissed from the banner yet
+  const [dueAlerts, setDueAlerts] = useState<string[]>([]);
+  const [leadsReminders, setLeadsReminders] = useState(false);
+  const [reminderNow, setReminderNow] = useState(Date.now);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [lockConfig, setLockConfig] = useState<LockConfig | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<PassphrasePrompt | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  // The screen, open note, search and sort all live in the URL
+  const [location, setLocation] = useState<AppLocation>(currentLocation);
+  // Text shared from another app; read before the URL is rewritten and turned into a note once notes load
+  const [sharedNote, setSharedNote] = useState(() => readSharedNote(window.location.pathname, window.location.search));
+  // Activates a newly deployed version once the user agrees to reload
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [notesLoaded, setNotesLoaded] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [notebookFilter, setNotebookFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [colorFilter, setColorFilter] = useState<NoteColor | null>(null);
+  // Another tab's version of the open note, held back until the user picks a version
+  const [syncConflict, setSyncConflict] = useState<Note | null>(null);
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => syncStatusOf(null));
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [revisionsSaved, setRevisionsSaved] = useState(0);
+
+  // Last notes snapshot written to storage; diffed against state so only changed notes are saved
+  const persistedNotes = useRef<Note[]>([]);
+  // Notes the next save removes but whose attachment files stay, so Undo can bring them back whole
+  const keepFilesOf = useRef<Set<string>>(new Set());
+  // Note versions known to be in the database (loaded, saved or received), so a change from
+  // elsewhere only asks before replacing edits it can't have seen
+  const storedVersions = useRef(new WeakSet<Note>());
+  const searchIndex = useRef(createSearchIndex());
+  // Profile and settings last received from another tab; not saved back, or tabs would echo forever
+  const syncedProfile = useRef<UserProfile | null>(null);
+  const syncedSettings = useRef<AppSettings | null>(null);
+  const isSyncing = useRef(false);
+  // Notes typed in since their last edit session was counted for the Statistics screen
+  const typedNoteIds = useRef(new Set<string>());
+
+  const handleStorageError = (e: StorageError) => setStorageError(e);
+  // Storage failures get the banner; anything else (a damaged file, a failed decode) just its message
+  const reportError = (e: unknown) => {
+    if (e instanceof StorageError) handleStorageError(e);
+    else alert(e instanceof Error ? e.message : String(e));
+  };
+
+  const viewState = location.route.view;
+  const currentNoteId = location.route.view === 'editor' ? location.route.noteId : null;
+  const searchQuery = location.query;
+  const sortBy = location.sortBy;
+
+  const navigate = (route: Route, { replace = false } = {}) => {
+    const next = { ...location, route };
+    if (replace) replaceLocation(next);
+    else pushLocation(next);
+    setLocation(next);
+  };
+
+  // Uses the browser's history when it leads back into the app, so Back and our back arrows agree
+  const goBack = (fallback: Route) => {
+    if (canGoBack()) window.history.back();
+    else navigate(fallback, { replace: true });
+  };
+
+  // Search and sort edits replace the current entry rather than adding one per keystroke
+  const updateListLocation = (changes: Partial<Pick<AppLocation, 'query' | 'sortBy'>>) => {
+    const next = { ...location, ...changes };
+    replaceLocation(next);
+    setLocation(next);
+  };
+
+  const setSearchQuery = (query: string) => updateListLocation({ query });
+  const setSortBy = (sort: SortOption) => updateListLocation({ sortBy: sort });
+
+  useEffect(() => {
+    // Rewrites odd or unknown URLs to their canonical form and tags the entry with its depth
+    replaceLocation(location);
+    const handlePopState = () => setLocation(currentLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  // Notes, and the sync config sealed alongside them, are loaded separately from the profile so they can wait behind the lock screen
+  const loadNoteData = async (retentionDays: number) => {
+    const storedNotes = await loadNotes();
+    persistedNotes.current = storedNotes;
+    storedNotes.forEach(n => storedVersions.current.add(n));
+    const savedNotes = purgeExpiredNotes(storedNotes, retentionDays);
+    setNotes(savedNotes);
+    setNotesLoaded(true);
+    setIsLocked(false);
+    setRecentSearches(await loadRecentSearches());
+    setTemplates(await loadTemplates());
+    const savedSync = await loadSyncState();
+    setSyncConfig(savedSync?.config ?? null);
+    setSyncStatus(syncStatusOf(savedSync));
+    await pruneRevisions(savedNotes.map(n => n.id));
+    await pruneAttachments(savedNotes);
+  };
 
   // Initialize
   useEffect(() => {
-    setNotes(loadNotes());
-    const savedProfile = loadProfile();
-    if (!savedProfile.name || savedProfile.name.trim() === '') savedProfile.name = 'Guest User';
-    setProfile(savedProfile);
+    (async () => {
+      const savedSettings = await loadSettings();
+      const savedProfile = await loadProfile();
+      const savedLock = await loadLockConfig();
+
+      if (!savedProfile.name || savedProfile.name.trim() === '') savedProfile.name = 'Guest User';
+      setSettings(savedSettings);
+      setProfile(savedProfile);
+      setLockConfig(savedLock);
+      setIsLocked(savedLock !== null);
+      setIsLoaded(true);
+
+      const [warning] = takeMigrationWarnings();
+      if (warning) setStorageError(warning);
+      if (!savedLock) await loadNoteData(savedSettings.trashRetentionDays);
+    })().catch(reportError);
   }, []);
 
   // Sync to Storage
   useEffect(() => {
-    if (notes.length > 0 || localStorage.getItem('notepad_pro_notes')) {
-        saveNotes(notes);
+    if (!isLoaded || isLocked) return;
+    const prev = persistedNotes.current;
+    const keepFiles = keepFilesOf.current;
+    // Moved ahead now so the next change diffs against this one, and moved back if the write fails
+    persistedNotes.current = notes;
+    keepFilesOf.current = new Set();
+    saveNoteChanges(prev, notes, keepFiles).then(() => {
+      notes.forEach(n => storedVersions.current.add(n));
+    }).catch(e => {
+      persistedNotes.current = revertBaseline(persistedNotes.current, prev, notes);
+      keepFiles.forEach(id => keepFilesOf.current.add(id));
+      reportError(e);
+    });
+  }, [notes, isLoaded, isLocked]);
+
+  useEffect(() => {
+    if (!isLoaded || profile === syncedProfile.current) return;
+    saveProfile(profile).catch(reportError);
+  }, [profile, isLoaded]);
+
+  // `system` is re-resolved whenever the device switches between light and dark
+  useEffect(() => {
+    if (!isLoaded) return;
+    applyAppearance(settings);
+    if (settings.theme === 'system') return subscribeToColorScheme(() => applyAppearance(settings));
+  }, [settings.theme, settings.accentColor, settings.editorFont, settings.editorFontSize, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (settings !== syncedSettings.current) saveSettings(settings).catch(reportError);
+  }, [settings, isLoaded]);
+
+  // Trash expires while the app stays open too, so purge on a timer as well as when the setting changes
+  useEffect(() => {
+    if (!isLoaded || isLocked) return;
+    const purge = () => setNotes(prev => purgeExpiredNotes(prev, settings.trashRetentionDays));
+    purge();
+    const timer = setInterval(purge, TRASH_PURGE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [settings.trashRetentionDays, isLoaded, isLocked]);
+
+  const refreshSnapshots = () => loadSnapshots().then(setSnapshots).catch(reportError);
+
+  // Automatic snapshots, once notes can be read: on every start, or whenever a day has passed
+  useEffect(() => {
+    if (!notesLoaded || isLocked || settings.backupSchedule === 'off') return;
+    const snapshot = () => {
+      takeSnapshot('automatic', settings.backupsToKeep, settings.backupSchedule === 'daily' ? DAY_MS : 0)
+        .then(refreshSnapshots)
+        .catch(reportError);
+    };
+    snapshot();
+    if (settings.backupSchedule !== 'daily') return;
+    const timer = setInterval(snapshot, SNAPSHOT_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [notesLoaded, isLocked, settings.backupSchedule, settings.backupsToKeep]);
+
+  // Other tabs may have taken or deleted snapshots since
+  useEffect(() => {
+    if (isLoaded && viewState === 'settings') refreshSnapshots();
+  }, [isLoaded, viewState]);
+
+  // Apply what other tabs save, so two open tabs never overwrite each other's edits
+  useEffect(() => {
+    if (!isLoaded) return;
+    return subscribeToOtherTabs({
+      onNotes: (changed, removed) => {
+        if (!notesLoaded) return;
+        // persistedNotes still matches the last render, so it holds this tab's open note. Only
+        // edits not yet written are at risk; otherwise the other tab's version already includes them.
+        const local = persistedNotes.current.find(n => n.id === currentNoteId);
+        const remote = changed.find(n => n.id === currentNoteId);
+        const conflict = local && remote && !storedVersions.current.has(local) && remote.lastModified >= local.lastModified && (remote.title !== local.title || remote.content !== local.content) ? remote : null;
+        const applied = changed.filter(n => n !== conflict);
+        applied.forEach(n => storedVersions.current.add(n));
+
+        // Mirror the database so only notes this tab holds newer versions of are written back.
+        // A held-back note keeps its old entry, otherwise it would be saved over the other tab's edit.
+        const appliedIds = new Set(applied.map(n => n.id));
+        persistedNotes.current = [...persistedNotes.current.filter(n => !appliedIds.has(n.id) && !removed.includes(n.id)), ...applied];
+        setNotes(prev => mergeRemoteNotes(prev, applied, removed));
+        if (remote) setSyncConflict(conflict);
+      },
+      onProfile: (remoteProfile) => {
+        syncedProfile.current = remoteProfile;
+        setProfile(remoteProfile);
+      },
+      onSettings: (remoteSettings) => {
+        syncedSettings.current = remoteSettings;
+        setSettings(remoteSettings);
+      },
+      // Saved directly by the handlers that change them, so setting them here writes nothing back
+      onTemplates: setTemplates,
+      // Lock changes and resets invalidate everything this tab holds in memory
+      onReset: () => window.location.reload(),
+    }, handleStorageError);
+  }, [isLoaded, notesLoaded, currentNoteId]);
+
+  // Workspaces added, renamed or deleted in other tabs
+  useEffect(() => subscribeToWorkspaces(setWorkspaces), []);
+
+  // Runs one round of server sync and folds what it pulled into state, like changes from another tab
+  const runSync = async () => {
+    if (!syncConfig || !notesLoaded || isSyncing.current) return;
+    isSyncing.current = true;
+    setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+    let error: string | null = null;
+    try {
+      const pulled = await syncNotes(SYNC_ADAPTERS[syncConfig.provider](syncConfig));
+      if (pulled && (pulled.changed.length > 0 || pulled.removed.length > 0)) {
+        const changedIds = new Set(pulled.changed.map(n => n.id));
+        pulled.changed.forEach(n => storedVersions.current.add(n));
+        persistedNotes.current = [...persistedNotes.current.filter(n => !changedIds.has(n.id) && !pulled.removed.includes(n.id)), ...pulled.changed];
+        setNotes(prev => mergeRemoteNotes(prev, pulled.changed, pulled.removed));
+      }
+      if (pulled && pulled.rejected.length > 0) {
+        const count = `${pulled.rejected.length} ${pulled.rejected.length === 1 ? 'note' : 'notes'}`;
+        error = `${count} on the sync server could not be read and ${pulled.rejected.length === 1 ? 'was' : 'were'} skipped.`;
+      }
+    } catch (e) {
+      error = (e as Error).message;
     }
-  }, [notes]);
+    isSyncing.current = false;
+    setSyncStatus(syncStatusOf(await loadSyncState().catch(() => null), error));
+  };
+
+  // Sync once edits pause, then on a timer and whenever the connection or the tab comes back
+  useEffect(() => {
+    if (!syncConfig || !notesLoaded) return;
+    const timer = setTimeout(runSync, SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [notes, syncConfig, notesLoaded]);
+
+  useEffect(() => {
+    if (!syncConfig || !notesLoaded) return;
+    const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+    const handleVisibility = () => { if (document.visibilityState === 'visible') runSync(); };
+    window.addEventListener('online', runSync);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', runSync);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [syncConfig, notesLoaded]);
+
+  const lockApp = () => {
+    setEncryptionKey(null);
+    setIsLocked(true);
+    setNotes([]);
+    setNotesLoaded(false);
+    setDueAlerts([]);
+    setRecentSearches([]);
+    setTemplates([]);
+    setSyncConfig(null);
+    setShowTemplatePicker(false);
+    setShowCommandPalette(false);
+    setShowShortcuts(false);
+    // Read from the URL: auto-lock calls this from a timer set up several renders ago
+    const listLocation: AppLocation = { ...currentLocation(), route: { view: 'list' }, query: '' };
+    replaceLocation(listLocation);
+    setLocation(listLocation);
+    setPassphrasePrompt(null);
+  };
 
+  // Auto-lock after a period without user input
   useEffect(() => {
-    saveProfile(profile);
-  }, [profile]);
+    if (!lockConfig || isLocked || settings.autoLockMinutes <= 0) return;
+    let timer = setTimeout(lockApp, settings.autoLockMinutes * 60_000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lockApp, settings.autoLockMinutes * 60_000);
+    };
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(evt => window.addEventListener(evt, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(evt => window.removeEventListener(evt, resetTimer));
+    };
+  }, [lockConfig, isLocked, settings.autoLockMinutes]);
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!lockConfig) return;
+    const key = await unlock(lockConfig, passphrase);
+    setEncryptionKey(key, lockConfig);
+    await loadNoteData(settings.trashRetentionDays);
+  };
+
+  const handleEnableLock = () => setPassphrasePrompt({
+    title: 'Turn On App Lock',
+    description: 'Notes will be encrypted with a key derived from this passphrase. If you forget it, your notes cannot be recovered: the only way back in is Clear All Data.',
+    fields: [{ name: 'passphrase', label: 'New passphrase' }, { name: 'confirmation', label: 'Confirm passphrase' }],
+    submitLabel: 'Encrypt Notes',
+    onSubmit: async ({ passphrase, confirmation }) => {
+      checkNewPassphrase(passphrase, confirmation);
+      const { config, key } = await createLock(passphrase);
+      await reencryptAll(key, config);
+      setLockConfig(config);
+      showSnackbar('App Lock is on. Notes are encrypted.');
+    },
+  });
+
+  const handleChangePassphrase = () => setPassphrasePrompt({
+    title: 'Change Passphrase',
+    description: 'All notes and their history are re-encrypted with the new passphrase.',
+    fields: [{ name: 'current', label: 'Current passphrase' }, { name: 'passphrase', label: 'New passphrase' }, { name: 'confirmation', label: 'Confirm new passphrase' }],
+    submitLabel: 'Change Passphrase',
+    onSubmit: async ({ current, passphrase, confirmation }) => {
+      await unlock(lockConfig!, current);
+      checkNewPassphrase(passphrase, confirmation);
+      const { config, key } = await createLock(passphrase);
+      await reencryptAll(key, config);
+      setLockConfig(config);
+      showSnackbar('Passphrase changed');
+    },
+  });
+
+  const handleDisableLock = () => setPassphrasePrompt({
+    title: 'Turn Off App Lock',
+    description: 'Notes will be decrypted and stored as plain text on this device.',
+    fields: [{ name: 'current', label: 'Current passphrase' }],
+    submitLabel: 'Decrypt Notes',
+    onSubmit: async ({ current }) => {
+      await unlock(lockConfig!, current);
+      await reencryptAll(null, null);
+      setLockConfig(null);
+      showSnackbar('App Lock is off');
+    },
+  });
 
   const currentNote = useMemo(() => 
     notes.find(n => n.id === currentNoteId), 
     [notes, currentNoteId]
   );
 
+  const backlinks = useMemo(() => (currentNote ? findBacklinks(notes, currentNote) : []), [notes, currentNote]);
+
+  // Snapshot the open note after a pause in typing, and count the typing as an edit session
+  useEffect(() => {
+    if (viewState !== 'editor' || !currentNote) return;
+    const timer = setTimeout(() => {
+      saveRevision(currentNote);
+      if (typedNoteIds.current.delete(currentNote.id)) recordActivity(dayKey(Date.now())).catch(reportError);
+    }, REVISION_IDLE_MS);
+    return () => clearTimeout(timer);
+  }, [viewState, currentNote?.title, currentNote?.content]);
+
+  // Only the elected tab announces reminders; the others pick up its updates through the usual note sync
+  useEffect(() => {
+    if (!isLoaded) return;
+    const resign = electReminderTab(workspaceId, () => setLeadsReminders(true));
+    return () => {
+      resign();
+      setLeadsReminders(false);
+    };
+  }, [isLoaded]);
+
+  // Wraps up a note once it's no longer open, however the editor was left: our back arrow,
+  // the browser or OS Back, or a link to another note
+  const openNoteId = useRef<string | null>(null);
+  useEffect(() => {
+    const closedId = openNoteId.current;
+    openNoteId.current = currentNoteId;
+    if (!closedId || closedId === currentNoteId) return;
+    // Typing since the last pause is a session too, even though the idle timer never fired
+    if (typedNoteIds.current.delete(closedId)) recordActivity(dayKey(Date.now())).catch(reportError);
+    const closed = notes.find(n => n.id === closedId);
+    if (!closed || isTrashed(closed)) return;
+    saveRevision(closed);
+    // Pick up any #hashtags typed into the body
+    const tags = mergeTags(closed.tags, extractHashtags(closed.content));
+    if (tags.length !== (closed.tags?.length ?? 0)) {
+      setNotes(prev => prev.map(n => n.id === closedId ? { ...n, tags, lastModified: Date.now() } : n));
+    }
+  }, [currentNoteId]);
+
+  // Announce due reminders. Checked on every change and on a timer, so reminders
+  // that came due while the app was closed fire as soon as it loads.
+  useEffect(() => {
+    if (!isLoaded || isLocked || !leadsReminders) return;
+    const check = () => {
+      const now = Date.now();
+      const due = dueReminders(notes, now);
+      if (due.length === 0) return;
+
+      if (document.visibilityState === 'hidden') {
+        // With App Lock on, keep note titles off the lock screen and notification center
+        due.forEach(n => sendNotification(n.id, lockConfig ? 'Reminder' : n.title || 'Untitled', lockConfig ? 'A note reminder is due' : formatDue(n.reminder!.dueAt)));
+      }
+      const dueIds = new Set(due.map(n => n.id));
+      setDueAlerts(prev => [...prev.filter(id => !dueIds.has(id)), ...dueIds]);
+      setNotes(prev => prev.map(n => dueIds.has(n.id) && n.reminder ? { ...n, reminder: markNotified(n.reminder, now) } : n));
+    };
+    check();
+    const timer = setInterval(check, REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [notes, isLoaded, isLocked, lockConfig, leadsReminders]);
+
+  // Keeps the due/overdue grouping current while the notes themselves sit unchanged
+  useEffect(() => {
+    const timer = setInterval(() => setReminderNow(Date.now()), REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const activeNotes = useMemo(() => notes.filter(n => !isTrashed(n)), [notes]);
+  const upcoming = useMemo(() => upcomingNotes(activeNotes, reminderNow), [activeNotes, reminderNow]);
+
+  const trashedNotes = useMemo(() => 
+    notes.filter(isTrashed).sort((a, b) => b.deletedAt! - a.deletedAt!), 
+    [notes]
+  );
+
+  const attachmentSummary = useMemo(() => attachmentUsage(notes), [notes]);
+
+  const tagCounts = useMemo(() => countTags(activeNotes), [activeNotes]);
+  const notebookCounts = useMemo(() => countNotebooks(activeNotes), [activeNotes]);
+  const colorCounts = useMemo(() => countColors(activeNotes), [activeNotes]);
+
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+  // The index is patched in place, so only notes edited since the last search are re-tokenized.
+  // That happens after render; `indexedNotes` then re-runs the search against the updated index.
+  const [indexedNotes, setIndexedNotes] = useState<Note[]>([]);
+  useEffect(() => {
+    updateSearchIndex(searchIndex.current, activeNotes);
+    setIndexedNotes(activeNotes);
+  }, [activeNotes]);
+
+  const searchScores = useMemo(() => searchNotes(searchIndex.current, parsedQuery), [indexedNotes, parsedQuery]);
+
   const filteredNotes = useMemo(() => {
-    let result = notes.filter(n => 
-      n.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-      n.content.toLowerCase().includes(searchQuery.toLowerCase())
+    let result = activeNotes.filter(n => 
+      (!notebookFilter || n.notebook === notebookFilter) &&
+      (!tagFilter || n.tags?.includes(tagFilter)) &&
+      (!colorFilter || normalizeColor(n.color) === colorFilter) &&
+      (!searchScores || searchScores.has(n.id))
     );
 
+    // Text searches are ordered by relevance, best match first
+    if (searchScores && hasTextTerms(parsedQuery)) {
+      return result.sort((a, b) => searchScores.get(b.id)! - searchScores.get(a.id)!);
+    }
+
     result.sort((a, b) => {
       if (a.isPinned && !b.isPinned) return -1;
       if (!a.isPinned && b.isPinned) return 1;
@@ -52,39 +635,226 @@ const App: React.FC = () => {
         case SortOption.CREATED_ASC: return a.createdAt - b.createdAt;
         case SortOption.MODIFIED_DESC: return b.lastModified - a.lastModified;
         case SortOption.TITLE_ASC: return a.title.localeCompare(b.title);
+        // Notes without a reminder go last, most recently edited first
+        case SortOption.DUE_ASC: return (a.reminder?.dueAt ?? Infinity) - (b.reminder?.dueAt ?? Infinity) || b.lastModified - a.lastModified;
         default: return 0;
       }
     });
 
     return result;
-  }, [notes, searchQuery, sortBy]);
+  }, [activeNotes, searchScores, parsedQuery, sortBy, notebookFilter, tagFilter, colorFilter]);
 
-  const handleCreateNote = () => {
+  const handleCreateNote = ({ title = '', content = '', kind }: Partial<Pick<Note, 'title' | 'content' | 'kind'>> = {}) => {
     const newNote: Note = {
       id: crypto.randomUUID(),
-      title: '',
-      content: '',
+      title,
+      ...(kind === 'checklist' && { kind }),
+      content,
       isPinned: false,
       createdAt: Date.now(),
       lastModified: Date.now(),
-      color: COLORS[0],
+      color: colorFilter ?? COLORS[0],
+      tags: tagFilter ? [tagFilter] : [],
+      notebook: notebookFilter,
     };
     setNotes([newNote, ...notes]);
-    setCurrentNoteId(newNote.id);
-    setViewState('editor');
+    navigate({ view: 'editor', noteId: newNote.id });
+  };
+
+  useEffect(() => {
+    if (!notesLoaded || !sharedNote) return;
+    setSharedNote(null);
+    handleCreateNote(sharedNote);
+  }, [notesLoaded, sharedNote]);
+
+  const handleCommitSearch = (query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    const next = [trimmed, ...recentSearches.filter(q => q !== trimmed)];
+    setRecentSearches(next);
+    saveRecentSearches(next).catch(reportError);
+  };
+
+  const handleClearRecentSearches = () => {
+    setRecentSearches([]);
+    saveRecentSearches([]).catch(reportError);
+  };
+
+  const handleCreateFromTemplate = (template: NoteTemplate, values: Record<string, string>) => {
+    setShowTemplatePicker(false);
+    handleCreateNote(expandTemplate(template, { now: Date.now(), user: profile.name, values }));
+  };
+
+  const updateTemplates = (next: NoteTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next).catch(reportError);
+  };
+
+  const handleSaveAsTemplate = (note: Note) => {
+    const name = window.prompt('Template name:', note.title.trim() || 'Untitled template')?.trim();
+    if (!name) return;
+    updateTemplates([...templates, templateFromNote(note, name)]);
+    showSnackbar(`Saved "${name}" as a template`);
+  };
+
+  const handleRenameTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    const name = template && window.prompt('Rename template to:', template.name)?.trim();
+    if (!name || name === template.name) return;
+    updateTemplates(templates.map(t => (t.id === id ? { ...t, name } : t)));
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const previous = templates;
+    updateTemplates(templates.filter(t => t.id !== id));
+    showSnackbar('Template deleted', () => updateTemplates(previous));
+  };
+
+  // Counted so an open history panel can show versions saved while it is up
+  const saveRevision = (note: Note) => {
+    recordRevision(note)
+      .then(() => setRevisionsSaved(count => count + 1))
+      .catch(reportError);
+  };
+
+  const handleOpenNote = (id: string) => {
+    const note = notes.find(n => n.id === id);
+    if (note) saveRevision(note);
+    navigate({ view: 'editor', noteId: id });
+  };
+
+  // Opens the note a [[link]] points to, creating it when no note has that title yet
+  const handleOpenLink = (title: string) => {
+    const target = findNoteByTitle(notes, title);
+    if (target) handleOpenNote(target.id);
+    else handleCreateNote({ title });
+  };
+
+  const handleTitleRenamed = (from: string, to: string) => {
+    if (!to.trim() || normalizeTitle(from) === normalizeTitle(to)) return;
+    // Links keep working if another note still has the old title
+    if (findNoteByTitle(notes.filter(n => n.id !== currentNoteId), from)) return;
+    const linking = notes.filter(n => n.id !== currentNoteId && linksTo(n, from));
+    if (linking.length === 0) return;
+    const count = `${linking.length} ${linking.length === 1 ? 'note' : 'notes'}`;
+    if (!window.confirm(`${count} link to "${from.trim()}". Update them to point to "${to.trim()}"?`)) return;
+
+    const ids = new Set(linking.map(n => n.id));
+    setNotes(prev => prev.map(n => ids.has(n.id) ? { ...n, content: renameLinks(n.content, from, to), lastModified: Date.now() } : n));
+    // Undo renames the links back rather than restoring the old notes, so later edits to them survive
+    showSnackbar(`Updated links in ${count}`, () => {
+      setNotes(prev => prev.map(n => ids.has(n.id) ? { ...n, content: renameLinks(n.content, to, from), lastModified: Date.now() } : n));
+    });
+  };
+
+  const handleCloseEditor = () => goBack({ view: 'list' });
+
+  const handleRestoreRevision = (revision: Revision) => {
+    if (!currentNote) return;
+    const restored = { ...currentNote, title: revision.title, content: revision.content };
+    handleUpdateNote({ title: revision.title, content: revision.content });
+    recordRevision(currentNote)
+      .then(() => recordRevision(restored, revision.createdAt))
+      .then(() => setRevisionsSaved(count => count + 1))
+      .catch(reportError);
+    showSnackbar(`Restored version from ${format(revision.createdAt, 'MMM d, h:mm a')}`);
   };
 
   const handleUpdateNote = (updates: Partial<Note>) => {
     if (!currentNoteId) return;
+    if ('title' in updates || 'content' in updates) typedNoteIds.current.add(currentNoteId);
     setNotes(prev => prev.map(n => 
       n.id === currentNoteId ? { ...n, ...updates, lastModified: Date.now() } : n
     ));
   };
 
+  // Either way the version not kept goes into the note's history
+  const handleKeepMine = () => {
+    if (syncConflict) saveRevision(syncConflict);
+    setSyncConflict(null);
+    // A fresh timestamp makes this version win in every tab
+    handleUpdateNote({});
+  };
+
+  const handleUseTheirs = () => {
+    if (!syncConflict) return;
+    const theirs = syncConflict;
+    setSyncConflict(null);
+    if (currentNote) saveRevision(currentNote);
+    setNotes(prev => prev.map(n => n.id === theirs.id ? theirs : n));
+  };
+
+  // Bytes are stored before the note lists them, so a failed write never leaves a broken attachment
+  const handleAddAttachments = async (files: File[]) => {
+    const noteId = currentNoteId;
+    if (!noteId || files.length === 0) return;
+    const added: Attachment[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const { attachment, blob } = await prepareAttachment(file, Date.now());
+        await saveAttachment(noteId, attachment, blob);
+        added.push(attachment);
+      } catch (e) {
+        if (e instanceof StorageError) {
+          handleStorageError(e);
+          break;
+        }
+        failed.push((e as Error).message);
+      }
+    }
+    if (added.length > 0) {
+      setNotes(prev => prev.map(n => 
+        n.id === noteId ? { ...n, attachments: [...(n.attachments ?? []), ...added], lastModified: Date.now() } : n
+      ));
+    }
+    if (failed.length > 0) alert(`Some files were not attached:\n${failed.join('\n')}`);
+  };
+
+  // The bytes stay stored until the next load prunes them, so Undo can bring the file back
+  const handleRemoveAttachment = (id: string) => {
+    if (!currentNote) return;
+    const noteId = currentNote.id;
+    const previous = currentNote.attachments ?? [];
+    handleUpdateNote({ attachments: previous.filter(a => a.id !== id) });
+    showSnackbar('Attachment removed', () => setNotes(prev => prev.map(n => (n.id === noteId ? { ...n, attachments: previous } : n))));
+  };
+
+  const handleCompleteReminder = (id: string) => {
+    setNotes(prev => prev.map(n => 
+      n.id === id && n.reminder?.repeat === 'none' ? { ...n, reminder: null, lastModified: Date.now() } : n
+    ));
+    setDueAlerts(prev => prev.filter(alertId => alertId !== id));
+  };
+
+  const showSnackbar = (message: string, onUndo?: () => void) => {
+    setSnackbar({ id: Date.now(), message, onUndo });
+  };
+
   const handleDeleteNote = (id: string) => {
+    setNotes(prev => prev.map(n => 
+      n.id === id ? { ...n, deletedAt: Date.now() } : n
+    ));
+    goBack({ view: 'list' });
+    showSnackbar('Note moved to Trash', () => handleRestoreNote(id));
+  };
+
+  const handleRestoreNote = (id: string) => {
+    setNotes(prev => prev.map(n => 
+      n.id === id ? { ...n, deletedAt: null } : n
+    ));
+  };
+
+  const handleDeleteForever = (id: string) => {
+    if (!window.confirm("Delete this note permanently? This cannot be undone.")) return;
     setNotes(prev => prev.filter(n => n.id !== id));
-    setViewState('list');
-    setCurrentNoteId(null);
+    deleteRevisions([id]).catch(reportError);
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`Permanently delete ${trashedNotes.length} ${trashedNotes.length === 1 ? 'note' : 'notes'} in the Trash?`)) return;
+    deleteRevisions(trashedNotes.map(n => n.id)).catch(reportError);
+    setNotes(prev => prev.filter(n => !isTrashed(n)));
   };
 
   const handleTogglePin = (id: string) => {
@@ -93,114 +863,673 @@ const App: React.FC = () => {
     ));
   };
 
+  // Applies a change to several notes at once; Undo reverts all of it in one step
+  const applyBulkChange = (message: string, change: (prev: Note[]) => Note[]) => {
+    const before = notes;
+    const after = change(notes);
+    setNotes(after);
+    showSnackbar(message, () => setNotes(current => revertChange(current, before, after)));
+  };
+
+  const handleBulkPin = (ids: string[]) => {
+    const selected = new Set(ids);
+    // Pin them all unless they already are, like a single pin toggle
+    const pin = notes.some(n => selected.has(n.id) && !n.isPinned);
+    applyBulkChange(`${pin ? 'Pinned' : 'Unpinned'} ${noteCount(ids.length)}`, prev => prev.map(n => 
+      selected.has(n.id) && n.isPinned !== pin ? { ...n, isPinned: pin } : n
+    ));
+  };
+
+  const handleBulkDelete = (ids: string[]) => {
+    const selected = new Set(ids);
+    const now = Date.now();
+    applyBulkChange(`Moved ${noteCount(ids.length)} to Trash`, prev => prev.map(n => 
+      selected.has(n.id) ? { ...n, deletedAt: now } : n
+    ));
+  };
+
+  const handleBulkColor = (ids: string[], color: NoteColor) => {
+    const selected = new Set(ids);
+    applyBulkChange(`Changed color of ${noteCount(ids.length)}`, prev => prev.map(n => 
+      selected.has(n.id) && normalizeColor(n.color) !== color ? { ...n, color, lastModified: Date.now() } : n
+    ));
+  };
+
+  // The originals go to the Trash rather than being deleted, so nothing is lost
+  const handleBulkMerge = async (ids: string[]) => {
+    const selected = new Set(ids);
+    if (selected.size < 2) return;
+    const now = Date.now();
+    const originals = notes.filter(n => selected.has(n.id));
+    const merged = mergeNotes(originals, now);
+    try {
+      await Promise.all(originals.map(n => copyAttachments(n.id, merged.id, n.attachments?.map(a => a.id) ?? [])));
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    applyBulkChange(`Merged ${noteCount(selected.size)} into one`, prev => [
+      merged,
+      ...prev.map(n => (selected.has(n.id) ? { ...n, deletedAt: now } : n)),
+    ]);
+  };
+
+  const handleRenameTag = (from: string) => {
+    const input = window.prompt(`Rename tag "#${from}" to:`, from);
+    const to = input ? normalizeTag(input) : '';
+    if (!to || to === from) return;
+    if (tagCounts.some(t => t.name === to) && !window.confirm(`"#${to}" already exists. Merge "#${from}" into it?`)) return;
+    setNotes(prev => renameTag(prev, from, to));
+    if (tagFilter === from) setTagFilter(to);
+  };
+
+  const handleRenameNotebook = (from: string) => {
+    const input = window.prompt(`Rename notebook "${from}" to:`, from);
+    const to = input ? normalizeNotebook(input) : '';
+    if (!to || to === from) return;
+    if (notebookCounts.some(nb => nb.name === to) && !window.confirm(`"${to}" already exists. Merge "${from}" into it?`)) return;
+    setNotes(prev => renameNotebook(prev, from, to));
+    if (notebookFilter === from) setNotebookFilter(to);
+  };
+
   const handleShare = (note: Note) => {
     if (navigator.share) {
       navigator.share({
         title: note.title || 'Untitled Note',
-        text: note.content,
+        text: toPlainText(note.content),
       }).catch(console.error);
     } else {
       alert('Content copied to clipboard.');
-      navigator.clipboard.writeText(`${note.title}\n\n${note.content}`);
+      navigator.clipboard.writeText(`${note.title}\n\n${toPlainText(note.content)}`);
     }
   };
 
-  const handleClearAll = () => {
-    const isConfirmed = window.confirm("Are you sure? This will delete ALL your notes and reset your profile. This action cannot be undone!");
+  // `withSnapshots` also erases every snapshot, leaving nothing of the workspace on this device
+  const handleClearAll = async (withSnapshots = false) => {
+    const workspaceNote = workspaces.length > 1 ? ` in the "${currentWorkspace.name}" workspace` : '';
+    // Locked notes can't be read, so there is no snapshot to fall back on then
+    const fallback = withSnapshots
+      ? 'Every snapshot in Automatic Backups is deleted too. This action cannot be undone!'
+      : isLocked ? 'This action cannot be undone!' : 'A snapshot is kept first, so you can restore it from Automatic Backups in Settings.';
+    const isConfirmed = window.confirm(`Are you sure? This will delete ALL your notes${workspaceNote} and reset your profile. ${fallback}`);
     
     if (isConfirmed) {
-      // 1. Clear Local Storage specifically
-      localStorage.removeItem('notepad_pro_notes');
-      localStorage.removeItem('notepad_pro_profile');
+      // 1. Take a final snapshot, then clear the local database
+      try {
+        if (!isLocked && !withSnapshots) await takeSnapshot('before-clear', settings.backupsToKeep);
+        await clearAllData(withSnapshots);
+      } catch (e) {
+        reportError(e);
+        return;
+      }
       
       // 2. Reset State
+      persistedNotes.current = [];
+      setEncryptionKey(null);
+      setLockConfig(null);
+      setIsLocked(false);
       setNotes([]);
       setProfile({ name: 'Guest User', avatar: null });
+      setSettings(DEFAULT_SETTINGS);
+      setTemplates(STARTER_TEMPLATES);
+      setRecentSearches([]);
+      setSyncConfig(null);
+      setSyncStatus(syncStatusOf(null));
+      refreshSnapshots();
       
       // 3. Navigate back
-      setViewState('list');
-      setCurrentNoteId(null);
+      navigate({ view: 'list' }, { replace: true });
       
       window.alert("System Reset Complete. All data has been cleared.");
     }
   };
 
-  const handleExport = () => {
+  const handleConnectSync = () => setPassphrasePrompt({
+    title: 'Connect Sync Server',
+    description: `Sync this workspace's notes through a folder on a WebDAV server you run, such as Nextcloud or rclone. The server must allow this app through CORS. Notes already here are uploaded on the first sync.${lockConfig ? ' App Lock only protects this device: synced notes and their attachments are stored on the server unencrypted.' : ' The password is saved on this device as plain text unless App Lock is on.'}`,
+    fields: [
+      { name: 'url', label: 'Folder URL (https://...)', type: 'url' },
+      { name: 'username', label: 'Username', type: 'text' },
+      { name: 'password', label: 'Password' },
+    ],
+    submitLabel: 'Connect',
+    onSubmit: async ({ url = '', username = '', password = '' }) => {
+      let parsed: URL;
+      try {
+        parsed = new URL(url.trim());
+      } catch (e) {
+        throw new Error('Enter the full address of the folder, starting with https://');
+      }
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error('The folder address must start with https://');
+      const config: SyncConfig = { provider: 'webdav', url: parsed.href, username: username.trim(), password };
+      await SYNC_ADAPTERS[config.provider](config).check();
+      await enableSync(config);
+      setSyncConfig(config);
+      setSyncStatus(syncStatusOf(await loadSyncState()));
+      showSnackbar('Connected. Notes will sync in the background.');
+    },
+  });
+
+  const handleDisconnectSync = async () => {
+    if (!window.confirm('Stop syncing this workspace? Notes stay on this device and on the server.')) return;
+    try {
+      await disableSync();
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    setSyncConfig(null);
+    setSyncStatus(syncStatusOf(null));
+  };
+
+  // Each workspace is a separate database, so switching starts the app over instead of swapping state
+  const openWorkspace = (id: string) => {
+    try {
+      selectWorkspace(id);
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    window.location.replace('/');
+  };
+
+  const handleSwitchWorkspace = (id: string) => {
+    if (id !== workspaceId) openWorkspace(id);
+  };
+
+  const handleCreateWorkspace = () => {
+    const name = window.prompt('Name the new workspace:');
+    if (name === null) return;
+    try {
+      openWorkspace(createWorkspace(name).id);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleRenameWorkspace = (id: string) => {
+    const name = window.prompt('Rename workspace:', workspaces.find(w => w.id === id)?.name);
+    if (name === null) return;
+    try {
+      setWorkspaces(renameWorkspace(id, name));
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const target = workspaces.find(w => w.id === id);
+    if (!target) return;
+    if (workspaces.length === 1) {
+      alert('This is your only workspace. Use "Clear All Data" in Settings to empty it instead.');
+      return;
+    }
+    if (!window.confirm(`Delete the "${target.name}" workspace? All of its notes, attachments and settings will be erased. This action cannot be undone!`)) return;
+    try {
+      await deleteWorkspace(id);
+    } catch (e) {
+      alert((e as Error).message);
+      return;
+    }
+    if (id === workspaceId) window.location.replace('/');
+    else setWorkspaces(loadWorkspaces());
+  };
+
+  // Reads the bytes of every file attached to these notes, for JSON backups
+  const collectAttachments = async (source: Note[]): Promise<BackupAttachment[]> => {
+    const collected = new Map<string, BackupAttachment>();
+    for (const note of source) {
+      for (const attachment of note.attachments ?? []) {
+        if (collected.has(attachment.id)) continue;
+        const blob = await loadAttachment(note.id, attachment);
+        if (blob) collected.set(attachment.id, { id: attachment.id, data: await blobToBase64(blob) });
+      }
+    }
+    return Array.from(collected.values());
+  };
+
+  const handleExport = async () => {
     if (notes.length === 0) {
       alert("No notes to export!");
       return;
     }
-    const data = JSON.stringify(notes, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `notes_backup_${format(new Date(), 'yyyy_MM_dd')}.json`;
-    link.click();
-    URL.revokeObjectURL(url);
+    let attachments: BackupAttachment[];
+    try {
+      attachments = await collectAttachments(notes);
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    const backup = createBackupFile(notes, profile, attachments);
+    // With App Lock on, backups are only readable with the passphrase
+    const key = getEncryptionKey();
+    const data = key && lockConfig ? await sealBackup(key, lockConfig, backup) : backup;
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `notes_backup_${format(new Date(), 'yyyy_MM_dd')}.json`);
   };
 
-  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const importedNotes = JSON.parse(event.target?.result as string);
-          if (Array.isArray(importedNotes)) {
-            setNotes(prev => [...importedNotes, ...prev]);
-            alert("Notes imported successfully!");
-          } else {
-            alert("Invalid backup format.");
-          }
-        } catch (err) {
-          alert("Could not read backup file.");
+  const handleExportAs = async (notesToExport: Note[], exportFormat: ExportFormat) => {
+    if (notesToExport.length === 0) {
+      alert("No notes to export!");
+      return;
+    }
+    if (lockConfig && !window.confirm("Exported files are not encrypted. Anyone with the file can read these notes. Continue?")) return;
+    let attachments: BackupAttachment[] = [];
+    try {
+      if (exportFormat === 'json') attachments = await collectAttachments(notesToExport);
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    const { fileName, blob } = exportNotes(notesToExport, exportFormat, attachments);
+    downloadBlob(blob, fileName);
+  };
+
+  const previewImport = (incoming: Note[], rejected: RejectedEntry[], importedProfile: UserProfile | null, attachments: Map<string, string>) => {
+    if (incoming.length === 0 && rejected.length === 0) {
+      alert("No notes found in the selected files.");
+      return;
+    }
+    setPendingImport({ plan: planImport(notes, incoming, rejected), profile: importedProfile, attachments });
+  };
+
+  const handleConfirmImport = async (strategy: MergeStrategy, restoreProfile: boolean) => {
+    if (!pendingImport) return;
+    const result = applyImport(notes, pendingImport.plan, strategy);
+    // Store the files of every added or replaced note before the notes point at them
+    const unchanged = new Set(notes);
+    try {
+      for (const note of result.notes.filter(n => !unchanged.has(n))) {
+        for (const attachment of note.attachments ?? []) {
+          await saveAttachment(note.id, attachment, base64ToBlob(pendingImport.attachments.get(attachment.id)!, attachment.type));
         }
-      };
-      reader.readAsText(file);
+      }
+    } catch (e) {
+      reportError(e);
+      return;
     }
+    // Keep the pre-import text of overwritten notes in their history
+    result.replaced.forEach(n => saveRevision(n));
+    setNotes(result.notes);
+    if (restoreProfile && pendingImport.profile) setProfile(pendingImport.profile);
+    setPendingImport(null);
+    showSnackbar(`Restored ${result.added} new, updated ${result.replaced.length}, skipped ${result.skipped}`);
   };
 
-  return (
-    <div className="min-h-screen bg-[#020617] text-slate-100">
-      {viewState === 'list' && (
-        <ListView 
-          notes={filteredNotes}
-          profile={profile}
-          onNoteClick={(id) => { setCurrentNoteId(id); setViewState('editor'); }}
-          onTogglePin={handleTogglePin}
-          onProfileClick={() => setViewState('profile')}
-          onSettingsClick={() => setViewState('settings')}
-          onCreate={handleCreateNote}
-          searchQuery={searchQuery}
-          setSearchQuery={setSearchQuery}
-          sortBy={sortBy}
-          setSortBy={setSortBy}
-        />
-      )}
-      {viewState === 'editor' && (
-        <EditorView 
-          note={currentNote}
-          onUpdate={handleUpdateNote}
-          onBack={() => setViewState('list')}
-          onDelete={() => handleDeleteNote(currentNoteId!)}
+  // One tap is enough: the notes being replaced are snapshotted first, and the snackbar can undo it
+  const restoreSnapshot = async (data: SnapshotData, snapshot: Snapshot) => {
+    try {
+      await takeSnapshot('before-restore', settings.backupsToKeep);
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    const previous = { notes, profile };
+    // Snapshots don't hold attachments, so notes it doesn't have keep theirs until the next start
+    const restoredIds = new Set(data.notes.map(n => n.id));
+    keepFilesOf.current = new Set(notes.filter(n => !restoredIds.has(n.id)).map(n => n.id));
+    setNotes(data.notes);
+    setProfile(data.profile);
+    refreshSnapshots();
+    showSnackbar(`Restored the snapshot from ${format(snapshot.createdAt, 'MMM d, h:mm a')}`, () => {
+      setNotes(previous.notes);
+      setProfile(previous.profile);
+    });
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    let opened: Awaited<ReturnType<typeof readSnapshot>>;
+    try {
+      opened = await readSnapshot(snapshot.id);
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    if ('data' in opened) return restoreSnapshot(opened.data, snapshot);
+    const { sealed } = opened;
+    setPassphrasePrompt({
+      title: 'Encrypted Snapshot',
+      description: 'This snapshot was taken under an earlier App Lock passphrase. Enter that passphrase to restore it.',
+      fields: [{ name: 'passphrase', label: 'Passphrase' }],
+      submitLabel: 'Restore',
+      onSubmit: async ({ passphrase }) => restoreSnapshot(await openBackup<SnapshotData>(sealed, passphrase), snapshot),
+    });
+  };
+
+  const handleDeleteSnapshot = async (snapshot: Snapshot) => {
+    if (!window.confirm(`Delete the snapshot from ${format(snapshot.createdAt, 'MMM d, h:mm a')}? This action cannot be undone!`)) return;
+    try {
+      await deleteSnapshot(snapshot.id);
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    refreshSnapshots();
+  };
+
+  const promptEncryptedImport = (backup: EncryptedBackup) => setPassphrasePrompt({
+    title: 'Encrypted Backup',
+    description: 'This backup was made with App Lock on. Enter the passphrase that was set when it was exported.',
+    fields: [{ name: 'passphrase', label: 'Backup passphrase' }],
+    submitLabel: 'Import',
+    onSubmit: async ({ passphrase }) => {
+      const { notes: incoming, rejected, profile: importedProfile, attachments } = parseBackup(await openBackup(backup, passphrase), 'Encrypted backup');
+      previewImport(incoming, rejected, importedProfile, attachments);
+    },
+  });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const backupFiles = files.filter(isJsonFile);
+    const noteFiles = files.filter(f => !isJsonFile(f));
+    const incoming: Note[] = [];
+    const rejected: RejectedEntry[] = [];
+    let importedProfile: UserProfile | null = null;
+    const attachments = new Map<string, string>();
+
+    for (const file of backupFiles) {
+      try {
+        const parsed = JSON.parse(await file.text());
+        if (isEncryptedBackup(parsed)) {
+          promptEncryptedImport(parsed);
+          continue;
+        }
+        const result = parseBackup(parsed, file.name);
+        incoming.push(...result.notes);
+        rejected.push(...result.rejected);
+        importedProfile = importedProfile ?? result.profile;
+        result.attachments.forEach((data, id) => attachments.set(id, data));
+      } catch (err) {
+        rejected.push({ source: file.name, title: '', reason: err instanceof SyntaxError ? 'Not valid JSON' : (err as Error).message });
+      }
+    }
+
+    if (noteFiles.length > 0) {
+      const { notes: imported, skipped, failed } = await readNoteFiles(noteFiles);
+      incoming.push(...imported);
+      rejected.push(...skipped.map(name => ({ source: name, title: '', reason: 'Unsupported file type' })));
+      rejected.push(...failed.map(name => ({ source: name, title: '', reason: 'Could not be read' })));
+    }
+
+    if (incoming.length > 0 || rejected.length > 0) previewImport(incoming, rejected, importedProfile, attachments);
+  };
+
+  // App-wide keys. Moving through the list and Esc in the editor are handled by those views.
+  useEffect(() => {
+    if (isLocked) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const dialogOpen = showTemplatePicker || showShortcuts || !!pendingImport || !!passphrasePrompt;
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        if (!dialogOpen) setShowCommandPalette(open => !open);
+        return;
+      }
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || dialogOpen || showCommandPalette || isTypingTarget(e.target)) return;
+      if (e.key === 'n') {
+        e.preventDefault();
+        handleCreateNote();
+      } else if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // What the command palette offers depends on the screen: note actions only apply to an open note
+  const buildPaletteCommands = (): PaletteCommand[] => {
+    const openNote = viewState === 'editor' && currentNote && !isTrashed(currentNote) ? currentNote : null;
+    return [
+      { id: 'new', label: 'New note', icon: <Plus size={18} />, shortcut: ['N'], run: () => handleCreateNote() },
+      { id: 'new-from-template', label: 'New note from template', icon: <LayoutTemplate size={18} />, run: () => setShowTemplatePicker(true) },
+      ...(openNote ? [
+        { id: 'pin', label: openNote.isPinned ? 'Unpin note' : 'Pin note', icon: openNote.isPinned ? <PinOff size={18} /> : <Pin size={18} />, run: () => handleTogglePin(openNote.id) },
+        { id: 'delete', label: 'Move note to Trash', icon: <Trash2 size={18} />, run: () => handleDeleteNote(openNote.id) },
+        { id: 'export-note', label: 'Export note as Markdown', icon: <FileDown size={18} />, run: () => handleExportAs([openNote], 'md') },
+      ] : []),
+      ...(viewState === 'list' ? Object.values(SortOption).filter(option => option !== sortBy).map(option => (
+        { id: `sort:${option}`, label: `Sort by ${option}`, icon: <SortDesc size={18} />, run: () => setSortBy(option) }
+      )) : []),
+      ...(syncConfig ? [{ id: 'sync', label: 'Sync now', icon: <Cloud size={18} />, run: runSync }] : []),
+      { id: 'backup', label: 'Back up all notes', icon: <Download size={18} />, run: handleExport },
+      ...(['md', 'txt', 'html'] as ExportFormat[]).map(exportFormat => (
+        { id: `export:${exportFormat}`, label: `Export all notes as ${EXPORT_FORMAT_LABELS[exportFormat]}`, icon: <FileDown size={18} />, run: () => handleExportAs(activeNotes, exportFormat) }
+      )),
+      ...(viewState !== 'list' ? [{ id: 'go-list', label: 'Go to notes', icon: <ArrowLeft size={18} />, run: () => navigate({ view: 'list' }) }] : []),
+      { id: 'go-settings', label: 'Go to Settings', icon: <Settings size={18} />, run: () => navigate({ view: 'settings' }) },
+      { id: 'go-trash', label: 'Open Trash', icon: <Trash2 size={18} />, run: () => navigate({ view: 'trash' }) },
+      { id: 'go-profile', label: 'Edit profile', icon: <User size={18} />, run: () => navigate({ view: 'profile' }) },
+      { id: 'go-stats', label: 'Open Statistics', icon: <ChartColumn size={18} />, run: () => navigate({ view: 'stats' }) },
+      ...workspaces.filter(w => w.id !== workspaceId).map(w => (
+        { id: `workspace:${w.id}`, label: `Switch to workspace "${w.name}"`, icon: <Layers size={18} />, run: () => handleSwitchWorkspace(w.id) }
+      )),
+      ...(lockConfig ? [{ id: 'lock', label: 'Lock now', icon: <Lock size={18} />, run: lockApp }] : []),
+      { id: 'shortcuts', label: 'Keyboard shortcuts', icon: <Keyboard size={18} />, shortcut: ['?'], run: () => setShowShortcuts(true) },
+    ];
+  };
+
+  if (isLocked) {
+    return (
+      <div className="min-h-screen bg-canvas text-ink-100">
+        <LockScreen 
+          profile={profile}
+          onUnlock={handleUnlock}
+          onReset={() => handleClearAll()}
+          workspaces={workspaces}
+          currentWorkspaceId={workspaceId}
+          onSwitchWorkspace={handleSwitchWorkspace}
+        />
+        {storageError && (
+          <StorageErrorBanner error={storageError} onDismiss={() => setStorageError(null)} />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-canvas text-ink-100">
+      {viewState === 'list' && (
+        <ListView 
+          notes={filteredNotes}
+          profile={profile}
+          workspaces={workspaces}
+          currentWorkspace={currentWorkspace}
+          onSwitchWorkspace={handleSwitchWorkspace}
+          onNoteClick={(id) => { handleCommitSearch(searchQuery); handleOpenNote(id); }}
+          onTogglePin={handleTogglePin}
+          onProfileClick={() => navigate({ view: 'profile' })}
+          onSettingsClick={() => navigate({ view: 'settings' })}
+          onCreate={() => handleCreateNote()}
+          onCreateFromTemplate={() => setShowTemplatePicker(true)}
+          onBulkPin={handleBulkPin}
+          onBulkDelete={handleBulkDelete}
+          onBulkColor={handleBulkColor}
+          onBulkExport={(ids, exportFormat) => handleExportAs(activeNotes.filter(n => ids.includes(n.id)), exportFormat)}
+          onBulkMerge={handleBulkMerge}
+          searchQuery={searchQuery}
+          setSearchQuery={setSearchQuery}
+          highlightQuery={hasTextTerms(parsedQuery) ? parsedQuery : null}
+          recentSearches={recentSearches}
+          onCommitSearch={handleCommitSearch}
+          onClearRecentSearches={handleClearRecentSearches}
+          sortBy={sortBy}
+          setSortBy={setSortBy}
+          tagCounts={tagCounts}
+          notebookCounts={notebookCounts}
+          tagFilter={tagFilter}
+          setTagFilter={setTagFilter}
+          notebookFilter={notebookFilter}
+          setNotebookFilter={setNotebookFilter}
+          upcoming={searchQuery ? [] : upcoming}
+          colorCounts={colorCounts}
+          colorFilter={colorFilter}
+          setColorFilter={setColorFilter}
+          density={settings.listDensity}
+        />
+      )}
+      {viewState === 'editor' && notesLoaded && (!currentNote || isTrashed(currentNote)) && (
+        <NoteNotFound 
+          isTrashed={!!currentNote}
+          onBack={() => navigate({ view: 'list' }, { replace: true })}
+          onOpenTrash={() => navigate({ view: 'trash' }, { replace: true })}
+        />
+      )}
+      {viewState === 'editor' && currentNote && !isTrashed(currentNote) && (
+        <EditorView 
+          note={currentNote}
+          onUpdate={handleUpdateNote}
+          onBack={handleCloseEditor}
+          onDelete={() => handleDeleteNote(currentNoteId!)}
           onShare={() => handleShare(currentNote!)}
+          onExportAs={(exportFormat) => handleExportAs([currentNote!], exportFormat)}
+          onSaveAsTemplate={() => handleSaveAsTemplate(currentNote!)}
           onTogglePin={() => handleTogglePin(currentNoteId!)}
+          onRestoreRevision={handleRestoreRevision}
+          revisionsSaved={revisionsSaved}
+          syncConflict={syncConflict?.id === currentNoteId ? syncConflict : null}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          noteLinks={{ exists: (title) => !!findNoteByTitle(notes, title), onOpen: handleOpenLink }}
+          suggestLinks={(query) => suggestTitles(notes, query, currentNoteId!)}
+          backlinks={backlinks}
+          onOpenNote={handleOpenNote}
+          onTitleRenamed={handleTitleRenamed}
+          onAddAttachments={handleAddAttachments}
+          onRemoveAttachment={handleRemoveAttachment}
+          allTags={tagCounts.map(t => t.name)}
+          allNotebooks={notebookCounts.map(nb => nb.name)}
         />
       )}
       {viewState === 'profile' && (
         <ProfileView 
           profile={profile}
           setProfile={setProfile}
-          onBack={() => setViewState('list')}
+          onBack={() => goBack({ view: 'list' })}
+          isEncrypted={lockConfig !== null}
+          isSyncEnabled={syncConfig !== null}
+          workspaces={workspaces}
+          currentWorkspaceId={workspaceId}
+          onSwitchWorkspace={handleSwitchWorkspace}
+          onCreateWorkspace={handleCreateWorkspace}
+          onRenameWorkspace={handleRenameWorkspace}
+          onDeleteWorkspace={handleDeleteWorkspace}
+          onOpenStats={() => navigate({ view: 'stats' })}
         />
       )}
       {viewState === 'settings' && (
         <SettingsView 
-          onBack={() => setViewState('list')}
+          onBack={() => goBack({ view: 'list' })}
           onExport={handleExport}
+          onExportAs={(exportFormat) => handleExportAs(activeNotes, exportFormat)}
           onImport={handleImport}
           onClearAll={handleClearAll}
+          settings={settings}
+          setSettings={setSettings}
+          trashCount={trashedNotes.length}
+          onOpenTrash={() => navigate({ view: 'trash' })}
+          tagCounts={tagCounts}
+          notebookCounts={notebookCounts}
+          onRenameTag={handleRenameTag}
+          onRenameNotebook={handleRenameNotebook}
+          templates={templates}
+          onRenameTemplate={handleRenameTemplate}
+          onDeleteTemplate={handleDeleteTemplate}
+          attachmentSummary={attachmentSummary}
+          onOpenNote={handleOpenNote}
+          onShowShortcuts={() => setShowShortcuts(true)}
+          isLockEnabled={lockConfig !== null}
+          onEnableLock={handleEnableLock}
+          onChangePassphrase={handleChangePassphrase}
+          onDisableLock={handleDisableLock}
+          onLockNow={lockApp}
+          syncConfig={syncConfig}
+          syncStatus={syncStatus}
+          onConnectSync={handleConnectSync}
+          onSyncNow={runSync}
+          onDisconnectSync={handleDisconnectSync}
+          notes={notes}
+          snapshots={snapshots}
+          onRestoreSnapshot={handleRestoreSnapshot}
+          onDeleteSnapshot={handleDeleteSnapshot}
+        />
+      )}
+      {viewState === 'stats' && (
+        <StatsView 
+          notes={activeNotes}
+          tagCounts={tagCounts}
+          colorCounts={colorCounts}
+          attachmentSummary={attachmentSummary}
+          onBack={() => goBack({ view: 'profile' })}
+        />
+      )}
+      {viewState === 'trash' && (
+        <TrashView 
+          notes={trashedNotes}
+          retentionDays={settings.trashRetentionDays}
+          onBack={() => goBack({ view: 'settings' })}
+          onRestore={(id) => { handleRestoreNote(id); showSnackbar('Note restored'); }}
+          onDeleteForever={handleDeleteForever}
+          onEmptyTrash={handleEmptyTrash}
+        />
+      )}
+      {showTemplatePicker && (
+        <TemplatePicker 
+          templates={templates}
+          onCreate={handleCreateFromTemplate}
+          onCancel={() => setShowTemplatePicker(false)}
+        />
+      )}
+      {showCommandPalette && (
+        <CommandPalette 
+          notes={activeNotes}
+          commands={buildPaletteCommands()}
+          onOpenNote={handleOpenNote}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+      {showShortcuts && (
+        <ShortcutsDialog onClose={() => setShowShortcuts(false)} />
+      )}
+      {pendingImport && (
+        <ImportPreview 
+          plan={pendingImport.plan}
+          profile={pendingImport.profile}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {passphrasePrompt && (
+        <PassphraseDialog 
+          {...passphrasePrompt}
+          onSubmit={async (values) => {
+            await passphrasePrompt.onSubmit(values);
+            setPassphrasePrompt(null);
+          }}
+          onCancel={() => setPassphrasePrompt(null)}
+        />
+      )}
+      {dueAlerts.length > 0 && (
+        <ReminderBanner 
+          notes={dueAlerts.map(id => notes.find(n => n.id === id)).filter((n): n is Note => !!n && !isTrashed(n))}
+          onOpen={(id) => { setDueAlerts(prev => prev.filter(alertId => alertId !== id)); handleOpenNote(id); }}
+          onComplete={handleCompleteReminder}
+          onDismiss={(id) => setDueAlerts(prev => prev.filter(alertId => alertId !== id))}
+        />
+      )}
+      {storageError && (
+        <StorageErrorBanner error={storageError} onDismiss={() => setStorageError(null)} />
+      )}
+      {applyUpdate && (
+        <UpdatePrompt onReload={applyUpdate} onDismiss={() => setApplyUpdate(null)} />
+      )}
+      {snackbar && (
+        <Snackbar 
+          key={snackbar.id}
+          message={snackbar.message}
+          onUndo={snackbar.onUndo}
+          onDismiss={() => setSnackbar(null)}
         />
       )}
     </div>
@@ -212,302 +1541,3363 @@ const App: React.FC = () => {
 interface ListViewProps {
   notes: Note[];
   profile: UserProfile;
+  workspaces: Workspace[];
+  currentWorkspace: Workspace;
+  onSwitchWorkspace: (id: string) => void;
   onNoteClick: (id: string) => void;
   onTogglePin: (id: string) => void;
   onProfileClick: () => void;
   onSettingsClick: () => void;
   onCreate: () => void;
+  onCreateFromTemplate: () => void;
+  onBulkPin: (ids: string[]) => void;
+  onBulkDelete: (ids: string[]) => void;
+  onBulkColor: (ids: string[], color: NoteColor) => void;
+  onBulkExport: (ids: string[], format: ExportFormat) => void;
+  onBulkMerge: (ids: string[]) => void;
   searchQuery: string;
   setSearchQuery: (q: string) => void;
+  highlightQuery: SearchQuery | null;
+  recentSearches: string[];
+  onCommitSearch: (q: string) => void;
+  onClearRecentSearches: () => void;
   sortBy: SortOption;
   setSortBy: (s: SortOption) => void;
+  tagCounts: LabelCount[];
+  notebookCounts: LabelCount[];
+  tagFilter: string | null;
+  setTagFilter: (tag: string | null) => void;
+  notebookFilter: string | null;
+  setNotebookFilter: (notebook: string | null) => void;
+  /** Overdue and soon-due notes; empty while searching. */
+  upcoming: Note[];
+  colorCounts: { color: NoteColor, count: number }[];
+  colorFilter: NoteColor | null;
+  setColorFilter: (color: NoteColor | null) => void;
+  density: ListDensity;
 }
 
 const ListView: React.FC<ListViewProps> = ({ 
-  notes, profile, onNoteClick, onTogglePin, onProfileClick, onSettingsClick, onCreate, 
-  searchQuery, setSearchQuery, sortBy, setSortBy 
+  notes, profile, workspaces, currentWorkspace, onSwitchWorkspace, onNoteClick, onTogglePin, onProfileClick, onSettingsClick, onCreate, onCreateFromTemplate, 
+  onBulkPin, onBulkDelete, onBulkColor, onBulkExport, onBulkMerge,
+  searchQuery, setSearchQuery, highlightQuery, recentSearches, onCommitSearch, onClearRecentSearches, sortBy, setSortBy,
+  tagCounts, notebookCounts, tagFilter, setTagFilter, notebookFilter, setNotebookFilter,
+  upcoming, colorCounts, colorFilter, setColorFilter, density 
 }) => {
   const [showSortMenu, setShowSortMenu] = useState(false);
+  const [showWorkspaceMenu, setShowWorkspaceMenu] = useState(false);
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const showRecentSearches = isSearchFocused && searchQuery === '' && recentSearches.length > 0;
+  // Only worth offering once notes actually differ in color.
+  const showColorFilter = colorCounts.length > 1 || (colorFilter !== null && colorCounts.length > 0);
+  // Null outside selection mode
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const isSelecting = selectedIds !== null;
+  // Only notes still in the list count, so a filter change can't act on notes you can't see
+  const selected = isSelecting ? notes.filter(n => selectedIds.has(n.id)) : [];
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // `/` jumps to search, and arrow keys move focus through the cards (from search, Down enters the grid)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === '/' && !isTypingTarget(e.target)) {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+        return;
+      }
+      if (!isArrowKey(e.key)) return;
+      const cards: HTMLElement[] = gridRef.current ? Array.from(gridRef.current.querySelectorAll<HTMLElement>('[data-note-card]')) : [];
+      const current = cards.indexOf(document.activeElement as HTMLElement);
+      const fromSearch = e.key === 'ArrowDown' && e.target === searchInputRef.current;
+      if (cards.length === 0 || (current === -1 && isTypingTarget(e.target) && !fromSearch)) return;
+      e.preventDefault();
+      const columns = cards.filter(card => card.offsetTop === cards[0].offsetTop).length;
+      cards[current === -1 ? 0 : gridStep(current, e.key, cards.length, columns)].focus();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!isSelecting) return;
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape' && !e.defaultPrevented) setSelectedIds(null); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelecting]);
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev ?? []);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const runBulk = (action: (ids: string[]) => void) => {
+    action(selected.map(n => n.id));
+    setSelectedIds(null);
+  };
 
   return (
     <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden">
-      <header className="px-6 pt-10 pb-6 flex items-center justify-between">
-        <div className="flex items-center gap-4">
+      {isSelecting ? (
+        <SelectionToolbar 
+          count={selected.length}
+          allSelected={selected.length === notes.length}
+          allPinned={selected.length > 0 && selected.every(n => n.isPinned)}
+          onSelectAll={() => setSelectedIds(new Set(selected.length === notes.length ? [] : notes.map(n => n.id)))}
+          onExit={() => setSelectedIds(null)}
+          onPin={() => runBulk(onBulkPin)}
+          onColor={(color) => runBulk(ids => onBulkColor(ids, color))}
+          onExport={(exportFormat) => runBulk(ids => onBulkExport(ids, exportFormat))}
+          onMerge={() => runBulk(onBulkMerge)}
+          onDelete={() => runBulk(onBulkDelete)}
+        />
+      ) : (
+        <header className="px-6 pt-10 pb-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="relative">
+              <button 
+                onClick={() => setShowWorkspaceMenu(!showWorkspaceMenu)}
+                className="w-12 h-12 rounded-2xl overflow-hidden bg-ink-800 border-2 border-ink-700 shadow-sm flex items-center justify-center transition-transform active:scale-95"
+                title="Switch workspace"
+              >
+                {profile.avatar ? (
+                  <img src={profile.avatar} alt="Profile" className="w-full h-full object-cover" />
+                ) : (
+                  <User size={24} className="text-accent-500" />
+                )}
+              </button>
+
+              {showWorkspaceMenu && (
+                <div className="absolute left-0 top-full mt-2 w-64 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 py-2 overflow-hidden ring-1 ring-black/20">
+                  <p className="px-4 pt-2 pb-1 text-[10px] text-ink-500 font-black uppercase tracking-widest">Workspaces</p>
+                  {workspaces.map(w => (
+                    <button
+                      key={w.id}
+                      onClick={() => { setShowWorkspaceMenu(false); onSwitchWorkspace(w.id); }}
+                      className={`w-full text-left px-4 py-3.5 hover:bg-ink-700 flex items-center justify-between gap-3 text-sm transition-colors ${w.id === currentWorkspace.id ? 'text-accent-400 font-black' : 'text-ink-300'}`}
+                    >
+                      <span className="truncate">{w.name}</span>
+                      {w.id === currentWorkspace.id && <Check size={18} strokeWidth={3} className="shrink-0" />}
+                    </button>
+                  ))}
+                  <div className="border-t border-ink-700 mt-2 pt-2">
+                    <button
+                      onClick={() => { setShowWorkspaceMenu(false); onProfileClick(); }}
+                      className="w-full text-left px-4 py-3.5 hover:bg-ink-700 flex items-center gap-3 text-sm text-ink-300 transition-colors"
+                    >
+                      <User size={16} />
+                      Profile & Workspaces
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="flex flex-col">
+              <p className="text-[10px] text-accent-400 font-black uppercase tracking-widest leading-none">{currentWorkspace.name}</p>
+              <h1 className="text-2xl font-black tracking-tight text-fg leading-none mt-1">
+                {profile.name}
+              </h1>
+            </div>
+          </div>
+          <div className="flex gap-2">
+              {notes.length > 0 && (
+                <button 
+                  onClick={() => setSelectedIds(new Set())}
+                  className="p-3 bg-ink-800/50 rounded-2xl border border-ink-700 hover:bg-ink-800 transition-colors"
+                  title="Select notes"
+                >
+                    <SquareCheck size={20} className="text-ink-400" />
+                </button>
+              )}
+              <button 
+                onClick={onSettingsClick}
+                className="p-3 bg-ink-800/50 rounded-2xl border border-ink-700 hover:bg-ink-800 transition-colors"
+                title="Settings"
+              >
+                  <Settings size={20} className="text-ink-400" />
+              </button>
+          </div>
+        </header>
+      )}
+
+      <div className="px-6 mb-6">
+        <div className="relative group">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-ink-500 group-focus-within:text-accent-500 transition-colors" size={20} />
+          <input 
+            ref={searchInputRef}
+            type="text"
+            placeholder="Search your notes..."
+            title={'Use "quoted phrases", -exclude, title:, tag:, notebook:, pinned:true, before:2026-01-01 and after:'}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') onCommitSearch(searchQuery); }}
+            onFocus={() => setIsSearchFocused(true)}
+            onBlur={() => setIsSearchFocused(false)}
+            className="w-full bg-ink-800/50 backdrop-blur-md pl-12 pr-4 py-4 rounded-2xl shadow-sm border border-ink-800 focus:outline-none focus:ring-2 focus:ring-accent-600 transition-all text-fg placeholder:text-ink-500 font-bold"
+          />
+          {showRecentSearches && (
+            // preventDefault on mousedown keeps the input focused while a suggestion is clicked
+            <div onMouseDown={(e) => e.preventDefault()} className="absolute left-0 right-0 top-full mt-2 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 py-2 overflow-hidden ring-1 ring-black/20">
+              <div className="px-4 py-2 flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-ink-500">
+                Recent Searches
+                <button onClick={onClearRecentSearches} className="text-ink-400 hover:text-fg transition-colors">Clear</button>
+              </div>
+              {recentSearches.map(recent => (
+                <button
+                  key={recent}
+                  onClick={() => setSearchQuery(recent)}
+                  className="w-full text-left px-4 py-3 hover:bg-ink-700 flex items-center gap-3 text-sm font-bold text-ink-300 transition-colors"
+                >
+                  <History size={16} className="text-ink-500 shrink-0" />
+                  <span className="truncate">{recent}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {(tagCounts.length > 0 || notebookCounts.length > 0 || showColorFilter) && (
+        <div className="px-6 mb-4 flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+          {showColorFilter && colorCounts.map(({ color, count }) => (
+            <FilterChip 
+              key={`color:${color}`}
+              icon={<span className={`w-3 h-3 rounded-full ${NOTE_COLOR_STYLES[color].swatch}`} />}
+              label={NOTE_COLOR_STYLES[color].label}
+              count={count}
+              active={colorFilter === color}
+              onClick={() => setColorFilter(colorFilter === color ? null : color)}
+            />
+          ))}
+          {notebookCounts.map(nb => (
+            <FilterChip 
+              key={`nb:${nb.name}`}
+              icon={<Folder size={13} />}
+              label={nb.name}
+              count={nb.count}
+              active={notebookFilter === nb.name}
+              onClick={() => setNotebookFilter(notebookFilter === nb.name ? null : nb.name)}
+            />
+          ))}
+          {tagCounts.map(tag => (
+            <FilterChip 
+              key={`tag:${tag.name}`}
+              icon={<Tag size={13} />}
+              label={tag.name}
+              count={tag.count}
+              active={tagFilter === tag.name}
+              onClick={() => setTagFilter(tagFilter === tag.name ? null : tag.name)}
+            />
+          ))}
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="mb-5">
+          <p className="px-6 mb-2 text-[11px] text-ink-400 font-black uppercase tracking-[0.1em]">Upcoming</p>
+          <div className="px-6 flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+            {upcoming.map(note => {
+              const overdue = isOverdue(note, Date.now());
+              return (
+                <button 
+                  key={note.id}
+                  onClick={() => onNoteClick(note.id)}
+                  className={`shrink-0 w-48 text-left p-4 rounded-2xl border-2 transition-colors ${overdue ? 'bg-red-500/5 border-red-500/30 hover:border-red-500/60' : 'bg-ink-800/40 border-ink-800 hover:border-accent-600'}`}
+                >
+                  <p className="font-black text-sm text-ink-100 truncate">{note.title || 'Untitled'}</p>
+                  <p className={`flex items-center gap-1.5 mt-1 text-[11px] font-black ${overdue ? 'text-red-400' : 'text-accent-400'}`}>
+                    <Bell size={12} />
+                    {overdue ? 'Overdue · ' : ''}{formatDue(note.reminder!.dueAt)}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="px-6 pb-3 flex items-center justify-between text-[11px] text-ink-400 font-black uppercase tracking-[0.1em]">
+        <span>{notes.length} {notes.length === 1 ? 'Note' : 'Notes'}</span>
+        <div className="relative">
           <button 
-            onClick={onProfileClick}
-            className="w-12 h-12 rounded-2xl overflow-hidden bg-slate-800 border-2 border-slate-700 shadow-sm flex items-center justify-center transition-transform active:scale-95"
+            onClick={() => setShowSortMenu(!showSortMenu)}
+            className="flex items-center gap-1.5 bg-ink-800 px-4 py-2 rounded-full shadow-sm border border-ink-700 hover:border-accent-600 transition-colors text-fg"
           >
-            {profile.avatar ? (
-              <img src={profile.avatar} alt="Profile" className="w-full h-full object-cover" />
+            <SortDesc size={14} />
+            {sortBy}
+          </button>
+          
+          {showSortMenu && (
+            <div className="absolute right-0 top-full mt-2 w-52 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 py-2 overflow-hidden ring-1 ring-black/20">
+              {Object.values(SortOption).map(option => (
+                <button
+                  key={option}
+                  onClick={() => { setSortBy(option); setShowSortMenu(false); }}
+                  className={`w-full text-left px-4 py-3.5 hover:bg-ink-700 flex items-center justify-between text-sm transition-colors ${sortBy === option ? 'text-accent-400 font-black' : 'text-ink-300'}`}
+                >
+                  {option}
+                  {sortBy === option && <Check size={18} strokeWidth={3} />}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 pt-2 pb-28 custom-scrollbar">
+        {notes.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center">
+            <div className="w-24 h-24 bg-ink-800/50 rounded-[2rem] flex items-center justify-center mb-6 shadow-sm border border-ink-800">
+                <Plus size={48} className="text-ink-700" strokeWidth={1.5} />
+            </div>
+            <p className="text-2xl font-black text-ink-500">Capture an idea</p>
+          </div>
+        ) : (
+          <div ref={gridRef} className={density === 'compact' ? 'flex flex-col gap-2' : 'grid grid-cols-1 sm:grid-cols-2 gap-5'}>
+            {notes.map(note => (
+              <NoteCard 
+                key={note.id} 
+                note={note} 
+                highlightQuery={highlightQuery}
+                onClick={() => onNoteClick(note.id)} 
+                selected={isSelecting ? selectedIds.has(note.id) : undefined}
+                onToggleSelect={() => toggleSelected(note.id)}
+                compact={density === 'compact'}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!isSelecting && (<>
+        <button 
+          onClick={onCreateFromTemplate}
+          className="fixed bottom-32 right-10 w-12 h-12 bg-ink-800 hover:bg-ink-700 border-2 border-ink-700 text-accent-400 rounded-2xl shadow-xl flex items-center justify-center transition-all hover:scale-110 active:scale-90 z-40"
+          title="New from template…"
+        >
+          <LayoutTemplate size={22} strokeWidth={2.5} />
+        </button>
+        <button 
+          onClick={onCreate}
+          title="New note (N)"
+          className="fixed bottom-10 right-8 w-16 h-16 bg-accent-600 hover:bg-accent-700 text-white rounded-[1.8rem] shadow-2xl shadow-accent-600/30 flex items-center justify-center transition-all hover:scale-110 active:scale-90 z-40"
+        >
+          <Plus size={36} strokeWidth={3} />
+        </button>
+      </>)}
+    </div>
+  );
+};
+
+interface SelectionToolbarProps {
+  count: number;
+  allSelected: boolean;
+  allPinned: boolean;
+  onSelectAll: () => void;
+  onExit: () => void;
+  onPin: () => void;
+  onColor: (color: NoteColor) => void;
+  onExport: (format: ExportFormat) => void;
+  onMerge: () => void;
+  onDelete: () => void;
+}
+
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ 
+  count, allSelected, allPinned, onSelectAll, onExit, onPin, onColor, onExport, onMerge, onDelete 
+}) => {
+  const [menu, setMenu] = useState<'color' | 'export' | null>(null);
+  const actionButton = 'p-3 rounded-2xl text-ink-300 hover:bg-ink-800 transition-all disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <header className="px-6 pt-10 pb-6 flex items-center justify-between gap-3">
+      <div className="flex items-center gap-3 min-w-0">
+        <button onClick={onExit} className="p-3 rounded-2xl hover:bg-ink-800 transition-all text-fg" title="Done (Esc)">
+          <X size={22} strokeWidth={2.5} />
+        </button>
+        <div className="min-w-0">
+          <p className="text-xl font-black text-fg leading-none">{count} selected</p>
+          <button onClick={onSelectAll} className="mt-1 text-[11px] font-black uppercase tracking-widest text-accent-400 hover:text-accent-300">
+            {allSelected ? 'Select none' : 'Select all'}
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center gap-1">
+        <button onClick={onPin} disabled={count === 0} className={actionButton} title={allPinned ? 'Unpin' : 'Pin'}>
+          {allPinned ? <PinOff size={20} /> : <Pin size={20} />}
+        </button>
+        <div className="relative">
+          <button onClick={() => setMenu(menu === 'color' ? null : 'color')} disabled={count === 0} className={actionButton} title="Color">
+            <Palette size={20} />
+          </button>
+          {menu === 'color' && (
+            <div className="absolute right-0 top-full mt-2 p-3 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 grid grid-cols-4 gap-2 w-44 ring-1 ring-black/20">
+              {COLORS.map(color => (
+                <button 
+                  key={color}
+                  onClick={() => { onColor(color); setMenu(null); }}
+                  className={`w-8 h-8 rounded-full border-2 border-ink-600 hover:scale-110 transition-transform ${NOTE_COLOR_STYLES[color].swatch}`}
+                  title={NOTE_COLOR_STYLES[color].label}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="relative">
+          <button onClick={() => setMenu(menu === 'export' ? null : 'export')} disabled={count === 0} className={actionButton} title="Export">
+            <Download size={20} />
+          </button>
+          {menu === 'export' && (
+            <div className="absolute right-0 top-full mt-2 w-56 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 py-2 overflow-hidden ring-1 ring-black/20">
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(exportFormat => (
+                <button
+                  key={exportFormat}
+                  onClick={() => { onExport(exportFormat); setMenu(null); }}
+                  className="w-full text-left px-4 py-3.5 hover:bg-ink-700 text-sm font-bold text-ink-300 transition-colors"
+                >
+                  {EXPORT_FORMAT_LABELS[exportFormat]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button onClick={onMerge} disabled={count < 2} className={actionButton} title="Merge into one note">
+          <Merge size={20} />
+        </button>
+        <button onClick={onDelete} disabled={count === 0} className={`${actionButton} text-red-500 hover:bg-red-500/10`} title="Move to Trash">
+          <Trash2 size={20} />
+        </button>
+      </div>
+    </header>
+  );
+};
+
+interface FilterChipProps {
+  icon: React.ReactNode;
+  label: string;
+  count: number;
+  active: boolean;
+  onClick: () => void;
+}
+
+const FilterChip: React.FC<FilterChipProps> = ({ icon, label, count, active, onClick }) => (
+  <button 
+    onClick={onClick}
+    className={`shrink-0 flex items-center gap-1.5 px-3.5 py-2 rounded-full text-xs font-black border-2 transition-colors ${active ? 'bg-accent-600 border-accent-600 text-white' : 'bg-ink-800/50 border-ink-800 text-ink-300 hover:border-accent-600'}`}
+  >
+    {icon}
+    {label}
+    <span className={active ? 'text-accent-200' : 'text-ink-500'}>{count}</span>
+  </button>
+);
+
+// How many checklist items a card shows before "+N more".
+const CARD_CHECKLIST_ITEMS = 4;
+const CARD_THUMBNAILS = 3;
+
+const renderHighlight = (parts: HighlightPart[]): React.ReactNode[] =>
+  parts.map((part, i) => part.match 
+    ? <mark key={i} className="bg-accent-500/30 text-accent-100 rounded px-0.5">{part.text}</mark> 
+    : <React.Fragment key={i}>{part.text}</React.Fragment>
+  );
+
+// Holding a card this long starts selection mode
+const LONG_PRESS_MS = 500;
+
+interface NoteCardProps {
+  note: Note;
+  /** Text search to highlight in the title and show snippets for, if any. */
+  highlightQuery?: SearchQuery | null;
+  onClick: () => void;
+  /** Whether the card is selected; undefined outside selection mode. */
+  selected?: boolean;
+  onToggleSelect: () => void;
+  /** A single row instead of a card with a preview. */
+  compact?: boolean;
+}
+
+const NoteCard: React.FC<NoteCardProps> = ({ note, highlightQuery, onClick, selected, onToggleSelect, compact = false }) => {
+  const pressTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Set when a long press fired, so the click that ends it doesn't also open the note
+  const longPressed = useRef(false);
+  const isSelecting = selected !== undefined;
+  const colorStyle = NOTE_COLOR_STYLES[normalizeColor(note.color)];
+  const checklist = useMemo(
+    () => note.kind === 'checklist' ? { items: parseChecklist(note.content), ...checklistProgress(note.content) } : null,
+    [note.kind, note.content]
+  );
+  const snippets = useMemo(
+    () => highlightQuery ? buildSnippets(toPlainText(note.content), highlightQuery) : [],
+    [highlightQuery, note.content]
+  );
+  const startPress = () => {
+    longPressed.current = false;
+    pressTimer.current = setTimeout(() => {
+      longPressed.current = true;
+      if (!selected) onToggleSelect();
+    }, LONG_PRESS_MS);
+  };
+  const cancelPress = () => clearTimeout(pressTimer.current);
+  // A card can unmount mid-press, e.g. when another tab deletes the note
+  useEffect(() => cancelPress, []);
+
+  const handleClick = () => {
+    if (longPressed.current) longPressed.current = false;
+    else if (isSelecting) onToggleSelect();
+    else onClick();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleClick();
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      onToggleSelect();
+    }
+  };
+
+  const cardProps = {
+    tabIndex: 0,
+    'data-note-card': true,
+    onKeyDown: handleKeyDown,
+    onClick: handleClick,
+    onPointerDown: startPress,
+    onPointerUp: cancelPress,
+    onPointerLeave: cancelPress,
+    onPointerCancel: cancelPress,
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+  };
+  const title = note.title 
+    ? (highlightQuery ? renderHighlight(highlightText(note.title, highlightQuery)) : note.title) 
+    : <span className="text-ink-600 font-bold italic">Untitled</span>;
+  const selectButton = (className: string) => (
+    <button 
+      onClick={(e) => { e.stopPropagation(); onToggleSelect(); }}
+      className={`${className} p-1 rounded-lg transition-opacity ${isSelecting ? 'opacity-100' : 'opacity-0 pointer-events-none group-hover:opacity-100 group-hover:pointer-events-auto'}`}
+      title={selected ? 'Deselect' : 'Select'}
+    >
+      {selected ? <SquareCheck size={22} className="text-accent-500" /> : <Square size={22} className="text-ink-500" />}
+    </button>
+  );
+
+  if (compact) return (
+    <div 
+      {...cardProps}
+      className={`px-5 py-3.5 rounded-2xl border-2 cursor-pointer transition-all hover:border-accent-600 focus:outline-none focus-visible:border-accent-600 flex items-center gap-3 group select-none ${colorStyle.card} ${selected ? 'ring-4 ring-accent-600/40 border-accent-600' : ''}`}
+    >
+      <div className={`w-2 h-2 shrink-0 rounded-full ${note.color && note.color !== 'default' ? colorStyle.swatch : 'bg-accent-500'}`}></div>
+      <div className="flex-1 min-w-0">
+        <h3 className="font-black truncate text-ink-50">{title}</h3>
+        <p className="text-xs text-ink-400 font-bold truncate">
+          {snippets.length > 0 ? renderHighlight(snippets[0]) 
+            : checklist && checklist.total > 0 ? `${checklist.done}/${checklist.total} done` 
+            : toPlainText(note.content) || <span className="text-ink-600 italic font-normal">No details provided...</span>}
+        </p>
+      </div>
+      {note.reminder && <Bell size={14} className={`shrink-0 ${isOverdue(note, Date.now()) ? 'text-red-400' : 'text-amber-400'}`} />}
+      {note.attachments && note.attachments.length > 0 && <Paperclip size={14} className="shrink-0 text-ink-500" />}
+      {note.isPinned && !isSelecting && <Pin size={16} className="shrink-0 text-accent-500 fill-accent-500" />}
+      <span className="shrink-0 text-[11px] text-ink-500 font-black uppercase tracking-widest">{format(note.lastModified, 'MMM d')}</span>
+      {selectButton('shrink-0 -mr-1')}
+    </div>
+  );
+
+  return (
+    <div 
+      {...cardProps}
+      className={`p-6 rounded-[1.5rem] border-2 cursor-pointer transition-all hover:shadow-xl hover:-translate-y-1 backdrop-blur-sm shadow-sm hover:border-accent-600 focus:outline-none focus-visible:border-accent-600 focus-visible:shadow-xl relative group select-none ${colorStyle.card} ${selected ? 'ring-4 ring-accent-600/40 border-accent-600' : ''}`}
+    >
+      <div className="flex justify-between items-start mb-3">
+        <h3 className="font-black text-xl truncate pr-8 text-ink-50 leading-tight">{title}</h3>
+        {note.isPinned && !isSelecting && (
+          <Pin size={18} className="text-accent-500 fill-accent-500 absolute top-6 right-6 group-hover:opacity-0 transition-opacity" />
+        )}
+        {selectButton('absolute top-5 right-5')}
+      </div>
+      {snippets.length > 0 ? (
+        <div className="text-ink-400 text-sm mb-5 leading-relaxed font-bold space-y-1.5">
+          {snippets.map((snippet, i) => <p key={i} className="line-clamp-2">{renderHighlight(snippet)}</p>)}
+        </div>
+      ) : checklist && checklist.total > 0 ? (
+        <div className="mb-5 space-y-3">
+          <div className="text-ink-400 text-sm leading-relaxed font-bold">
+            <MarkdownView source={serializeChecklist(checklist.items.slice(0, CARD_CHECKLIST_ITEMS))} compact />
+            {checklist.total > CARD_CHECKLIST_ITEMS && (
+              <p className="text-[11px] text-ink-500 font-black mt-1">+{checklist.total - CARD_CHECKLIST_ITEMS} more</p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex-1 h-1.5 rounded-full bg-ink-700/60 overflow-hidden">
+              <div className="h-full bg-accent-500 rounded-full transition-all" style={{ width: `${(checklist.done / checklist.total) * 100}%` }} />
+            </div>
+            <span className="text-[11px] text-ink-400 font-black">{checklist.done}/{checklist.total} done</span>
+          </div>
+        </div>
+      ) : (
+        <div className="text-ink-400 text-sm line-clamp-3 mb-5 leading-relaxed font-bold">
+          {note.content ? <MarkdownView source={note.content} compact /> : <span className="text-ink-600 italic font-normal">No details provided...</span>}
+        </div>
+      )}
+      {note.attachments && note.attachments.length > 0 && (
+        <div className="flex items-center gap-2 mb-4">
+          {note.attachments.filter(a => a.thumbnail).slice(0, CARD_THUMBNAILS).map(a => (
+            <img key={a.id} src={a.thumbnail} alt={a.name} draggable={false} className="w-14 h-14 rounded-xl object-cover border-2 border-ink-700/50" />
+          ))}
+          <span className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-ink-700/50 text-[11px] font-black text-ink-300">
+            <Paperclip size={11} />{note.attachments.length}
+          </span>
+        </div>
+      )}
+      {(note.reminder || note.notebook || (note.tags && note.tags.length > 0)) && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {note.reminder && (
+            isOverdue(note, Date.now()) ? (
+              <span className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-red-500/15 text-[11px] font-black text-red-400">
+                <Bell size={11} />Overdue · {formatDue(note.reminder.dueAt)}
+              </span>
             ) : (
-              <User size={24} className="text-blue-500" />
+              <span className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-amber-500/10 text-[11px] font-black text-amber-400">
+                <Bell size={11} />{formatDue(note.reminder.dueAt)}
+              </span>
+            )
+          )}
+          {note.notebook && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-ink-700/50 text-[11px] font-black text-ink-300">
+              <Folder size={11} />{note.notebook}
+            </span>
+          )}
+          {note.tags?.slice(0, 3).map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-md bg-accent-500/10 text-[11px] font-black text-accent-400">#{tag}</span>
+          ))}
+          {note.tags && note.tags.length > 3 && (
+            <span className="px-1 py-0.5 text-[11px] font-black text-ink-500">+{note.tags.length - 3}</span>
+          )}
+        </div>
+      )}
+      <div className="flex items-center gap-2 pt-3 border-t-2 border-ink-700/50">
+         <div className={`w-2 h-2 rounded-full ${note.color && note.color !== 'default' ? colorStyle.swatch : 'bg-accent-500'}`}></div>
+         <div className="text-[11px] text-ink-500 font-black uppercase tracking-widest">
+            {format(note.lastModified, 'MMM d, h:mm a')}
+         </div>
+      </div>
+    </div>
+  );
+};
+
+// --- MarkdownView Sub-Component ---
+
+// Resolves and opens `[[Note Title]]` links; without it they render as plain highlighted text
+interface NoteLinkHandlers {
+  exists: (title: string) => boolean;
+  onOpen: (title: string) => void;
+}
+
+const renderInline = (nodes: InlineNode[], compact: boolean, links?: NoteLinkHandlers): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'bold': return <strong key={i} className="font-black text-ink-100">{renderInline(node.children, compact, links)}</strong>;
+      case 'italic': return <em key={i}>{renderInline(node.children, compact, links)}</em>;
+      case 'underline': return <u key={i}>{renderInline(node.children, compact, links)}</u>;
+      case 'code': return <code key={i} className="px-1.5 py-0.5 rounded-md bg-ink-800 text-accent-300 font-mono text-[0.9em]">{node.text}</code>;
+      case 'link': return compact
+        ? <span key={i} className="text-accent-400">{renderInline(node.children, compact, links)}</span>
+        : <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-accent-400 underline underline-offset-4 hover:text-accent-300">{renderInline(node.children, compact, links)}</a>;
+      case 'wikilink': {
+        if (compact || !links) return <span key={i} className="text-accent-400">{node.title}</span>;
+        const exists = links.exists(node.title);
+        return (
+          <button 
+            key={i}
+            onClick={() => links.onOpen(node.title)}
+            title={exists ? `Open "${node.title}"` : `Create "${node.title}"`}
+            className={`inline font-bold underline underline-offset-4 transition-colors ${exists ? 'text-accent-400 hover:text-accent-300' : 'text-ink-500 decoration-dashed hover:text-ink-300'}`}
+          >
+            {node.title}
+          </button>
+        );
+      }
+    }
+  });
+
+const MarkdownView: React.FC<{ source: string, compact?: boolean, links?: NoteLinkHandlers }> = ({ source, compact = false, links }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const headingSizes = compact ? ['text-base', 'text-sm', 'text-sm'] : ['text-3xl', 'text-2xl', 'text-xl'];
+
+  return (
+    <div className={compact ? 'space-y-1' : 'space-y-4'}>
+      {blocks.map((block, i) => {
+        if (block.type === 'heading') {
+          const Tag = `h${block.level + 1}` as 'h2' | 'h3' | 'h4';
+          return <Tag key={i} className={`${headingSizes[block.level - 1]} font-black text-fg leading-tight`}>{renderInline(block.children, compact, links)}</Tag>;
+        }
+        if (block.type === 'tasks') {
+          return (
+            <ul key={i} className="space-y-1">
+              {block.items.map((item, j) => (
+                <li key={j} className={`flex items-start gap-2 ${item.indent ? 'pl-6' : ''}`}>
+                  {item.checked 
+                    ? <SquareCheck size={compact ? 14 : 20} className="shrink-0 mt-1 text-accent-500" /> 
+                    : <Square size={compact ? 14 : 20} className="shrink-0 mt-1 text-ink-500" />}
+                  <span className={item.checked ? 'line-through text-ink-500' : ''}>{renderInline(item.children, compact, links)}</span>
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        if (block.type === 'list') {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={i} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1 marker:text-accent-500`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item, compact, links)}</li>)}
+            </ListTag>
+          );
+        }
+        return (
+          <p key={i}>
+            {block.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line, compact, links)}
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- SettingsView Sub-Component ---
+
+interface SettingsViewProps {
+  onBack: () => void;
+  onExport: () => void;
+  onExportAs: (format: ExportFormat) => void;
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onClearAll: (withSnapshots?: boolean) => void;
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+  trashCount: number;
+  onOpenTrash: () => void;
+  tagCounts: LabelCount[];
+  notebookCounts: LabelCount[];
+  onRenameTag: (tag: string) => void;
+  onRenameNotebook: (notebook: string) => void;
+  templates: NoteTemplate[];
+  onRenameTemplate: (id: string) => void;
+  onDeleteTemplate: (id: string) => void;
+  attachmentSummary: AttachmentSummary;
+  onOpenNote: (id: string) => void;
+  onShowShortcuts: () => void;
+  isLockEnabled: boolean;
+  onEnableLock: () => void;
+  onChangePassphrase: () => void;
+  onDisableLock: () => void;
+  onLockNow: () => void;
+  syncConfig: SyncConfig | null;
+  syncStatus: SyncStatus;
+  onConnectSync: () => void;
+  onSyncNow: () => void;
+  onDisconnectSync: () => void;
+  notes: Note[];
+  snapshots: Snapshot[];
+  onRestoreSnapshot: (snapshot: Snapshot) => void;
+  onDeleteSnapshot: (snapshot: Snapshot) => void;
+}
+
+const SettingsView: React.FC<SettingsViewProps> = ({ 
+  onBack, onExport, onExportAs, onImport, onClearAll, settings, setSettings, trashCount, onOpenTrash,
+  tagCounts, notebookCounts, onRenameTag, onRenameNotebook, templates, onRenameTemplate, onDeleteTemplate, attachmentSummary, onOpenNote, onShowShortcuts,
+  isLockEnabled, onEnableLock, onChangePassphrase, onDisableLock, onLockNow,
+  syncConfig, syncStatus, onConnectSync, onSyncNow, onDisconnectSync,
+  notes, snapshots, onRestoreSnapshot, onDeleteSnapshot
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Not a standard attribute yet, so it is set directly on the element
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const optionChip = (active: boolean) =>
+    `px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest border-2 transition-colors ${active ? 'bg-accent-600 border-accent-600 text-white' : 'border-ink-700 text-ink-400 hover:border-accent-600'}`;
+
+  return (
+    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-canvas">
+      <nav className="p-6 flex items-center gap-6 border-b-2 border-ink-900/50">
+        <button onClick={onBack} className="p-3 rounded-2xl hover:bg-ink-800 transition-all text-fg">
+          <ArrowLeft size={28} strokeWidth={2.5} />
+        </button>
+        <h2 className="text-2xl font-black text-fg tracking-tight">Settings</h2>
+      </nav>
+
+      <div className="flex-1 p-8 space-y-6 overflow-y-auto custom-scrollbar">
+        <div className="space-y-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Preferences</h3>
+
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-6">
+            <div className="space-y-3">
+              <div>
+                <p className="font-black text-fg">Theme</p>
+                <p className="text-xs text-ink-500 font-bold">System follows your device's light or dark setting</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {THEME_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setSettings(prev => ({ ...prev, theme: value }))}
+                    className={`${optionChip(settings.theme === value)} flex items-center gap-1.5`}
+                  >
+                    {THEME_ICONS[value]}{label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-black text-fg">Accent Color</p>
+              <div className="flex flex-wrap gap-3">
+                {ACCENT_OPTIONS.map(({ value, label, swatch }) => (
+                  <button
+                    key={value}
+                    onClick={() => setSettings(prev => ({ ...prev, accentColor: value }))}
+                    style={{ backgroundColor: swatch }}
+                    className={`w-9 h-9 rounded-full flex items-center justify-center border-2 transition-transform hover:scale-110 ${settings.accentColor === value ? 'border-fg' : 'border-transparent'}`}
+                    title={label}
+                  >
+                    {settings.accentColor === value && <Check size={16} strokeWidth={3} className="text-white" />}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <p className="font-black text-fg">Editor Font</p>
+                <p className="text-xs text-ink-500 font-bold">Used for note text while editing and previewing</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(EDITOR_FONTS) as EditorFont[]).map(font => (
+                  <button
+                    key={font}
+                    onClick={() => setSettings(prev => ({ ...prev, editorFont: font }))}
+                    style={{ fontFamily: EDITOR_FONTS[font].stack }}
+                    className={optionChip(settings.editorFont === font)}
+                  >
+                    {EDITOR_FONTS[font].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {EDITOR_FONT_SIZES.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => setSettings(prev => ({ ...prev, editorFontSize: size }))}
+                    className={optionChip(settings.editorFontSize === size)}
+                  >
+                    {size} px
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <p className="font-black text-fg">Note List</p>
+              <div className="flex flex-wrap gap-2">
+                {([['grid', 'Grid', <LayoutGrid size={14} />], ['compact', 'Compact List', <Rows3 size={14} />]] as [ListDensity, string, React.ReactNode][]).map(([density, label, icon]) => (
+                  <button
+                    key={density}
+                    onClick={() => setSettings(prev => ({ ...prev, listDensity: density }))}
+                    className={`${optionChip(settings.listDensity === density)} flex items-center gap-1.5`}
+                  >
+                    {icon}{label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Security</h3>
+
+          {isLockEnabled ? (
+            <>
+              <div className="p-6 bg-emerald-500/5 border-2 border-emerald-500/20 rounded-3xl flex items-center gap-4">
+                <div className="p-3 bg-emerald-500/10 rounded-2xl text-emerald-500">
+                  <ShieldCheck size={24} />
+                </div>
+                <div className="flex-1">
+                  <p className="font-black text-fg">App Lock is On</p>
+                  <p className="text-xs text-ink-500 font-bold">Note titles, contents and attachments are encrypted with AES-GCM</p>
+                </div>
+                <button 
+                  onClick={onLockNow}
+                  className="px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest border-2 border-ink-700 text-ink-300 hover:border-accent-600 transition-colors"
+                >
+                  Lock Now
+                </button>
+              </div>
+
+              <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-4">
+                <div>
+                  <p className="font-black text-fg">Auto-Lock</p>
+                  <p className="text-xs text-ink-500 font-bold">Lock after this long without activity</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <button
+                      key={minutes}
+                      onClick={() => setSettings(prev => ({ ...prev, autoLockMinutes: minutes }))}
+                      className={optionChip(settings.autoLockMinutes === minutes)}
+                    >
+                      {minutes === 0 ? 'Never' : `${minutes} min`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <button 
+                  onClick={onChangePassphrase}
+                  className="flex-1 flex items-center justify-center gap-2 p-4 bg-ink-900/50 border-2 border-ink-800 rounded-2xl hover:bg-ink-800 transition-all text-sm font-black text-fg"
+                >
+                  <KeyRound size={18} /> Change Passphrase
+                </button>
+                <button 
+                  onClick={onDisableLock}
+                  className="flex-1 p-4 bg-ink-900/50 border-2 border-ink-800 rounded-2xl hover:bg-ink-800 transition-all text-sm font-black text-ink-400"
+                >
+                  Turn Off
+                </button>
+              </div>
+            </>
+          ) : (
+            <button 
+              onClick={onEnableLock}
+              className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+            >
+              <div className="p-3 bg-violet-500/10 rounded-2xl text-violet-400 group-hover:scale-110 transition-transform">
+                <Lock size={24} />
+              </div>
+              <div>
+                <p className="font-black text-fg">Turn On App Lock</p>
+                <p className="text-xs text-ink-500 font-bold">Encrypt notes on this device with a passphrase</p>
+              </div>
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Sync</h3>
+
+          {syncConfig ? (
+            <>
+              <div className={`p-6 border-2 rounded-3xl flex items-center gap-4 ${syncStatus.error ? 'bg-amber-500/5 border-amber-500/20' : 'bg-ink-900/50 border-ink-800'}`}>
+                <div className={`p-3 rounded-2xl ${syncStatus.error ? 'bg-amber-500/10 text-amber-400' : 'bg-sky-500/10 text-sky-400'}`}>
+                  {syncStatus.error ? <CloudOff size={24} /> : <Cloud size={24} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-black text-fg truncate">{new URL(syncConfig.url).host}</p>
+                  <p className={`text-xs font-bold ${syncStatus.error ? 'text-amber-400/80' : 'text-ink-500'}`}>
+                    {syncStatus.isSyncing
+                      ? 'Syncing...'
+                      : syncStatus.error ?? (syncStatus.lastSyncedAt ? `Last synced ${format(syncStatus.lastSyncedAt, 'MMM d, h:mm a')}` : 'Not synced yet')}
+                  </p>
+                  {syncStatus.pendingCount > 0 && (
+                    <p className="text-xs text-ink-500 font-bold">
+                      {syncStatus.pendingCount} {syncStatus.pendingCount === 1 ? 'change' : 'changes'} waiting to upload
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <button 
+                  onClick={onSyncNow}
+                  disabled={syncStatus.isSyncing}
+                  className="flex-1 flex items-center justify-center gap-2 p-4 bg-ink-900/50 border-2 border-ink-800 rounded-2xl hover:bg-ink-800 disabled:opacity-40 transition-all text-sm font-black text-fg"
+                >
+                  <RefreshCw size={18} className={syncStatus.isSyncing ? 'animate-spin' : ''} /> Sync Now
+                </button>
+                <button 
+                  onClick={onDisconnectSync}
+                  className="flex-1 p-4 bg-ink-900/50 border-2 border-ink-800 rounded-2xl hover:bg-ink-800 transition-all text-sm font-black text-ink-400"
+                >
+                  Disconnect
+                </button>
+              </div>
+            </>
+          ) : (
+            <button 
+              onClick={onConnectSync}
+              className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+            >
+              <div className="p-3 bg-sky-500/10 rounded-2xl text-sky-400 group-hover:scale-110 transition-transform">
+                <Cloud size={24} />
+              </div>
+              <div>
+                <p className="font-black text-fg">Connect a Sync Server</p>
+                <p className="text-xs text-ink-500 font-bold">Keep notes in step across devices through your own WebDAV server</p>
+              </div>
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Automatic Backups</h3>
+          <p className="text-xs text-ink-500 font-bold px-1 leading-relaxed">
+            Snapshots of your notes and profile, kept on this device. Attachment files aren't included.
+          </p>
+
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-6">
+            <div className="space-y-3">
+              <div>
+                <p className="font-black text-fg">Take a Snapshot</p>
+                <p className="text-xs text-ink-500 font-bold">Skipped when nothing has changed since the last one</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {BACKUP_SCHEDULE_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setSettings(prev => ({ ...prev, backupSchedule: value }))}
+                    className={optionChip(settings.backupSchedule === value)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <p className="font-black text-fg">Keep</p>
+                <p className="text-xs text-ink-500 font-bold">The oldest snapshot is deleted when a new one is taken. Snapshots from before Clear All stay until you delete them.</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {BACKUPS_TO_KEEP_OPTIONS.map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setSettings(prev => ({ ...prev, backupsToKeep: count }))}
+                    className={optionChip(settings.backupsToKeep === count)}
+                  >
+                    {count} latest
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <SnapshotList snapshots={snapshots} notes={notes} onRestore={onRestoreSnapshot} onDelete={onDeleteSnapshot} />
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Data Management</h3>
+          
+          <button 
+            onClick={onExport}
+            className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+          >
+            <div className="p-3 bg-accent-500/10 rounded-2xl text-accent-500 group-hover:scale-110 transition-transform">
+              <Download size={24} />
+            </div>
+            <div>
+              <p className="font-black text-fg">Backup Notes</p>
+              <p className="text-xs text-ink-500 font-bold">
+                {isLockEnabled ? 'Download an encrypted JSON file, readable only with your passphrase' : 'Download all notes as a JSON file'}
+              </p>
+            </div>
+          </button>
+
+          <button 
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+          >
+            <div className="p-3 bg-emerald-500/10 rounded-2xl text-emerald-500 group-hover:scale-110 transition-transform">
+              <Upload size={24} />
+            </div>
+            <div>
+              <p className="font-black text-fg">Restore Backup</p>
+              <p className="text-xs text-ink-500 font-bold">Import JSON backups, Markdown, text, HTML or ZIP files</p>
+            </div>
+            <input 
+              type="file" 
+              ref={fileInputRef} 
+              className="hidden" 
+              accept={IMPORT_ACCEPT} 
+              multiple
+              onChange={onImport} 
+            />
+          </button>
+
+          <button 
+            onClick={() => folderInputRef.current?.click()}
+            className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+          >
+            <div className="p-3 bg-emerald-500/10 rounded-2xl text-emerald-500 group-hover:scale-110 transition-transform">
+              <FolderOpen size={24} />
+            </div>
+            <div>
+              <p className="font-black text-fg">Import Folder</p>
+              <p className="text-xs text-ink-500 font-bold">Add every Markdown and text file in a folder as a note</p>
+            </div>
+            <input 
+              type="file" 
+              ref={folderInputRef} 
+              className="hidden" 
+              onChange={onImport} 
+            />
+          </button>
+
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-4">
+            <div>
+              <p className="font-black text-fg">Export Notes As</p>
+              <p className="text-xs text-ink-500 font-bold">Markdown and text download as a ZIP with one file per note</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(['md', 'txt', 'html'] as ExportFormat[]).map(exportFormat => (
+                <button
+                  key={exportFormat}
+                  onClick={() => onExportAs(exportFormat)}
+                  className="px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest border-2 border-ink-700 text-ink-400 hover:border-accent-600 hover:text-fg transition-colors"
+                >
+                  {EXPORT_FORMAT_LABELS[exportFormat]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button 
+            onClick={onOpenTrash}
+            className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+          >
+            <div className="p-3 bg-amber-500/10 rounded-2xl text-amber-500 group-hover:scale-110 transition-transform">
+              <Trash2 size={24} />
+            </div>
+            <div className="flex-1">
+              <p className="font-black text-fg">Trash</p>
+              <p className="text-xs text-ink-500 font-bold">Restore or permanently delete removed notes</p>
+            </div>
+            <span className="text-xs font-black text-ink-400 bg-ink-800 px-3 py-1 rounded-full">{trashCount}</span>
+          </button>
+
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-4">
+            <div>
+              <p className="font-black text-fg">Empty Trash Automatically</p>
+              <p className="text-xs text-ink-500 font-bold">Trashed notes older than this are deleted for good</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setSettings(prev => ({ ...prev, trashRetentionDays: days }))}
+                  className={optionChip(settings.trashRetentionDays === days)}
+                >
+                  {days === 0 ? 'Never' : `${days} days`}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Attachments</h3>
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl flex items-center gap-4">
+            <div className="p-3 bg-accent-500/10 rounded-2xl text-accent-500">
+              <HardDrive size={24} />
+            </div>
+            <div>
+              <p className="font-black text-fg">{formatBytes(attachmentSummary.total)} used</p>
+              <p className="text-xs text-ink-500 font-bold">
+                {attachmentSummary.count > 0 
+                  ? `${attachmentSummary.count} ${attachmentSummary.count === 1 ? 'file' : 'files'} in ${noteCount(attachmentSummary.notes.length)}, including the Trash` 
+                  : 'Drop or paste images and files into a note to attach them'}
+              </p>
+            </div>
+          </div>
+          {attachmentSummary.notes.length > 0 && (
+            <div className="bg-ink-900/50 border-2 border-ink-800 rounded-3xl divide-y-2 divide-ink-800 overflow-hidden">
+              {attachmentSummary.notes.map(({ note, count, bytes }) => (
+                <button 
+                  key={note.id}
+                  onClick={() => onOpenNote(note.id)}
+                  className="w-full flex items-center gap-3 px-5 py-4 hover:bg-ink-800 transition-colors text-left"
+                >
+                  <Paperclip size={18} className="text-ink-400 shrink-0" />
+                  <span className="flex-1 font-black text-fg truncate">{note.title || 'Untitled'}</span>
+                  <span className="text-xs font-black text-ink-500">{count} {count === 1 ? 'file' : 'files'}</span>
+                  <span className="text-xs font-black text-ink-300 bg-ink-800 px-3 py-1 rounded-full">{formatBytes(bytes)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {(tagCounts.length > 0 || notebookCounts.length > 0) && (
+          <div className="space-y-4 pt-4">
+            <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Tags & Notebooks</h3>
+            <p className="text-xs text-ink-500 font-bold px-1">Rename onto an existing name to merge the two.</p>
+            <div className="bg-ink-900/50 border-2 border-ink-800 rounded-3xl divide-y-2 divide-ink-800 overflow-hidden">
+              {[
+                ...notebookCounts.map(nb => ({ ...nb, kind: 'notebook' as const })),
+                ...tagCounts.map(tag => ({ ...tag, kind: 'tag' as const })),
+              ].map(item => (
+                <div key={`${item.kind}:${item.name}`} className="flex items-center gap-3 px-5 py-4">
+                  {item.kind === 'notebook' ? <Folder size={18} className="text-ink-400" /> : <Tag size={18} className="text-accent-400" />}
+                  <span className="flex-1 font-black text-fg truncate">{item.kind === 'tag' ? `#${item.name}` : item.name}</span>
+                  <span className="text-xs font-black text-ink-500">{item.count}</span>
+                  <button 
+                    onClick={() => (item.kind === 'tag' ? onRenameTag(item.name) : onRenameNotebook(item.name))}
+                    className="p-2 rounded-xl text-ink-400 hover:bg-ink-800 hover:text-fg transition-all"
+                    title="Rename or merge"
+                  >
+                    <PenLine size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Templates</h3>
+          <p className="text-xs text-ink-500 font-bold px-1 leading-relaxed">
+            Save any note as a template from its share menu. {PLACEHOLDER_HELP}
+          </p>
+          {templates.length > 0 && (
+            <div className="bg-ink-900/50 border-2 border-ink-800 rounded-3xl divide-y-2 divide-ink-800 overflow-hidden">
+              {templates.map(template => {
+                const fields = templateFields(template);
+                return (
+                  <div key={template.id} className="flex items-center gap-3 px-5 py-4">
+                    <LayoutTemplate size={18} className="text-accent-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-black text-fg truncate">{template.name}</p>
+                      {fields.length > 0 && <p className="text-xs text-ink-500 font-bold truncate">Asks for {fields.join(', ')}</p>}
+                    </div>
+                    <button 
+                      onClick={() => onRenameTemplate(template.id)}
+                      className="p-2 rounded-xl text-ink-400 hover:bg-ink-800 hover:text-fg transition-all"
+                      title="Rename"
+                    >
+                      <PenLine size={16} />
+                    </button>
+                    <button 
+                      onClick={() => onDeleteTemplate(template.id)}
+                      className="p-2 rounded-xl text-ink-400 hover:bg-red-500/10 hover:text-red-400 transition-all"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Keyboard</h3>
+          <button 
+            onClick={onShowShortcuts}
+            className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl hover:bg-ink-800 transition-all text-left group"
+          >
+            <div className="p-3 bg-accent-500/10 rounded-2xl text-accent-500 group-hover:scale-110 transition-transform">
+              <Keyboard size={24} />
+            </div>
+            <div className="flex-1">
+              <p className="font-black text-fg">Keyboard Shortcuts</p>
+              <p className="text-xs text-ink-500 font-bold">Press {MOD_KEY}+K anywhere to search notes and commands</p>
+            </div>
+            <KeyCombo keys={['?']} />
+          </button>
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-red-500 uppercase tracking-widest px-1">Danger Zone</h3>
+          
+          <button 
+            onClick={() => onClearAll()}
+            className="w-full flex items-center gap-4 p-6 bg-red-500/5 border-2 border-red-500/20 rounded-3xl hover:bg-red-500/10 transition-all text-left group"
+          >
+            <div className="p-3 bg-red-500/10 rounded-2xl text-red-500 group-hover:scale-110 transition-transform">
+              <AlertTriangle size={24} />
+            </div>
+            <div>
+              <p className="font-black text-red-500">Clear All Data</p>
+              <p className="text-xs text-red-500/60 font-bold">Delete everything in this workspace, keeping a snapshot to restore from</p>
+            </div>
+          </button>
+
+          <button 
+            onClick={() => onClearAll(true)}
+            className="w-full flex items-center gap-4 p-6 bg-red-500/5 border-2 border-red-500/20 rounded-3xl hover:bg-red-500/10 transition-all text-left group"
+          >
+            <div className="p-3 bg-red-500/10 rounded-2xl text-red-500 group-hover:scale-110 transition-transform">
+              <Trash2 size={24} />
+            </div>
+            <div>
+              <p className="font-black text-red-500">Erase Data and Backups</p>
+              <p className="text-xs text-red-500/60 font-bold">Also delete every snapshot, so nothing of this workspace is left on this device</p>
+            </div>
+          </button>
+        </div>
+
+        <div className="pt-10 text-center">
+          <p className="text-[10px] text-ink-700 font-black uppercase tracking-widest">Notepad Pro v1.0.0</p>
+          <p className="text-[10px] text-ink-800 mt-1">Design with ❤️ for Mobile Experience</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- SnapshotList Sub-Component ---
+
+interface SnapshotListProps {
+  snapshots: Snapshot[];
+  notes: Note[];
+  onRestore: (snapshot: Snapshot) => void;
+  onDelete: (snapshot: Snapshot) => void;
+}
+
+type SnapshotPreview = { diff: SnapshotDiff } | { sealed: true } | { error: string };
+
+const diffSummary = ({ added, removed, changed }: SnapshotDiff): string => {
+  if (added + removed + changed === 0) return 'Same as your notes now';
+  const parts = [
+    removed > 0 && `brings back ${noteCount(removed)}`,
+    changed > 0 && `reverts ${noteCount(changed)}`,
+    added > 0 && `removes ${noteCount(added)} written since`,
+  ].filter(Boolean).join(', ');
+  return `Restoring ${parts}`;
+};
+
+// A row is opened to compare it with the current notes, so only that snapshot's notes are read
+const SnapshotList: React.FC<SnapshotListProps> = ({ snapshots, notes, onRestore, onDelete }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<SnapshotPreview | null>(null);
+  const [previewData, setPreviewData] = useState<SnapshotData | null>(null);
+
+  useEffect(() => {
+    setPreviewData(null);
+    setPreview(null);
+    if (!openId) return;
+    let cancelled = false;
+    readSnapshot(openId)
+      .then(opened => {
+        if (cancelled) return;
+        if ('data' in opened) setPreviewData(opened.data);
+        else setPreview({ sealed: true });
+      })
+      .catch(e => !cancelled && setPreview({ error: (e as Error).message }));
+    return () => { cancelled = true; };
+  }, [openId]);
+
+  const diff = useMemo(() => (previewData ? diffSnapshot(notes, previewData.notes) : null), [notes, previewData]);
+
+  if (snapshots.length === 0) {
+    return <p className="text-xs text-ink-500 font-bold px-1">No snapshots yet.</p>;
+  }
+
+  const current: SnapshotPreview | null = diff ? { diff } : preview;
+
+  return (
+    <div className="bg-ink-900/50 border-2 border-ink-800 rounded-3xl divide-y-2 divide-ink-800 overflow-hidden">
+      {snapshots.map(snapshot => {
+        const isOpen = snapshot.id === openId;
+        return (
+          <div key={snapshot.id}>
+            <div className="flex items-center gap-3 px-5 py-4">
+              <button 
+                onClick={() => setOpenId(isOpen ? null : snapshot.id)}
+                className="flex-1 min-w-0 flex items-center gap-3 text-left"
+              >
+                <ChevronDown size={18} className={`text-ink-500 shrink-0 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+                <div className="min-w-0">
+                  <p className="font-black text-fg truncate">{format(snapshot.createdAt, 'MMM d, yyyy h:mm a')}</p>
+                  <p className="text-xs text-ink-500 font-bold truncate">
+                    {noteCount(snapshot.noteCount)} · {SNAPSHOT_REASON_LABELS[snapshot.reason]}
+                    {snapshot.isEncrypted && ' · Encrypted'}
+                  </p>
+                </div>
+              </button>
+              <button 
+                onClick={() => onRestore(snapshot)}
+                className="p-2 rounded-xl text-ink-400 hover:bg-ink-800 hover:text-fg transition-all"
+                title="Restore"
+              >
+                <ArchiveRestore size={16} />
+              </button>
+              <button 
+                onClick={() => onDelete(snapshot)}
+                className="p-2 rounded-xl text-ink-400 hover:bg-red-500/10 hover:text-red-400 transition-all"
+                title="Delete"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            {isOpen && (
+              <p className="px-5 pb-4 pl-[3.25rem] text-xs text-ink-400 font-bold">
+                {!current
+                  ? 'Comparing...'
+                  : 'diff' in current
+                    ? diffSummary(current.diff)
+                    : 'sealed' in current
+                      ? 'Taken under an earlier passphrase; restoring asks for it.'
+                      : current.error}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- TrashView Sub-Component ---
+
+interface TrashViewProps {
+  notes: Note[];
+  retentionDays: number;
+  onBack: () => void;
+  onRestore: (id: string) => void;
+  onDeleteForever: (id: string) => void;
+  onEmptyTrash: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ notes, retentionDays, onBack, onRestore, onDeleteForever, onEmptyTrash }) => {
+  return (
+    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-canvas">
+      <nav className="p-6 flex items-center justify-between border-b-2 border-ink-900/50">
+        <div className="flex items-center gap-6">
+          <button onClick={onBack} className="p-3 rounded-2xl hover:bg-ink-800 transition-all text-fg">
+            <ArrowLeft size={28} strokeWidth={2.5} />
+          </button>
+          <h2 className="text-2xl font-black text-fg tracking-tight">Trash</h2>
+        </div>
+        {notes.length > 0 && (
+          <button 
+            onClick={onEmptyTrash}
+            className="px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest text-red-500 border-2 border-red-500/20 hover:bg-red-500/10 transition-colors"
+          >
+            Empty Trash
+          </button>
+        )}
+      </nav>
+
+      <div className="flex-1 p-6 space-y-4 overflow-y-auto custom-scrollbar">
+        <p className="text-xs text-ink-500 font-bold px-1">
+          {retentionDays > 0 
+            ? `Notes in the Trash are deleted permanently after ${retentionDays} days.` 
+            : 'Notes stay in the Trash until you delete them.'}
+        </p>
+        {notes.length === 0 ? (
+          <div className="flex flex-col items-center justify-center pt-24 text-center">
+            <div className="w-24 h-24 bg-ink-800/50 rounded-[2rem] flex items-center justify-center mb-6 shadow-sm border border-ink-800">
+              <Trash2 size={44} className="text-ink-700" strokeWidth={1.5} />
+            </div>
+            <p className="text-2xl font-black text-ink-500">Trash is empty</p>
+          </div>
+        ) : (
+          notes.map(note => {
+            const daysLeft = daysUntilPurge(note, retentionDays);
+            return (
+              <div key={note.id} className="p-6 rounded-[1.5rem] border-2 border-ink-800 bg-ink-800/40">
+                <h3 className="font-black text-xl truncate text-ink-300 leading-tight mb-2">
+                  {note.title || <span className="text-ink-600 font-bold italic">Untitled</span>}
+                </h3>
+                <p className="text-ink-500 text-sm line-clamp-2 mb-4 font-bold">
+                  {toPlainText(note.content) || <span className="italic font-normal">No details provided...</span>}
+                </p>
+                <div className="flex items-center justify-between gap-3 pt-3 border-t-2 border-ink-700/50">
+                  <div className="text-[11px] text-ink-500 font-black uppercase tracking-widest">
+                    Deleted {format(note.deletedAt!, 'MMM d')}
+                    {daysLeft !== null && <span className="text-amber-500/80"> · {daysLeft}d left</span>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={() => onRestore(note.id)}
+                      className="p-2.5 rounded-xl text-emerald-500 hover:bg-emerald-500/10 transition-all"
+                      title="Restore"
+                    >
+                      <RotateCcw size={20} />
+                    </button>
+                    <button 
+                      onClick={() => onDeleteForever(note.id)}
+                      className="p-2.5 rounded-xl text-red-500 hover:bg-red-500/10 transition-all"
+                      title="Delete permanently"
+                    >
+                      <Trash2 size={20} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- StatsView Sub-Component ---
+
+interface StatsViewProps {
+  notes: Note[];
+  tagCounts: LabelCount[];
+  colorCounts: { color: NoteColor, count: number }[];
+  attachmentSummary: AttachmentSummary;
+  onBack: () => void;
+}
+
+// Empty, then four steps of activity relative to the busiest day shown.
+const HEATMAP_LEVELS = ['bg-ink-800', 'bg-accent-500/25', 'bg-accent-500/50', 'bg-accent-500/75', 'bg-accent-500'];
+const TOP_TAGS = 5;
+
+const StatsView: React.FC<StatsViewProps> = ({ notes, tagCounts, colorCounts, attachmentSummary, onBack }) => {
+  const [activity, setActivity] = useState<Record<string, number>>({});
+  const [deviceUsage, setDeviceUsage] = useState<number | null>(null);
+
+  // Neither is worth an error banner; the screen just shows less without them
+  useEffect(() => {
+    loadActivity().then(setActivity).catch(() => {});
+    navigator.storage?.estimate?.().then(estimate => setDeviceUsage(estimate.usage ?? null)).catch(() => {});
+  }, []);
+
+  const stats = useMemo(() => writingStats(notes, activity, Date.now()), [notes, activity]);
+  const heatmap = useMemo(() => heatmapWeeks(stats.days, Date.now()), [stats.days]);
+  const busiestDay = Math.max(0, ...heatmap.flat().map(day => day.count));
+  const busiestWeek = Math.max(1, ...stats.weeks.map(week => week.count));
+  const topTags = tagCounts.slice(0, TOP_TAGS);
+
+  const tiles = [
+    { label: 'Notes', value: stats.notes.toLocaleString() },
+    { label: 'Words', value: stats.words.toLocaleString() },
+    { label: 'Current Streak', value: `${stats.currentStreak} ${stats.currentStreak === 1 ? 'day' : 'days'}` },
+    { label: 'Longest Streak', value: `${stats.longestStreak} ${stats.longestStreak === 1 ? 'day' : 'days'}` },
+  ];
+
+  return (
+    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-canvas">
+      <nav className="p-6 flex items-center gap-6 border-b-2 border-ink-900/50">
+        <button onClick={onBack} className="p-3 rounded-2xl hover:bg-ink-800 transition-all text-fg">
+          <ArrowLeft size={28} strokeWidth={2.5} />
+        </button>
+        <h2 className="text-2xl font-black text-fg tracking-tight">Statistics</h2>
+      </nav>
+
+      <div className="flex-1 p-8 space-y-6 overflow-y-auto custom-scrollbar">
+        <div className="grid grid-cols-2 gap-4">
+          {tiles.map(tile => (
+            <div key={tile.label} className="p-5 bg-ink-900/50 border-2 border-ink-800 rounded-3xl">
+              <p className="text-[11px] font-black text-ink-500 uppercase tracking-widest">{tile.label}</p>
+              <p className="text-2xl font-black text-fg mt-1 truncate">{tile.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Writing Activity</h3>
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-4">
+            <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
+              {heatmap.map((week, i) => (
+                <div key={i} className="flex flex-col gap-1">
+                  {week.map(day => (
+                    <div 
+                      key={day.key}
+                      title={day.isFuture ? undefined : `${format(new Date(`${day.key}T00:00`), 'EEE, MMM d')}: ${day.count} ${day.count === 1 ? 'change' : 'changes'}`}
+                      className={`w-3.5 h-3.5 rounded-[4px] ${day.isFuture ? 'bg-transparent' : HEATMAP_LEVELS[activityLevel(day.count, busiestDay)]}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-3 text-[11px] text-ink-500 font-black uppercase tracking-widest">
+              <span>Notes created or edited each day</span>
+              <span className="flex items-center gap-1">
+                Less
+                {HEATMAP_LEVELS.map(level => <span key={level} className={`w-3 h-3 rounded-[3px] ${level}`} />)}
+                More
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Notes Created per Week</h3>
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-3">
+            <div className="flex items-end gap-1.5 h-32">
+              {stats.weeks.map(week => (
+                <div key={week.start} className="flex-1 h-full flex flex-col justify-end" title={`Week of ${format(week.start, 'MMM d')}: ${noteCount(week.count)}`}>
+                  <div 
+                    className={`rounded-md ${week.count > 0 ? 'bg-accent-500' : 'bg-ink-800'}`} 
+                    style={{ height: week.count > 0 ? `${(week.count / busiestWeek) * 100}%` : '4px' }} 
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-[11px] text-ink-500 font-black uppercase tracking-widest">
+              <span>{format(stats.weeks[0].start, 'MMM d')}</span>
+              <span>This week</span>
+            </div>
+          </div>
+        </div>
+
+        {(topTags.length > 0 || colorCounts.length > 0) && (
+          <div className="space-y-4 pt-4">
+            <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Most Used</h3>
+            <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl space-y-5">
+              {topTags.length > 0 && (
+                <div className="space-y-2.5">
+                  {topTags.map(tag => (
+                    <div key={tag.name} className="flex items-center gap-3">
+                      <span className="w-28 shrink-0 truncate text-sm font-black text-accent-400">#{tag.name}</span>
+                      <div className="flex-1 h-2 rounded-full bg-ink-800 overflow-hidden">
+                        <div className="h-full bg-accent-500 rounded-full" style={{ width: `${(tag.count / topTags[0].count) * 100}%` }} />
+                      </div>
+                      <span className="w-8 text-right text-xs font-black text-ink-400">{tag.count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {colorCounts.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {colorCounts.map(({ color, count }) => (
+                    <span key={color} className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-ink-800/60 text-xs font-black text-ink-300">
+                      <span className={`w-3 h-3 rounded-full ${NOTE_COLOR_STYLES[color].swatch}`} />
+                      {NOTE_COLOR_STYLES[color].label} · {count}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4 pt-4">
+          <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">Storage</h3>
+          <div className="p-6 bg-ink-900/50 border-2 border-ink-800 rounded-3xl flex items-center gap-4">
+            <div className="p-3 bg-accent-500/10 rounded-2xl text-accent-500">
+              <HardDrive size={24} />
+            </div>
+            <div className="flex-1">
+              <p className="font-black text-fg">{stats.characters.toLocaleString()} characters of text</p>
+              <p className="text-xs text-ink-500 font-bold">
+                {formatBytes(attachmentSummary.total)} of attachments
+                {deviceUsage !== null && ` · ${formatBytes(deviceUsage)} used by the app on this device`}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- LockScreen Sub-Component ---
+
+interface LockScreenProps {
+  profile: UserProfile;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onReset: () => void;
+  workspaces: Workspace[];
+  currentWorkspaceId: string;
+  onSwitchWorkspace: (id: string) => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ profile, onUnlock, onReset, workspaces, currentWorkspaceId, onSwitchWorkspace }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? 'Incorrect passphrase. Try again.' : (err as Error).message);
+      setPassphrase('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen max-w-md mx-auto px-8 items-center justify-center">
+      <div className="w-28 h-28 rounded-[2rem] overflow-hidden bg-ink-900 border-4 border-ink-800 shadow-2xl flex items-center justify-center mb-6">
+        {profile.avatar ? (
+          <img src={profile.avatar} alt="Profile" className="w-full h-full object-cover" />
+        ) : (
+          <Lock size={48} className="text-accent-500/40" strokeWidth={1.5} />
+        )}
+      </div>
+      <p className="text-[10px] text-accent-400 font-black uppercase tracking-widest">Notes Locked</p>
+      <h1 className="text-3xl font-black tracking-tight text-fg mt-1 mb-10">{profile.name}</h1>
+
+      <form onSubmit={handleSubmit} className="w-full space-y-4">
+        <input 
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          className="w-full bg-ink-900/50 p-5 rounded-2xl border-2 border-ink-800 focus:outline-none focus:ring-4 focus:ring-accent-600/20 text-fg text-lg font-bold placeholder:text-ink-600"
+        />
+        {error && <p className="text-sm text-red-400 font-bold px-1">{error}</p>}
+        <button 
+          type="submit"
+          disabled={!passphrase || isBusy}
+          className="w-full py-5 bg-accent-600 hover:bg-accent-700 disabled:opacity-40 text-white rounded-2xl font-black uppercase tracking-widest text-sm transition-all active:scale-95"
+        >
+          {isBusy ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+
+      <div className="mt-10 w-full text-center">
+        {showRecovery ? (
+          <div className="p-6 bg-red-500/5 border-2 border-red-500/20 rounded-3xl text-left space-y-4">
+            <p className="text-sm text-red-300 font-bold leading-relaxed">
+              Your notes are encrypted with your passphrase and there is no way to recover it. 
+              The only way back into {workspaces.length > 1 ? 'this workspace' : 'the app'} is to erase everything in it on this device.
+            </p>
+            <button 
+              onClick={onReset}
+              className="w-full py-3 rounded-xl text-xs font-black uppercase tracking-widest text-red-500 border-2 border-red-500/30 hover:bg-red-500/10 transition-colors"
+            >
+              Clear All Data
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setShowRecovery(true)} className="text-xs text-ink-500 font-black uppercase tracking-widest hover:text-ink-300">
+            Forgot passphrase?
+          </button>
+        )}
+      </div>
+
+      {/* Each workspace has its own lock, so someone else sharing the device can still reach theirs */}
+      {workspaces.length > 1 && (
+        <div className="mt-8 flex flex-wrap justify-center gap-2">
+          {workspaces.filter(w => w.id !== currentWorkspaceId).map(w => (
+            <button 
+              key={w.id}
+              onClick={() => onSwitchWorkspace(w.id)}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-ink-800/50 border border-ink-700 text-xs text-ink-400 font-bold hover:text-fg hover:border-accent-600 transition-colors"
+            >
+              <Layers size={14} />
+              {w.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- PassphraseDialog Sub-Component ---
+
+interface PassphraseDialogProps extends PassphrasePrompt {
+  onCancel: () => void;
+}
+
+const PassphraseDialog: React.FC<PassphraseDialogProps> = ({ title, description, fields, submitLabel, onSubmit, onCancel }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(values);
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? 'Incorrect passphrase.' : (err as Error).message);
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/70 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="w-full max-w-md p-8 bg-ink-900 border-2 border-ink-800 rounded-[2rem] shadow-2xl space-y-5">
+        <div>
+          <h3 className="text-xl font-black text-fg">{title}</h3>
+          <p className="text-sm text-ink-400 font-bold leading-relaxed mt-2">{description}</p>
+        </div>
+        {fields.map((field, i) => (
+          <input 
+            key={field.name}
+            type={field.type ?? 'password'}
+            placeholder={field.label}
+            value={values[field.name] ?? ''}
+            onChange={(e) => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+            autoFocus={i === 0}
+            className="w-full bg-ink-950/60 p-4 rounded-2xl border-2 border-ink-800 focus:outline-none focus:ring-4 focus:ring-accent-600/20 text-fg font-bold placeholder:text-ink-600"
+          />
+        ))}
+        {error && <p className="text-sm text-red-400 font-bold px-1">{error}</p>}
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={onCancel} disabled={isBusy} className="flex-1 py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-ink-400 hover:bg-ink-800 transition-all">
+            Cancel
+          </button>
+          <button type="submit" disabled={isBusy} className="flex-1 py-4 bg-accent-600 hover:bg-accent-700 disabled:opacity-40 text-white rounded-2xl text-sm font-black uppercase tracking-widest transition-all active:scale-95">
+            {isBusy ? 'Working...' : submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// --- TemplatePicker Sub-Component ---
+
+interface TemplatePickerProps {
+  templates: NoteTemplate[];
+  onCreate: (template: NoteTemplate, values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, onCreate, onCancel }) => {
+  // Set once a template with fields to fill in has been chosen
+  const [selected, setSelected] = useState<NoteTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const fields = selected ? templateFields(selected) : [];
+
+  const handlePick = (template: NoteTemplate) => {
+    if (templateFields(template).length === 0) onCreate(template, {});
+    else setSelected(template);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/70 backdrop-blur-sm">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col p-8 bg-ink-900 border-2 border-ink-800 rounded-[2rem] shadow-2xl">
+        <h3 className="text-xl font-black text-fg">{selected ? selected.name : 'New from Template'}</h3>
+        <p className="text-sm text-ink-400 font-bold leading-relaxed mt-2">
+          {selected ? 'Fill in the details for this note. Anything left blank is skipped.' : 'Start a note from one of your templates.'}
+        </p>
+
+        {selected ? (
+          <form 
+            onSubmit={(e) => { e.preventDefault(); onCreate(selected, values); }}
+            className="mt-6 space-y-4 overflow-y-auto custom-scrollbar"
+          >
+            {fields.map((field, i) => (
+              <label key={field} className="block space-y-2">
+                <span className="text-[11px] font-black uppercase tracking-widest text-ink-500 px-1">{field}</span>
+                <input 
+                  type="text"
+                  value={values[field] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                  autoFocus={i === 0}
+                  className="w-full bg-ink-950/60 p-4 rounded-2xl border-2 border-ink-800 focus:outline-none focus:ring-4 focus:ring-accent-600/20 text-fg font-bold placeholder:text-ink-600"
+                />
+              </label>
+            ))}
+            <div className="flex gap-3 pt-2">
+              <button type="button" onClick={() => { setSelected(null); setValues({}); }} className="flex-1 py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-ink-400 hover:bg-ink-800 transition-all">
+                Back
+              </button>
+              <button type="submit" className="flex-1 py-4 bg-accent-600 hover:bg-accent-700 text-white rounded-2xl text-sm font-black uppercase tracking-widest transition-all active:scale-95">
+                Create Note
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="mt-6 space-y-2 overflow-y-auto custom-scrollbar">
+              {templates.length === 0 ? (
+                <p className="py-6 text-center text-sm text-ink-500 font-bold">No templates yet. Open a note and choose Save as Template from its share menu.</p>
+              ) : templates.map(template => (
+                <button 
+                  key={template.id}
+                  onClick={() => handlePick(template)}
+                  className="w-full flex items-center gap-4 p-4 bg-ink-950/40 border-2 border-ink-800 rounded-2xl hover:bg-ink-800 transition-all text-left"
+                >
+                  <LayoutTemplate size={20} className="text-accent-400 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-black text-fg truncate">{template.name}</p>
+                    <p className="text-xs text-ink-500 font-bold truncate">{template.kind === 'checklist' ? 'Checklist' : template.title || 'Untitled'}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+            <button onClick={onCancel} className="mt-6 w-full py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-ink-400 hover:bg-ink-800 transition-all">
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- CommandPalette Sub-Component ---
+
+const PALETTE_RESULTS = 12;
+const PALETTE_RECENT_NOTES = 5;
+
+type PaletteItem = { kind: 'note', note: Note } | { kind: 'command', command: PaletteCommand };
+
+// Untitled notes are listed by their first line
+const paletteNoteLabel = (note: Note): string => note.title.trim() || toPlainText(note.content).trim().split('\n')[0] || 'Untitled';
+
+const KeyCombo: React.FC<{ keys: string[] }> = ({ keys }) => (
+  <span className="flex items-center gap-1 shrink-0">
+    {keys.map(key => (
+      <kbd key={key} className="min-w-[1.75rem] px-2 py-1 rounded-lg bg-ink-800 border border-ink-700 text-[11px] font-black text-ink-300 text-center font-sans">{key}</kbd>
+    ))}
+  </span>
+);
+
+interface CommandPaletteProps {
+  notes: Note[];
+  commands: PaletteCommand[];
+  onOpenNote: (id: string) => void;
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ notes, commands, onOpenNote, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // With nothing typed, recent notes come first, then every command
+  const items = useMemo<PaletteItem[]>(() => {
+    const noteItems = notes.map(note => ({ kind: 'note' as const, note }));
+    const commandItems = commands.map(command => ({ kind: 'command' as const, command }));
+    if (!query.trim()) {
+      const recent = noteItems.sort((a, b) => b.note.lastModified - a.note.lastModified).slice(0, PALETTE_RECENT_NOTES);
+      return [...recent, ...commandItems];
+    }
+    return fuzzyFilter<PaletteItem>([...noteItems, ...commandItems], query, item => (item.kind === 'note' ? paletteNoteLabel(item.note) : item.command.label))
+      .slice(0, PALETTE_RESULTS);
+  }, [notes, commands, query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const run = (item: PaletteItem) => {
+    onClose();
+    if (item.kind === 'note') onOpenNote(item.note.id);
+    else item.command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && items.length > 0) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + items.length) % items.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (items[activeIndex]) run(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div onMouseDown={onClose} className="fixed inset-0 z-50 flex items-start justify-center p-6 pt-[12vh] bg-black/70 backdrop-blur-sm">
+      <div onMouseDown={(e) => e.stopPropagation()} className="w-full max-w-lg max-h-[70vh] flex flex-col bg-ink-900 border-2 border-ink-800 rounded-[2rem] shadow-2xl overflow-hidden">
+        <div className="flex items-center gap-3 px-5 border-b-2 border-ink-800">
+          <Command size={20} className="text-accent-400 shrink-0" />
+          <input 
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search notes and commands..."
+            className="flex-1 bg-transparent py-5 focus:outline-none text-fg font-bold placeholder:text-ink-500"
+            autoFocus
+          />
+          <KeyCombo keys={['Esc']} />
+        </div>
+        <div ref={listRef} className="overflow-y-auto custom-scrollbar py-2">
+          {items.length === 0 ? (
+            <p className="px-5 py-8 text-center text-sm text-ink-500 font-bold">No notes or commands match "{query}"</p>
+          ) : items.map((item, i) => (
+            <button 
+              key={item.kind === 'note' ? `note:${item.note.id}` : `command:${item.command.id}`}
+              data-index={i}
+              onMouseMove={() => setActiveIndex(i)}
+              onClick={() => run(item)}
+              className={`w-full flex items-center gap-3 px-5 py-3 text-left transition-colors ${i === activeIndex ? 'bg-accent-600/15 text-fg' : 'text-ink-300'}`}
+            >
+              <span className={`shrink-0 ${i === activeIndex ? 'text-accent-400' : 'text-ink-500'}`}>
+                {item.kind === 'note' ? <FileText size={18} /> : item.command.icon}
+              </span>
+              <span className="flex-1 truncate text-sm font-bold">{item.kind === 'note' ? paletteNoteLabel(item.note) : item.command.label}</span>
+              {item.kind === 'note' ? (
+                <span className="text-[10px] font-black uppercase tracking-widest text-ink-600">Note</span>
+              ) : item.command.shortcut && (
+                <KeyCombo keys={item.command.shortcut} />
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- ShortcutsDialog Sub-Component ---
+
+// Esc is handled here rather than on window so the editor underneath doesn't close too
+const ShortcutsDialog: React.FC<{ onClose: () => void }> = ({ onClose }) => (
+  <div 
+    onKeyDown={(e) => { if (e.key === 'Escape') { e.preventDefault(); onClose(); } }}
+    className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/70 backdrop-blur-sm"
+  >
+    <div className="w-full max-w-md max-h-[85vh] flex flex-col p-8 bg-ink-900 border-2 border-ink-800 rounded-[2rem] shadow-2xl">
+      <h3 className="text-xl font-black text-fg">Keyboard Shortcuts</h3>
+      <div className="mt-6 space-y-6 overflow-y-auto custom-scrollbar">
+        {SHORTCUT_GROUPS.map(group => (
+          <div key={group.title} className="space-y-3">
+            <p className="text-[11px] font-black text-accent-400 uppercase tracking-widest">{group.title}</p>
+            {group.shortcuts.map(shortcut => (
+              <div key={shortcut.description} className="flex items-center justify-between gap-4">
+                <span className="text-sm font-bold text-ink-300">{shortcut.description}</span>
+                <KeyCombo keys={shortcut.keys} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <button onClick={onClose} className="mt-6 w-full py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-ink-400 hover:bg-ink-800 transition-all" autoFocus>
+        Close
+      </button>
+    </div>
+  </div>
+);
+
+// --- ImportPreview Sub-Component ---
+
+interface ImportPreviewProps {
+  plan: ImportPlan;
+  profile: UserProfile | null;
+  onConfirm: (strategy: MergeStrategy, restoreProfile: boolean) => void;
+  onCancel: () => void;
+}
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ plan, profile, onConfirm, onCancel }) => {
+  const [strategy, setStrategy] = useState<MergeStrategy>('newest');
+  const [restoreProfile, setRestoreProfile] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>('conflict');
+
+  const groups = [
+    { key: 'new', label: 'New', tone: 'text-emerald-400', entries: plan.entries.filter(e => e.status === 'new') },
+    { key: 'conflict', label: 'Conflicting', tone: 'text-amber-400', entries: plan.entries.filter(e => e.status === 'conflict') },
+    { key: 'identical', label: 'Already Up to Date', tone: 'text-ink-400', entries: plan.entries.filter(e => e.status === 'identical') },
+  ];
+  const conflictCount = groups[1].entries.length;
+  const canImport = plan.entries.some(e => e.status !== 'identical') || (restoreProfile && profile);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-canvas overflow-hidden">
+      <div className="flex flex-col h-screen max-w-2xl mx-auto">
+        <nav className="p-6 flex items-center gap-6 border-b-2 border-ink-900/50">
+          <button onClick={onCancel} className="p-3 rounded-2xl hover:bg-ink-800 transition-all text-fg">
+            <ArrowLeft size={28} strokeWidth={2.5} />
+          </button>
+          <h2 className="text-2xl font-black text-fg tracking-tight">Review Import</h2>
+        </nav>
+
+        <div className="flex-1 p-6 space-y-4 overflow-y-auto custom-scrollbar">
+          {groups.map(group => (
+            <div key={group.key} className="bg-ink-900/50 border-2 border-ink-800 rounded-3xl overflow-hidden">
+              <button 
+                onClick={() => setExpanded(expanded === group.key ? null : group.key)}
+                disabled={group.entries.length === 0}
+                className="w-full flex items-center justify-between px-6 py-4 text-left disabled:opacity-50"
+              >
+                <span className={`font-black ${group.tone}`}>{group.label}</span>
+                <span className="flex items-center gap-2 text-sm font-black text-ink-300">
+                  {group.entries.length}
+                  {group.entries.length > 0 && <ChevronDown size={18} className={`transition-transform ${expanded === group.key ? 'rotate-180' : ''}`} />}
+                </span>
+              </button>
+              {expanded === group.key && group.entries.length > 0 && (
+                <div className="px-6 pb-4 space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+                  {group.entries.map(({ note, existing }) => (
+                    <div key={note.id} className="py-2 border-t border-ink-800">
+                      <p className="text-sm font-black text-ink-200 truncate">{note.title || 'Untitled'}</p>
+                      <p className="text-[11px] text-ink-500 font-bold">
+                        {existing 
+                          ? `Backup ${format(note.lastModified, 'MMM d, yyyy h:mm a')} · Yours ${format(existing.lastModified, 'MMM d, yyyy h:mm a')}`
+                          : `Modified ${format(note.lastModified, 'MMM d, yyyy h:mm a')}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {plan.rejected.length > 0 && (
+            <div className="bg-red-500/5 border-2 border-red-500/20 rounded-3xl overflow-hidden">
+              <button 
+                onClick={() => setExpanded(expanded === 'rejected' ? null : 'rejected')}
+                className="w-full flex items-center justify-between px-6 py-4 text-left"
+              >
+                <span className="font-black text-red-400">Rejected</span>
+                <span className="flex items-center gap-2 text-sm font-black text-red-300">
+                  {plan.rejected.length}
+                  <ChevronDown size={18} className={`transition-transform ${expanded === 'rejected' ? 'rotate-180' : ''}`} />
+                </span>
+              </button>
+              {expanded === 'rejected' && (
+                <div className="px-6 pb-4 space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+                  {plan.rejected.map((entry, i) => (
+                    <div key={i} className="py-2 border-t border-red-500/10">
+                      <p className="text-sm font-black text-ink-200 truncate">{entry.title || entry.source}</p>
+                      <p className="text-[11px] text-red-300/70 font-bold">{entry.title ? `${entry.source}: ` : ''}{entry.reason}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {conflictCount > 0 && (
+            <div className="space-y-3 pt-2">
+              <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest px-1">When a note already exists</h3>
+              {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(option => (
+                <button 
+                  key={option}
+                  onClick={() => setStrategy(option)}
+                  className={`w-full flex items-center justify-between gap-4 px-6 py-4 rounded-2xl border-2 text-left transition-colors ${strategy === option ? 'border-accent-600 bg-accent-600/10' : 'border-ink-800 bg-ink-900/50 hover:border-ink-700'}`}
+                >
+                  <div>
+                    <p className="font-black text-fg">{MERGE_STRATEGY_LABELS[option].label}</p>
+                    <p className="text-xs text-ink-500 font-bold">{MERGE_STRATEGY_LABELS[option].description}</p>
+                  </div>
+                  {strategy === option && <Check size={20} strokeWidth={3} className="text-accent-400 shrink-0" />}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {profile && (
+            <label className="flex items-center gap-4 px-6 py-4 rounded-2xl border-2 border-ink-800 bg-ink-900/50 cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={restoreProfile} 
+                onChange={(e) => setRestoreProfile(e.target.checked)} 
+                className="w-5 h-5 accent-accent-600"
+              />
+              <div>
+                <p className="font-black text-fg">Also restore profile</p>
+                <p className="text-xs text-ink-500 font-bold">Replace your name and photo with "{profile.name}" from the backup</p>
+              </div>
+            </label>
+          )}
+        </div>
+
+        <div className="p-6 border-t-2 border-ink-900/50 flex gap-3">
+          <button onClick={onCancel} className="flex-1 py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-ink-400 hover:bg-ink-800 transition-all">
+            Cancel
+          </button>
+          <button 
+            onClick={() => onConfirm(strategy, restoreProfile)}
+            disabled={!canImport}
+            className="flex-1 py-4 bg-accent-600 hover:bg-accent-700 disabled:opacity-40 text-white rounded-2xl text-sm font-black uppercase tracking-widest transition-all active:scale-95"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- ReminderBanner Sub-Component ---
+
+interface ReminderBannerProps {
+  notes: Note[];
+  onOpen: (id: string) => void;
+  onComplete: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const ReminderBanner: React.FC<ReminderBannerProps> = ({ notes, onOpen, onComplete, onDismiss }) => {
+  if (notes.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 w-[calc(100%-3rem)] max-w-xl z-50 space-y-2">
+      {notes.map(note => (
+        <div key={note.id} className="flex items-center gap-4 p-4 bg-ink-800/95 backdrop-blur-md border-2 border-accent-500/30 rounded-2xl shadow-2xl">
+          <Bell size={22} className="text-accent-400 shrink-0" />
+          <button onClick={() => onOpen(note.id)} className="flex-1 min-w-0 text-left">
+            <p className="font-black text-fg truncate">{note.title || 'Untitled'}</p>
+            <p className="text-xs text-ink-400 font-bold">
+              {note.reminder && note.reminder.repeat !== 'none' ? `Repeats ${REPEAT_LABELS[note.reminder.repeat].toLowerCase()} · next ${formatDue(note.reminder.dueAt)}` : 'Reminder due'}
+            </p>
+          </button>
+          {note.reminder?.repeat === 'none' && (
+            <button onClick={() => onComplete(note.id)} className="px-3 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-accent-400 hover:bg-accent-500/10 transition-colors">
+              Done
+            </button>
+          )}
+          <button onClick={() => onDismiss(note.id)} className="p-1.5 rounded-lg text-ink-400 hover:bg-ink-700 transition-all" title="Dismiss">
+            <X size={18} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// --- StorageErrorBanner Sub-Component ---
+
+const StorageErrorBanner: React.FC<{ error: StorageError, onDismiss: () => void }> = ({ error, onDismiss }) => {
+  const titles: Record<StorageError['kind'], string> = {
+    quota: 'Storage Full',
+    corrupt: 'Some Data Could Not Be Loaded',
+    unavailable: 'Storage Unavailable',
+    locked: 'Notes Locked',
+    unknown: 'Save Failed',
+  };
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 w-[calc(100%-3rem)] max-w-xl z-50 flex items-start gap-4 p-5 bg-red-950/90 backdrop-blur-md border-2 border-red-500/30 rounded-2xl shadow-2xl">
+      <AlertTriangle size={22} className="text-red-400 shrink-0 mt-0.5" />
+      <div className="flex-1">
+        <p className="font-black text-red-300">{titles[error.kind]}</p>
+        <p className="text-xs text-red-200/70 font-bold leading-relaxed mt-1">{error.message}</p>
+      </div>
+      <button onClick={onDismiss} className="p-1.5 rounded-lg text-red-300 hover:bg-red-500/20 transition-all" title="Dismiss">
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
+
+// --- SyncConflictNotice Sub-Component ---
+
+interface SyncConflictNoticeProps {
+  theirs: Note;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+}
+
+const SyncConflictNotice: React.FC<SyncConflictNoticeProps> = ({ theirs, onKeepMine, onUseTheirs }) => (
+  <div className="flex flex-col sm:flex-row sm:items-center gap-4 p-5 bg-amber-950/40 border-2 border-amber-500/30 rounded-2xl">
+    <AlertTriangle size={22} className="text-amber-400 shrink-0" />
+    <div className="flex-1">
+      <p className="font-black text-amber-300">Changed in another tab</p>
+      <p className="text-xs text-amber-200/70 font-bold leading-relaxed mt-1">
+        This note was edited elsewhere at {format(theirs.lastModified, 'h:mm a')}. You're still seeing your version, and the one you don't keep stays in History.
+      </p>
+    </div>
+    <div className="flex gap-2 shrink-0">
+      <button onClick={onKeepMine} className="px-4 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-ink-300 border-2 border-ink-700 hover:bg-ink-800 transition-all">
+        Keep Mine
+      </button>
+      <button onClick={onUseTheirs} className="px-4 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-white bg-amber-600 hover:bg-amber-500 transition-all">
+        Use Theirs
+      </button>
+    </div>
+  </div>
+);
+
+// --- LinkSuggestions Sub-Component ---
+
+interface LinkSuggestionsProps {
+  query: string;
+  suggestions: string[];
+  activeIndex: number;
+  onPick: (title: string) => void;
+}
+
+const LinkSuggestions: React.FC<LinkSuggestionsProps> = ({ query, suggestions, activeIndex, onPick }) => (
+  // Mouse down would blur the textarea and close the list before the click lands
+  <div onMouseDown={(e) => e.preventDefault()} className="sticky bottom-0 bg-ink-800 border border-ink-700 rounded-2xl shadow-2xl overflow-hidden">
+    <p className="px-4 pt-3 pb-2 text-[11px] font-black uppercase tracking-widest text-ink-500">Link to note</p>
+    {suggestions.length === 0 ? (
+      <p className="px-4 pb-4 text-sm font-bold text-ink-400">
+        {query.trim() ? `No note called "${query.trim()}" yet. Close with ]] to link it anyway.` : 'Type a note title...'}
+      </p>
+    ) : suggestions.map((title, i) => (
+      <button 
+        key={title}
+        onClick={() => onPick(title)}
+        className={`w-full text-left px-4 py-3 flex items-center gap-3 text-sm font-bold transition-colors ${i === activeIndex ? 'bg-accent-600/20 text-accent-300' : 'text-ink-300 hover:bg-ink-700'}`}
+      >
+        <FileText size={16} className="shrink-0" />
+        <span className="truncate">{title}</span>
+      </button>
+    ))}
+  </div>
+);
+
+// --- BacklinksPanel Sub-Component ---
+
+const BacklinksPanel: React.FC<{ backlinks: Backlink[], onOpen: (id: string) => void }> = ({ backlinks, onOpen }) => (
+  <section className="pt-6 border-t-2 border-ink-900/50">
+    <h3 className="flex items-center gap-2 mb-3 text-[11px] font-black uppercase tracking-widest text-ink-500">
+      <FileSymlink size={14} />
+      Linked from {backlinks.length}
+    </h3>
+    <div className="space-y-2">
+      {backlinks.map(({ note, context }) => (
+        <button 
+          key={note.id}
+          onClick={() => onOpen(note.id)}
+          className="w-full text-left p-4 bg-ink-900/60 hover:bg-ink-800 border border-ink-800 rounded-2xl transition-all"
+        >
+          <p className="font-black text-ink-200 truncate">{note.title || 'Untitled'}</p>
+          {context && <p className="mt-1 text-xs font-bold text-ink-500 line-clamp-2">{context}</p>}
+        </button>
+      ))}
+    </div>
+  </section>
+);
+
+// --- AttachmentGrid Sub-Component ---
+
+interface AttachmentGridProps {
+  attachments: Attachment[];
+  onOpen: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const AttachmentGrid: React.FC<AttachmentGridProps> = ({ attachments, onOpen, onRemove }) => (
+  <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+    {attachments.map(attachment => (
+      <div key={attachment.id} className="relative group">
+        <button 
+          onClick={() => onOpen(attachment.id)}
+          className="relative w-full aspect-square rounded-2xl overflow-hidden border-2 border-ink-800 bg-ink-900/50 hover:border-accent-600 transition-all flex flex-col items-center justify-center gap-1 p-2"
+          title={`${attachment.name} · ${formatBytes(attachment.size)}`}
+        >
+          {attachment.thumbnail ? (
+            <img src={attachment.thumbnail} alt={attachment.name} draggable={false} className="absolute inset-0 w-full h-full object-cover" />
+          ) : (<>
+            <Paperclip size={22} className="text-ink-500" />
+            <span className="text-[11px] font-black text-accent-400">{fileLabel(attachment)}</span>
+            <span className="text-[10px] font-bold text-ink-500 truncate max-w-full">{attachment.name}</span>
+          </>)}
+        </button>
+        <button 
+          onClick={() => onRemove(attachment.id)}
+          className="absolute top-1.5 right-1.5 p-1 rounded-lg bg-ink-950/80 text-ink-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Remove"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+// --- AttachmentViewer Sub-Component ---
+
+interface AttachmentViewerProps {
+  noteId: string;
+  attachments: Attachment[];
+  initialId: string;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({ noteId, attachments, initialId, onRemove, onClose }) => {
+  const [index, setIndex] = useState(() => Math.max(0, attachments.findIndex(a => a.id === initialId)));
+  const [url, setUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading');
+  const attachment = attachments[Math.min(index, attachments.length - 1)];
+
+  // Full-size files are only read from storage while they are on screen
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setStatus('loading');
+    loadAttachment(noteId, attachment)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) return setStatus('missing');
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        setStatus('ready');
+      })
+      .catch(() => !cancelled && setStatus('missing'));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [noteId, attachment.id]);
+
+  const step = (delta: number) => setIndex(i => (i + delta + attachments.length) % attachments.length);
+
+  // Esc is left to the editor, which closes the viewer before the note
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft' && attachments.length > 1) step(-1);
+      else if (e.key === 'ArrowRight' && attachments.length > 1) step(1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [attachments.length]);
+
+  // Like most media viewers it stays dark in either theme, so it names fixed slate colors instead of the theme tokens
+  const iconButton = 'p-3 rounded-2xl text-slate-300 hover:bg-slate-800 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col">
+      <div className="px-4 py-4 flex items-center gap-3">
+        <div className="flex-1 min-w-0 px-2">
+          <p className="font-black text-white truncate">{attachment.name}</p>
+          <p className="text-xs text-slate-500 font-bold">
+            {formatBytes(attachment.size)}{attachments.length > 1 && ` · ${index + 1} of ${attachments.length}`}
+          </p>
+        </div>
+        {url && (
+          <a href={url} download={attachment.name} className={iconButton} title="Download">
+            <Download size={22} />
+          </a>
+        )}
+        <button onClick={() => onRemove(attachment.id)} className="p-3 rounded-2xl text-red-500 hover:bg-red-500/10 transition-all" title="Remove from note">
+          <Trash2 size={22} />
+        </button>
+        <button onClick={onClose} className={iconButton} title="Close">
+          <X size={22} />
+        </button>
+      </div>
+
+      <div className="flex-1 relative flex items-center justify-center px-4 pb-6 min-h-0">
+        {status === 'missing' ? (
+          <p className="text-slate-500 font-bold">This file could not be found on this device.</p>
+        ) : !url ? (
+          <RefreshCw size={28} className="text-slate-600 animate-spin" />
+        ) : isImage(attachment) ? (
+          <img src={url} alt={attachment.name} className="max-w-full max-h-full object-contain rounded-xl" />
+        ) : attachment.type === 'application/pdf' ? (
+          <iframe src={url} title={attachment.name} className="w-full h-full max-w-3xl rounded-xl bg-white" />
+        ) : attachment.type.startsWith('video/') ? (
+          <video src={url} controls className="max-w-full max-h-full rounded-xl" />
+        ) : attachment.type.startsWith('audio/') ? (
+          <audio src={url} controls />
+        ) : (
+          <div className="flex flex-col items-center gap-4 text-center">
+            <div className="w-24 h-24 rounded-3xl bg-slate-900 border-2 border-slate-800 flex items-center justify-center font-black text-accent-400">
+              {fileLabel(attachment)}
+            </div>
+            <p className="text-slate-500 font-bold">No preview for this type of file</p>
+            <a href={url} download={attachment.name} className="px-6 py-3 bg-accent-600 hover:bg-accent-700 text-white rounded-2xl text-sm font-black uppercase tracking-widest transition-all">
+              Download
+            </a>
+          </div>
+        )}
+        {attachments.length > 1 && (<>
+          <button onClick={() => step(-1)} className="absolute left-4 p-3 rounded-full bg-slate-900/80 text-white hover:bg-slate-800 transition-all" title="Previous">
+            <ChevronLeft size={24} />
+          </button>
+          <button onClick={() => step(1)} className="absolute right-4 p-3 rounded-full bg-slate-900/80 text-white hover:bg-slate-800 transition-all" title="Next">
+            <ChevronRight size={24} />
+          </button>
+        </>)}
+      </div>
+    </div>
+  );
+};
+
+// --- Snackbar Sub-Component ---
+
+interface SnackbarProps {
+  message: string;
+  onUndo?: () => void;
+  onDismiss: () => void;
+}
+
+const SNACKBAR_TIMEOUT_MS = 5000;
+
+const Snackbar: React.FC<SnackbarProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, SNACKBAR_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <div className="fixed bottom-32 left-1/2 -translate-x-1/2 w-[calc(100%-3rem)] max-w-md z-50 flex items-center justify-between gap-4 px-5 py-4 bg-ink-800 border border-ink-700 rounded-2xl shadow-2xl ring-1 ring-black/20">
+      <span className="text-sm font-bold text-ink-100">{message}</span>
+      {onUndo && (
+        <button 
+          onClick={() => { onUndo(); onDismiss(); }}
+          className="flex items-center gap-1.5 text-xs font-black uppercase tracking-widest text-accent-400 hover:text-accent-300"
+        >
+          <Undo2 size={16} strokeWidth={3} />
+          Undo
+        </button>
+      )}
+    </div>
+  );
+};
+
+// --- UpdatePrompt Sub-Component ---
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => (
+  <div className="fixed bottom-10 left-6 w-[calc(100%-9rem)] max-w-sm z-50 flex items-center gap-3 px-5 py-4 bg-ink-800 border border-ink-700 rounded-2xl shadow-2xl ring-1 ring-black/20">
+    <RefreshCw size={18} className="text-accent-400 shrink-0" strokeWidth={2.5} />
+    <span className="flex-1 text-sm font-bold text-ink-100">A new version is available</span>
+    <button 
+      onClick={onReload}
+      className="text-xs font-black uppercase tracking-widest text-accent-400 hover:text-accent-300"
+    >
+      Reload
+    </button>
+    <button onClick={onDismiss} className="p-1 rounded-lg text-ink-500 hover:bg-ink-700 transition-all" title="Later">
+      <X size={16} />
+    </button>
+  </div>
+);
+
+// --- NoteNotFound Sub-Component ---
+
+interface NoteNotFoundProps {
+  isTrashed: boolean;
+  onBack: () => void;
+  onOpenTrash: () => void;
+}
+
+const NoteNotFound: React.FC<NoteNotFoundProps> = ({ isTrashed, onBack, onOpenTrash }) => (
+  <div className="flex flex-col items-center justify-center h-screen max-w-2xl mx-auto px-8 text-center">
+    <div className="w-24 h-24 bg-ink-800/50 rounded-[2rem] flex items-center justify-center mb-6 shadow-sm border border-ink-800">
+      {isTrashed ? <Trash2 size={44} className="text-ink-600" strokeWidth={1.5} /> : <FileText size={44} className="text-ink-600" strokeWidth={1.5} />}
+    </div>
+    <h2 className="text-2xl font-black text-fg">{isTrashed ? 'This note is in the Trash' : 'Note not found'}</h2>
+    <p className="mt-2 text-sm text-ink-500 font-bold">
+      {isTrashed ? 'Restore it from the Trash to open it again.' : 'It may have been deleted, or the link is wrong.'}
+    </p>
+    <div className="mt-8 flex gap-3">
+      {isTrashed && (
+        <button onClick={onOpenTrash} className="px-6 py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-ink-300 border-2 border-ink-800 hover:bg-ink-800 transition-all">
+          Open Trash
+        </button>
+      )}
+      <button onClick={onBack} className="px-6 py-4 bg-accent-600 hover:bg-accent-700 text-white rounded-2xl text-sm font-black uppercase tracking-widest transition-all active:scale-95">
+        Back to Notes
+      </button>
+    </div>
+  </div>
+);
+
+// --- EditorView Sub-Component ---
+
+interface EditorViewProps {
+  note?: Note;
+  onUpdate: (updates: Partial<Note>) => void;
+  onBack: () => void;
+  onDelete: () => void;
+  onShare: () => void;
+  onExportAs: (format: ExportFormat) => void;
+  onSaveAsTemplate: () => void;
+  onTogglePin: () => void;
+  onRestoreRevision: (revision: Revision) => void;
+  /** Bumped whenever a revision is recorded, so the history panel reloads. */
+  revisionsSaved: number;
+  syncConflict: Note | null;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  noteLinks: NoteLinkHandlers;
+  suggestLinks: (query: string) => string[];
+  backlinks: Backlink[];
+  onOpenNote: (id: string) => void;
+  /** Called when the title loses focus after being changed, so links to the old title can be updated. */
+  onTitleRenamed: (from: string, to: string) => void;
+  onAddAttachments: (files: File[]) => void;
+  onRemoveAttachment: (id: string) => void;
+  allTags: string[];
+  allNotebooks: string[];
+}
+
+const EditorView: React.FC<EditorViewProps> = ({ 
+  note, onUpdate, onBack, onDelete, onShare, onExportAs, onSaveAsTemplate, onTogglePin, onRestoreRevision, revisionsSaved, syncConflict, onKeepMine, onUseTheirs,
+  noteLinks, suggestLinks, backlinks, onOpenNote, onTitleRenamed, onAddAttachments, onRemoveAttachment, allTags, allNotebooks 
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const attachInputRef = useRef<HTMLInputElement>(null);
+  const titleOnFocus = useRef<string | null>(null);
+  // The `[[link` being typed at the caret, and the highlighted suggestion
+  const [linkQuery, setLinkQuery] = useState<{ start: number, query: string } | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [showShareMenu, setShowShareMenu] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showReminder, setShowReminder] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [viewingAttachment, setViewingAttachment] = useState<string | null>(null);
+  // Selected range in the textarea, for the word counter; null when nothing is selected
+  const [selection, setSelection] = useState<[number, number] | null>(null);
+
+  // Esc closes whatever is open over the note first, then the note itself
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || e.defaultPrevented) return;
+      if (viewingAttachment) {
+        setViewingAttachment(null);
+      } else if (showShareMenu || showPalette || showReminder) {
+        setShowShareMenu(false);
+        setShowPalette(false);
+        setShowReminder(false);
+      } else if (showHistory) {
+        setShowHistory(false);
+      } else {
+        onBack();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const content = note?.content;
+  const selectionStats = useMemo(
+    () => (selection && content !== undefined ? countText(content.slice(...selection)) : null),
+    [selection, content]
+  );
+
+  if (!note) return null;
+
+  const applyEdit = (edit: (value: string, start: number, end: number) => EditResult) => {
+    const textarea = textareaRef.current;
+    if (!textarea || isPreview || showHistory) return;
+    const result = edit(note.content, textarea.selectionStart, textarea.selectionEnd);
+    onUpdate({ content: result.value });
+    // Restore the selection once React has committed the new value.
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const isChecklist = note.kind === 'checklist';
+
+  // Text becomes one item per line and checklists stay as task lines, so neither way drops words.
+  const handleToggleKind = () => {
+    if (isChecklist) onUpdate({ kind: 'text', content: checklistToText(parseChecklist(note.content)) });
+    else onUpdate({ kind: 'checklist', content: serializeChecklist(parseChecklist(note.content)) });
+  };
+
+  const formatInline = (format: InlineFormat) => applyEdit((v, s, e) => applyInlineFormat(v, s, e, format));
+  const formatLine = (format: LineFormat) => applyEdit((v, s, e) => applyLineFormat(v, s, e, format));
+
+  const handleInsertLink = () => {
+    const href = window.prompt('Link URL', 'https://');
+    if (!href || href === 'https://') return;
+    applyEdit((v, s, e) => insertLink(v, s, e, href));
+  };
+
+  const suggestions = linkQuery ? suggestLinks(linkQuery.query) : [];
+
+  const textStats = noteTextStats(note);
+
+  const updateLinkQuery = (textarea: HTMLTextAreaElement) => {
+    setSelection(textarea.selectionStart === textarea.selectionEnd ? null : [textarea.selectionStart, textarea.selectionEnd]);
+    const next = textarea.selectionStart === textarea.selectionEnd ? linkQueryAt(textarea.value, textarea.selectionStart) : null;
+    if (next?.query !== linkQuery?.query || next?.start !== linkQuery?.start) setActiveSuggestion(0);
+    setLinkQuery(next);
+  };
+
+  const handlePickLink = (title: string) => {
+    if (!linkQuery) return;
+    const { start } = linkQuery;
+    applyEdit((v, _s, e) => completeLink(v, start, e, title));
+    setLinkQuery(null);
+  };
+
+  const handleInsertNoteLink = () => {
+    applyEdit((v, s, e) => ({ value: v.slice(0, s) + '[[' + v.slice(e), selectionStart: s + 2, selectionEnd: s + 2 }));
+    requestAnimationFrame(() => textareaRef.current && updateLinkQuery(textareaRef.current));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (linkQuery && suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion((activeSuggestion + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handlePickLink(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+        return;
+      }
+    }
+    if (linkQuery && e.key === 'Escape') {
+      e.preventDefault();
+      setLinkQuery(null);
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const shortcuts: Record<string, InlineFormat> = { b: 'bold', i: 'italic', u: 'underline' };
+    const format = shortcuts[e.key.toLowerCase()];
+    if (format) {
+      e.preventDefault();
+      formatInline(format);
+    }
+  };
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    if (!showHistory) onAddAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  // Pasted text keeps its usual behavior; only a paste of files alone becomes attachments
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || e.clipboardData.types.includes('text/plain') || showHistory) return;
+    e.preventDefault();
+    onAddAttachments(files);
+  };
+
+  const attachments = note.attachments ?? [];
+  const viewing = attachments.find(a => a.id === viewingAttachment);
+
+  const toolButton = 'w-10 h-10 flex items-center justify-center hover:bg-ink-800 rounded-xl transition-all hover:shadow-md disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div 
+      className="relative flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-canvas"
+      onDragOver={(e) => { if (hasFiles(e)) { e.preventDefault(); setIsDraggingFiles(true); } }}
+      onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false); }}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
+    >
+      {isDraggingFiles && !showHistory && (
+        <div className="absolute inset-3 z-40 rounded-[2rem] border-4 border-dashed border-accent-600 bg-accent-600/10 backdrop-blur-sm flex flex-col items-center justify-center gap-3 pointer-events-none">
+          <Paperclip size={40} className="text-accent-400" />
+          <p className="font-black text-fg text-lg">Drop to attach</p>
+        </div>
+      )}
+      <nav className="px-4 py-4 flex items-center justify-between border-b-2 border-ink-900/50">
+        <button onClick={onBack} className="p-2.5 rounded-2xl hover:bg-ink-800 transition-all text-fg">
+          <ArrowLeft size={28} strokeWidth={2.5} />
+        </button>
+        <div className="flex items-center gap-2">
+          <button 
+            onClick={() => setShowHistory(!showHistory)}
+            className={`p-3 rounded-2xl transition-all ${showHistory ? 'text-accent-500 bg-accent-500/10 shadow-inner' : 'text-ink-300 hover:bg-ink-800'}`}
+            title="History"
+          >
+            <History size={24} />
+          </button>
+          <button 
+            onClick={() => setIsPreview(!isPreview)}
+            className={`p-3 rounded-2xl transition-all ${isPreview ? 'text-accent-500 bg-accent-500/10 shadow-inner' : 'text-ink-300 hover:bg-ink-800'}`}
+            title={isPreview ? 'Edit' : 'Preview'}
+          >
+            {isPreview ? <PenLine size={24} /> : <Eye size={24} />}
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onTogglePin(); }} 
+            className={`p-3 rounded-2xl transition-all ${note.isPinned ? 'text-accent-500 bg-accent-500/10 shadow-inner' : 'text-ink-500 hover:bg-ink-800'}`}
+          >
+            {note.isPinned ? <Pin size={24} fill="currentColor" /> : <PinOff size={24} />}
+          </button>
+          <div className="relative">
+            <button 
+              onClick={() => setShowReminder(!showReminder)} 
+              className={`p-3 rounded-2xl transition-all ${showReminder || note.reminder ? 'text-accent-500 bg-accent-500/10 shadow-inner' : 'text-ink-300 hover:bg-ink-800'}`}
+              title={note.reminder ? `Reminder: ${formatDue(note.reminder.dueAt)}` : 'Remind me'}
+            >
+              <Bell size={24} />
+            </button>
+            {showReminder && (
+              <ReminderPicker 
+                note={note}
+                onSave={(reminder) => { onUpdate({ reminder }); setShowReminder(false); }}
+              />
             )}
-          </button>
-          <div className="flex flex-col">
-            <p className="text-[10px] text-blue-400 font-black uppercase tracking-widest leading-none">My Workspace</p>
-            <h1 className="text-2xl font-black tracking-tight text-white leading-none mt-1">
-              {profile.name}
-            </h1>
           </div>
-        </div>
-        <div className="flex gap-2">
+          <div className="relative">
+            <button 
+              onClick={() => setShowPalette(!showPalette)} 
+              className={`p-3 rounded-2xl transition-all ${showPalette ? 'text-accent-500 bg-accent-500/10 shadow-inner' : 'text-ink-300 hover:bg-ink-800'}`}
+              title="Color"
+            >
+              <Palette size={24} />
+            </button>
+            {showPalette && (
+              <div className="absolute right-0 top-full mt-2 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 p-3 grid grid-cols-4 gap-2 ring-1 ring-black/20">
+                {COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => { onUpdate({ color }); setShowPalette(false); }}
+                    className={`w-9 h-9 rounded-full flex items-center justify-center border-2 transition-transform hover:scale-110 ${NOTE_COLOR_STYLES[color].swatch} ${normalizeColor(note.color) === color ? 'border-white' : 'border-transparent'}`}
+                    title={NOTE_COLOR_STYLES[color].label}
+                  >
+                    {normalizeColor(note.color) === color && <Check size={16} strokeWidth={3} className="text-white" />}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="relative">
             <button 
-              onClick={onSettingsClick}
-              className="p-3 bg-slate-800/50 rounded-2xl border border-slate-700 hover:bg-slate-800 transition-colors"
-              title="Settings"
+              onClick={() => setShowShareMenu(!showShareMenu)} 
+              className={`p-3 rounded-2xl transition-all ${showShareMenu ? 'text-accent-500 bg-accent-500/10 shadow-inner' : 'text-ink-300 hover:bg-ink-800'}`}
             >
-                <Settings size={20} className="text-slate-400" />
+              <Share2 size={24} />
             </button>
+            {showShareMenu && (
+              <div className="absolute right-0 top-full mt-2 w-60 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 py-2 overflow-hidden ring-1 ring-black/20">
+                {[
+                  { label: 'Share...', icon: <Share2 size={18} />, action: onShare },
+                  { label: 'Export as Markdown', icon: <FileDown size={18} />, action: () => onExportAs('md') },
+                  { label: 'Export as Plain Text', icon: <FileText size={18} />, action: () => onExportAs('txt') },
+                  { label: 'Export as HTML', icon: <FileCode size={18} />, action: () => onExportAs('html') },
+                  { label: 'Save as Template', icon: <LayoutTemplate size={18} />, action: onSaveAsTemplate },
+                ].map(item => (
+                  <button
+                    key={item.label}
+                    onClick={() => { item.action(); setShowShareMenu(false); }}
+                    className="w-full text-left px-4 py-3.5 hover:bg-ink-700 flex items-center gap-3 text-sm font-bold text-ink-300 transition-colors"
+                  >
+                    {item.icon}
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button onClick={onDelete} className="p-3 rounded-2xl hover:bg-red-500/10 transition-all text-red-500">
+            <Trash2 size={24} />
+          </button>
         </div>
-      </header>
+      </nav>
 
-      <div className="px-6 mb-6">
-        <div className="relative group">
-          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 group-focus-within:text-blue-500 transition-colors" size={20} />
-          <input 
-            type="text"
-            placeholder="Search your notes..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full bg-slate-800/50 backdrop-blur-md pl-12 pr-4 py-4 rounded-2xl shadow-sm border border-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-600 transition-all text-white placeholder:text-slate-500 font-bold"
-          />
+      <div className="flex-1 flex flex-col p-8 space-y-8 overflow-y-auto custom-scrollbar">
+        {syncConflict && (
+          <SyncConflictNotice theirs={syncConflict} onKeepMine={onKeepMine} onUseTheirs={onUseTheirs} />
+        )}
+        <input 
+          type="text"
+          placeholder="New Idea Title..."
+          value={note.title}
+          onChange={(e) => onUpdate({ title: e.target.value })}
+          onFocus={() => { titleOnFocus.current = note.title; }}
+          onBlur={() => {
+            if (titleOnFocus.current !== null && titleOnFocus.current !== note.title) onTitleRenamed(titleOnFocus.current, note.title);
+            titleOnFocus.current = null;
+          }}
+          className="w-full text-4xl font-black bg-transparent border-none focus:outline-none placeholder:text-ink-800 text-fg"
+        />
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[11px] text-ink-500 font-black uppercase tracking-widest pb-6 border-b-2 border-ink-900/50">
+          <span className="bg-ink-800 px-3 py-1 rounded-lg">Created {format(note.createdAt, 'MMM d, yyyy')}</span>
+          <span className="text-accent-500 font-black">Latest Update {format(note.lastModified, 'h:mm a')}</span>
+          <span className="ml-auto" aria-live="polite">
+            {selectionStats 
+              ? `${selectionStats.words.toLocaleString()} of ${textStats.words.toLocaleString()} words · ${selectionStats.characters.toLocaleString()} chars selected`
+              : `${textStats.words.toLocaleString()} words · ${textStats.characters.toLocaleString()} chars${textStats.words > 0 ? ` · ${readingMinutes(textStats.words)} min read` : ''}`}
+          </span>
         </div>
+        <NoteLabelsEditor 
+          note={note}
+          onUpdate={onUpdate}
+          allTags={allTags}
+          allNotebooks={allNotebooks}
+        />
+        {showHistory ? (
+          <HistoryPanel 
+            note={note}
+            revisionsSaved={revisionsSaved}
+            onRestore={(revision) => { onRestoreRevision(revision); setShowHistory(false); }}
+            onClose={() => setShowHistory(false)}
+          />
+        ) : isPreview ? (
+          <div className="flex-1 min-h-[300px] font-editor text-editor leading-relaxed text-ink-200 font-bold">
+            {note.content ? <MarkdownView source={note.content} links={noteLinks} /> : <span className="text-ink-700 italic">Nothing to preview yet...</span>}
+          </div>
+        ) : isChecklist ? (
+          <ChecklistEditor content={note.content} onChange={(content) => onUpdate({ content })} />
+        ) : (
+          <textarea 
+            ref={textareaRef}
+            placeholder="Start typing your story..."
+            value={note.content}
+            onChange={(e) => { onUpdate({ content: e.target.value }); updateLinkQuery(e.target); }}
+            onSelect={(e) => updateLinkQuery(e.currentTarget)}
+            onBlur={() => { setLinkQuery(null); setSelection(null); }}
+            onKeyDown={handleKeyDown}
+            className="w-full flex-1 bg-transparent border-none focus:outline-none resize-none font-editor text-editor leading-relaxed placeholder:text-ink-800 min-h-[300px] text-ink-200 font-bold"
+            autoFocus
+          />
+        )}
+        {!showHistory && attachments.length > 0 && (
+          <AttachmentGrid attachments={attachments} onOpen={setViewingAttachment} onRemove={onRemoveAttachment} />
+        )}
+        {!showHistory && backlinks.length > 0 && (
+          <BacklinksPanel backlinks={backlinks} onOpen={onOpenNote} />
+        )}
+        {linkQuery && !isPreview && !showHistory && !isChecklist && (
+          <LinkSuggestions 
+            query={linkQuery.query}
+            suggestions={suggestions}
+            activeIndex={activeSuggestion}
+            onPick={handlePickLink}
+          />
+        )}
       </div>
 
-      <div className="px-6 pb-3 flex items-center justify-between text-[11px] text-slate-400 font-black uppercase tracking-[0.1em]">
-        <span>{notes.length} {notes.length === 1 ? 'Note' : 'Notes'}</span>
-        <div className="relative">
-          <button 
-            onClick={() => setShowSortMenu(!showSortMenu)}
-            className="flex items-center gap-1.5 bg-slate-800 px-4 py-2 rounded-full shadow-sm border border-slate-700 hover:border-blue-600 transition-colors text-white"
-          >
-            <SortDesc size={14} />
-            {sortBy}
+      <div className="px-4 py-5 border-t-2 border-ink-900/50 flex items-center justify-between gap-2 text-ink-400 bg-ink-900/40 backdrop-blur-2xl">
+        <div className="flex items-center gap-0.5 overflow-x-auto custom-scrollbar">
+          <button onClick={handleToggleKind} disabled={showHistory} className={toolButton} title={isChecklist ? 'Convert to text' : 'Convert to checklist'}>
+            {isChecklist ? <TextAlignStart size={20} /> : <ListChecks size={20} />}
           </button>
-          
-          {showSortMenu && (
-            <div className="absolute right-0 top-full mt-2 w-52 bg-slate-800 rounded-2xl shadow-2xl border border-slate-700 z-50 py-2 overflow-hidden ring-1 ring-black/20">
-              {Object.values(SortOption).map(option => (
-                <button
-                  key={option}
-                  onClick={() => { setSortBy(option); setShowSortMenu(false); }}
-                  className={`w-full text-left px-4 py-3.5 hover:bg-slate-700 flex items-center justify-between text-sm transition-colors ${sortBy === option ? 'text-blue-400 font-black' : 'text-slate-300'}`}
-                >
-                  {option}
-                  {sortBy === option && <Check size={18} strokeWidth={3} />}
-                </button>
-              ))}
-            </div>
-          )}
+          <div className="w-px h-6 bg-ink-800 mx-1 shrink-0" />
+          {isChecklist ? (
+            <button 
+              onClick={() => onUpdate({ content: serializeChecklist(clearCompleted(parseChecklist(note.content))) })} 
+              disabled={isPreview || showHistory || !parseChecklist(note.content).some(item => item.checked)} 
+              className={toolButton} 
+              title="Clear completed"
+            >
+              <ListX size={20} />
+            </button>
+          ) : (<>
+            <button onClick={() => formatInline('bold')} disabled={isPreview || showHistory} className={`${toolButton} font-black text-xl`} title="Bold (Ctrl+B)">B</button>
+            <button onClick={() => formatInline('italic')} disabled={isPreview || showHistory} className={`${toolButton} italic text-xl`} title="Italic (Ctrl+I)">I</button>
+            <button onClick={() => formatInline('underline')} disabled={isPreview || showHistory} className={`${toolButton} underline text-xl`} title="Underline (Ctrl+U)">U</button>
+            <button onClick={() => formatLine('heading')} disabled={isPreview || showHistory} className={toolButton} title="Heading"><Heading size={20} /></button>
+            <button onClick={() => formatLine('bullet')} disabled={isPreview || showHistory} className={toolButton} title="Bulleted list"><List size={20} /></button>
+            <button onClick={() => formatLine('numbered')} disabled={isPreview || showHistory} className={toolButton} title="Numbered list"><ListOrdered size={20} /></button>
+            <button onClick={handleInsertLink} disabled={isPreview || showHistory} className={toolButton} title="Link"><Link size={20} /></button>
+            <button onClick={handleInsertNoteLink} disabled={isPreview || showHistory} className={toolButton} title="Link to note"><FileSymlink size={20} /></button>
+            <button onClick={() => formatInline('code')} disabled={isPreview || showHistory} className={toolButton} title="Inline code"><Code size={20} /></button>
+          </>)}
+          <div className="w-px h-6 bg-ink-800 mx-1 shrink-0" />
+          <button onClick={() => attachInputRef.current?.click()} disabled={showHistory} className={toolButton} title="Attach files">
+            <Paperclip size={20} />
+          </button>
+          <input 
+            type="file"
+            ref={attachInputRef}
+            className="hidden"
+            multiple
+            onChange={(e) => { onAddAttachments(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+          />
         </div>
+        <button onClick={onBack} className="shrink-0 px-6 py-4 bg-accent-600 hover:bg-accent-700 text-white rounded-2xl transition-all text-sm font-black uppercase tracking-widest shadow-xl shadow-accent-500/20 active:scale-95">Save & Close</button>
       </div>
 
-      <div className="flex-1 overflow-y-auto px-6 pt-2 pb-28 custom-scrollbar">
-        {notes.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center">
-            <div className="w-24 h-24 bg-slate-800/50 rounded-[2rem] flex items-center justify-center mb-6 shadow-sm border border-slate-800">
-                <Plus size={48} className="text-slate-700" strokeWidth={1.5} />
-            </div>
-            <p className="text-2xl font-black text-slate-500">Capture an idea</p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
-            {notes.map(note => (
-              <NoteCard 
-                key={note.id} 
-                note={note} 
-                onClick={() => onNoteClick(note.id)} 
-              />
-            ))}
-          </div>
-        )}
-      </div>
-
-      <button 
-        onClick={onCreate}
-        className="fixed bottom-10 right-8 w-16 h-16 bg-blue-600 hover:bg-blue-700 text-white rounded-[1.8rem] shadow-2xl shadow-blue-600/30 flex items-center justify-center transition-all hover:scale-110 active:scale-90 z-40"
-      >
-        <Plus size={36} strokeWidth={3} />
-      </button>
+      {viewing && (
+        <AttachmentViewer 
+          noteId={note.id}
+          attachments={attachments}
+          initialId={viewing.id}
+          onRemove={(id) => { setViewingAttachment(null); onRemoveAttachment(id); }}
+          onClose={() => setViewingAttachment(null)}
+        />
+      )}
     </div>
   );
 };
 
-const NoteCard: React.FC<{ note: Note, onClick: () => void }> = ({ note, onClick }) => {
+// --- ReminderPicker Sub-Component ---
+
+const toDateTimeInput = (time: number): string => format(time, "yyyy-MM-dd'T'HH:mm");
+
+// New reminders default to the top of the next hour.
+const defaultDueAt = (): number => {
+  const date = new Date(Date.now() + 3_600_000);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+};
+
+interface ReminderPickerProps {
+  note: Note;
+  onSave: (reminder: Note['reminder']) => void;
+}
+
+const ReminderPicker: React.FC<ReminderPickerProps> = ({ note, onSave }) => {
+  const [dueInput, setDueInput] = useState(toDateTimeInput(note.reminder?.dueAt ?? defaultDueAt()));
+  const [repeat, setRepeat] = useState<ReminderRepeat>(note.reminder?.repeat ?? 'none');
+  const dueAt = new Date(dueInput).getTime();
+  const isValid = Number.isFinite(dueAt);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    requestNotificationPermission();
+    onSave({ dueAt, repeat, notifiedAt: null });
+  };
+
   return (
-    <div 
-      onClick={onClick}
-      className="p-6 rounded-[1.5rem] border-2 border-slate-800 cursor-pointer transition-all hover:shadow-xl hover:-translate-y-1 bg-slate-800/40 backdrop-blur-sm shadow-sm hover:border-blue-600 relative group"
-    >
-      <div className="flex justify-between items-start mb-3">
-        <h3 className="font-black text-xl truncate pr-8 text-slate-50 leading-tight">
-          {note.title || <span className="text-slate-600 font-bold italic">Untitled</span>}
-        </h3>
-        {note.isPinned && (
-          <Pin size={18} className="text-blue-500 fill-blue-500 absolute top-6 right-6" />
-        )}
+    <div className="absolute right-0 top-full mt-2 w-72 bg-ink-800 rounded-2xl shadow-2xl border border-ink-700 z-50 p-4 space-y-4 ring-1 ring-black/20">
+      <label className="block space-y-2">
+        <span className="flex items-center gap-2 text-[11px] font-black text-ink-400 uppercase tracking-widest"><CalendarClock size={14} />Remind me at</span>
+        <input 
+          type="datetime-local"
+          value={dueInput}
+          onChange={(e) => setDueInput(e.target.value)}
+          className="w-full bg-ink-900 border-2 border-ink-700 focus:border-accent-600 rounded-xl px-3 py-2.5 text-sm font-bold text-fg focus:outline-none"
+        />
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(REPEAT_LABELS) as ReminderRepeat[]).map(option => (
+          <button 
+            key={option}
+            onClick={() => setRepeat(option)}
+            className={`px-3 py-1.5 rounded-full text-xs font-black border-2 transition-colors ${repeat === option ? 'bg-accent-600 border-accent-600 text-white' : 'border-ink-700 text-ink-400 hover:border-accent-600'}`}
+          >
+            {REPEAT_LABELS[option]}
+          </button>
+        ))}
       </div>
-      <p className="text-slate-400 text-sm line-clamp-3 mb-5 leading-relaxed font-bold">
-        {note.content || <span className="text-slate-600 italic font-normal">No details provided...</span>}
-      </p>
-      <div className="flex items-center gap-2 pt-3 border-t-2 border-slate-700/50">
-         <div className="w-2 h-2 rounded-full bg-blue-500"></div>
-         <div className="text-[11px] text-slate-500 font-black uppercase tracking-widest">
-            {format(note.lastModified, 'MMM d, h:mm a')}
-         </div>
+      <div className="flex gap-2">
+        {note.reminder && (
+          <button 
+            onClick={() => onSave(null)}
+            className="flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            <BellOff size={14} />Remove
+          </button>
+        )}
+        <button 
+          onClick={handleSave}
+          disabled={!isValid}
+          className="flex-1 py-2.5 bg-accent-600 hover:bg-accent-700 disabled:opacity-40 text-white rounded-xl text-xs font-black uppercase tracking-widest transition-all active:scale-95"
+        >
+          Set Reminder
+        </button>
       </div>
     </div>
   );
 };
 
-// --- SettingsView Sub-Component ---
+// --- ChecklistEditor Sub-Component ---
 
-interface SettingsViewProps {
-  onBack: () => void;
-  onExport: () => void;
-  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onClearAll: () => void;
+interface ChecklistEditorProps {
+  content: string;
+  onChange: (content: string) => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ onBack, onExport, onImport, onClearAll }) => {
-  const fileInputRef = useRef<HTMLInputElement>(null);
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ content, onChange }) => {
+  const items = useMemo(() => parseChecklist(content), [content]);
+  const [newItem, setNewItem] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+  // Row keys that follow items through inserts, removals and drags, so focus and typing stay on their row.
+  // Content changed elsewhere (another tab, an undo) can change the count; rows past the known keys get fresh ones.
+  const [keys, setKeys] = useState<string[]>(() => items.map(() => crypto.randomUUID()));
+  const rowKeys = keys.length === items.length ? keys : items.map((_, i) => keys[i] ?? `row-${i}`);
 
-  return (
-    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-[#020617]">
-      <nav className="p-6 flex items-center gap-6 border-b-2 border-slate-900/50">
-        <button onClick={onBack} className="p-3 rounded-2xl hover:bg-slate-800 transition-all text-white">
-          <ArrowLeft size={28} strokeWidth={2.5} />
-        </button>
-        <h2 className="text-2xl font-black text-white tracking-tight">Settings</h2>
-      </nav>
+  // Focus moves only after the new item list has rendered.
+  useEffect(() => {
+    if (focusIndex === null) return;
+    inputRefs.current[focusIndex]?.focus();
+    setFocusIndex(null);
+  }, [focusIndex, items]);
 
-      <div className="flex-1 p-8 space-y-6 overflow-y-auto custom-scrollbar">
-        <div className="space-y-4">
-          <h3 className="text-[11px] font-black text-blue-400 uppercase tracking-widest px-1">Data Management</h3>
-          
+  const commit = (next: ChecklistItem[], nextKeys = rowKeys) => {
+    setKeys(nextKeys);
+    onChange(serializeChecklist(next));
+  };
+
+  const without = (index: number) => rowKeys.filter((_, i) => i !== index);
+
+  const handleItemKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    const item = items[index];
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(insertItem(items, index + 1, { text: '', checked: false, indent: item.indent }), [...rowKeys.slice(0, index + 1), crypto.randomUUID(), ...rowKeys.slice(index + 1)]);
+      setFocusIndex(index + 1);
+    } else if (e.key === 'Backspace' && item.text === '') {
+      e.preventDefault();
+      commit(removeItem(items, index), without(index));
+      setFocusIndex(Math.max(0, index - 1));
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commit(updateItem(items, index, { indent: e.shiftKey ? 0 : 1 }));
+    }
+  };
+
+  const handleAddItem = () => {
+    if (!newItem.trim()) return;
+    commit([...items, { text: newItem.trim(), checked: false, indent: 0 }], [...rowKeys, crypto.randomUUID()]);
+    setNewItem('');
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      const moved = [...rowKeys];
+      moved.splice(index, 0, ...moved.splice(dragIndex, 1));
+      commit(moveItem(items, dragIndex, index), moved);
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="flex-1 min-h-[300px] space-y-1">
+      {items.map((item, i) => (
+        <div 
+          key={rowKeys[i]}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => handleDrop(i)}
+          className={`group flex items-center gap-2 rounded-xl pr-2 transition-colors ${item.indent ? 'ml-8' : ''} ${dragIndex === i ? 'opacity-40' : 'hover:bg-ink-900/60'}`}
+        >
+          <span 
+            draggable
+            onDragStart={() => setDragIndex(i)}
+            onDragEnd={() => setDragIndex(null)}
+            className="shrink-0 cursor-grab active:cursor-grabbing"
+            title="Drag to reorder"
+          >
+            <GripVertical size={18} className="text-ink-700" />
+          </span>
           <button 
-            onClick={onExport}
-            className="w-full flex items-center gap-4 p-6 bg-slate-900/50 border-2 border-slate-800 rounded-3xl hover:bg-slate-800 transition-all text-left group"
+            onClick={() => commit(updateItem(items, i, { checked: !item.checked }))}
+            className="shrink-0 p-1"
+            title={item.checked ? 'Mark as not done' : 'Mark as done'}
           >
-            <div className="p-3 bg-blue-500/10 rounded-2xl text-blue-500 group-hover:scale-110 transition-transform">
-              <Download size={24} />
-            </div>
-            <div>
-              <p className="font-black text-white">Backup Notes</p>
-              <p className="text-xs text-slate-500 font-bold">Download all notes as a JSON file</p>
-            </div>
+            {item.checked ? <SquareCheck size={24} className="text-accent-500" /> : <Square size={24} className="text-ink-500" />}
           </button>
-
+          <input 
+            ref={(el) => { inputRefs.current[i] = el; }}
+            type="text"
+            value={item.text}
+            onChange={(e) => commit(updateItem(items, i, { text: e.target.value }))}
+            onKeyDown={(e) => handleItemKeyDown(e, i)}
+            className={`flex-1 min-w-0 bg-transparent border-none focus:outline-none py-2 text-xl font-bold ${item.checked ? 'line-through text-ink-600' : 'text-ink-200'}`}
+          />
           <button 
-            onClick={() => fileInputRef.current?.click()}
-            className="w-full flex items-center gap-4 p-6 bg-slate-900/50 border-2 border-slate-800 rounded-3xl hover:bg-slate-800 transition-all text-left group"
+            onClick={() => commit(updateItem(items, i, { indent: item.indent ? 0 : 1 }))}
+            disabled={i === 0}
+            className="shrink-0 p-1.5 rounded-lg text-ink-600 hover:text-ink-300 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:hidden transition-opacity"
+            title={item.indent ? 'Outdent (Shift+Tab)' : 'Indent (Tab)'}
           >
-            <div className="p-3 bg-emerald-500/10 rounded-2xl text-emerald-500 group-hover:scale-110 transition-transform">
-              <Upload size={24} />
-            </div>
-            <div>
-              <p className="font-black text-white">Restore Backup</p>
-              <p className="text-xs text-slate-500 font-bold">Import notes from a backup file</p>
-            </div>
-            <input 
-              type="file" 
-              ref={fileInputRef} 
-              className="hidden" 
-              accept="application/json" 
-              onChange={onImport} 
-            />
+            {item.indent ? <ListIndentDecrease size={18} /> : <ListIndentIncrease size={18} />}
           </button>
-        </div>
-
-        <div className="space-y-4 pt-4">
-          <h3 className="text-[11px] font-black text-red-500 uppercase tracking-widest px-1">Danger Zone</h3>
-          
           <button 
-            onClick={() => onClearAll()}
-            className="w-full flex items-center gap-4 p-6 bg-red-500/5 border-2 border-red-500/20 rounded-3xl hover:bg-red-500/10 transition-all text-left group"
+            onClick={() => commit(removeItem(items, i), without(i))}
+            className="shrink-0 p-1.5 rounded-lg text-ink-600 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            title="Remove item"
           >
-            <div className="p-3 bg-red-500/10 rounded-2xl text-red-500 group-hover:scale-110 transition-transform">
-              <AlertTriangle size={24} />
-            </div>
-            <div>
-              <p className="font-black text-red-500">Clear All Data</p>
-              <p className="text-xs text-red-500/60 font-bold">Permanently delete everything</p>
-            </div>
+            <X size={18} />
           </button>
         </div>
-
-        <div className="pt-10 text-center">
-          <p className="text-[10px] text-slate-700 font-black uppercase tracking-widest">Notepad Pro v1.0.0</p>
-          <p className="text-[10px] text-slate-800 mt-1">Design with ❤️ for Mobile Experience</p>
-        </div>
+      ))}
+      <div className="flex items-center gap-2 pl-[26px]">
+        <Plus size={24} className="shrink-0 m-1 text-ink-600" />
+        <input 
+          type="text"
+          placeholder="Add an item..."
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAddItem(); }}
+          onBlur={handleAddItem}
+          className="flex-1 bg-transparent border-none focus:outline-none py-2 text-xl font-bold placeholder:text-ink-700 text-ink-200"
+          autoFocus={items.length === 0}
+        />
       </div>
     </div>
   );
 };
 
-// --- EditorView Sub-Component ---
+// --- NoteLabelsEditor Sub-Component ---
 
-interface EditorViewProps {
-  note?: Note;
+interface NoteLabelsEditorProps {
+  note: Note;
   onUpdate: (updates: Partial<Note>) => void;
-  onBack: () => void;
-  onDelete: () => void;
-  onShare: () => void;
-  onTogglePin: () => void;
+  allTags: string[];
+  allNotebooks: string[];
 }
 
-const EditorView: React.FC<EditorViewProps> = ({ note, onUpdate, onBack, onDelete, onShare, onTogglePin }) => {
-  if (!note) return null;
+const NoteLabelsEditor: React.FC<NoteLabelsEditorProps> = ({ note, onUpdate, allTags, allNotebooks }) => {
+  const [tagInput, setTagInput] = useState('');
+  // The notebook being typed; only saved on blur or Enter, so half-typed names never become notebooks
+  const [notebookInput, setNotebookInput] = useState<string | null>(null);
+  const tags = note.tags ?? [];
+  const suggestions = allTags.filter(t => !tags.includes(t));
 
-  return (
-    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-[#020617]">
-      <nav className="px-4 py-4 flex items-center justify-between border-b-2 border-slate-900/50">
-        <button onClick={onBack} className="p-2.5 rounded-2xl hover:bg-slate-800 transition-all text-white">
-          <ArrowLeft size={28} strokeWidth={2.5} />
-        </button>
-        <div className="flex items-center gap-2">
-          <button 
-            onClick={(e) => { e.stopPropagation(); onTogglePin(); }} 
-            className={`p-3 rounded-2xl transition-all ${note.isPinned ? 'text-blue-500 bg-blue-500/10 shadow-inner' : 'text-slate-500 hover:bg-slate-800'}`}
-          >
-            {note.isPinned ? <Pin size={24} fill="currentColor" /> : <PinOff size={24} />}
-          </button>
-          <button onClick={onShare} className="p-3 rounded-2xl hover:bg-slate-800 transition-all text-slate-300">
-            <Share2 size={24} />
-          </button>
-          <button onClick={onDelete} className="p-3 rounded-2xl hover:bg-red-500/10 transition-all text-red-500">
-            <Trash2 size={24} />
-          </button>
-        </div>
-      </nav>
+  const commitNotebook = () => {
+    if (notebookInput === null) return;
+    const notebook = normalizeNotebook(notebookInput) || null;
+    if (notebook !== (note.notebook ?? null)) onUpdate({ notebook });
+    setNotebookInput(null);
+  };
 
-      <div className="flex-1 flex flex-col p-8 space-y-8 overflow-y-auto custom-scrollbar">
+  const addTag = () => {
+    const next = mergeTags(tags, [tagInput]);
+    if (next.length !== tags.length) onUpdate({ tags: next });
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      onUpdate({ tags: tags.slice(0, -1) });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 -mt-4">
+      <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-ink-800/60 text-ink-300 focus-within:ring-2 focus-within:ring-accent-600">
+        <Folder size={14} className="text-ink-400" />
         <input 
           type="text"
-          placeholder="New Idea Title..."
-          value={note.title}
-          onChange={(e) => onUpdate({ title: e.target.value })}
-          className="w-full text-4xl font-black bg-transparent border-none focus:outline-none placeholder:text-slate-800 text-white"
+          list="notebook-options"
+          placeholder="Notebook"
+          value={notebookInput ?? note.notebook ?? ''}
+          onChange={(e) => setNotebookInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commitNotebook();
+            } else if (e.key === 'Escape' && notebookInput !== null) {
+              // Discards the typing without also closing the note
+              e.preventDefault();
+              setNotebookInput(null);
+            }
+          }}
+          onBlur={commitNotebook}
+          className="w-28 bg-transparent text-xs font-black focus:outline-none placeholder:text-ink-600"
         />
-        <div className="flex items-center gap-4 text-[11px] text-slate-500 font-black uppercase tracking-widest pb-6 border-b-2 border-slate-900/50">
-          <span className="bg-slate-800 px-3 py-1 rounded-lg">Created {format(note.createdAt, 'MMM d, yyyy')}</span>
-          <span className="text-blue-500 font-black">Latest Update {format(note.lastModified, 'h:mm a')}</span>
-        </div>
-        <textarea 
-          placeholder="Start typing your story..."
-          value={note.content}
-          onChange={(e) => onUpdate({ content: e.target.value })}
-          className="w-full flex-1 bg-transparent border-none focus:outline-none resize-none text-xl leading-relaxed placeholder:text-slate-800 min-h-[300px] text-slate-200 font-bold"
-          autoFocus
+        <datalist id="notebook-options">
+          {allNotebooks.map(nb => <option key={nb} value={nb} />)}
+        </datalist>
+      </label>
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-lg bg-accent-500/10 text-xs font-black text-accent-400">
+          #{tag}
+          <button onClick={() => onUpdate({ tags: tags.filter(t => t !== tag) })} className="p-0.5 rounded hover:bg-accent-500/20" title={`Remove #${tag}`}>
+            <X size={12} strokeWidth={3} />
+          </button>
+        </span>
+      ))}
+      <label className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-ink-500 focus-within:bg-ink-800/60">
+        <Tag size={14} />
+        <input 
+          type="text"
+          list="tag-options"
+          placeholder="Add tag"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={handleTagKeyDown}
+          onBlur={() => tagInput && addTag()}
+          className="w-24 bg-transparent text-xs font-black text-ink-200 focus:outline-none placeholder:text-ink-600"
         />
-      </div>
+        <datalist id="tag-options">
+          {suggestions.map(t => <option key={t} value={t} />)}
+        </datalist>
+      </label>
+    </div>
+  );
+};
+
+// --- HistoryPanel Sub-Component ---
+
+interface HistoryPanelProps {
+  note: Note;
+  revisionsSaved: number;
+  onRestore: (revision: Revision) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ note, revisionsSaved, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = revisions?.find(r => r.id === selectedId);
 
-      <div className="p-6 border-t-2 border-slate-900/50 flex items-center justify-around text-slate-400 bg-slate-900/40 backdrop-blur-2xl">
-        <button className="w-12 h-12 flex items-center justify-center hover:bg-slate-800 rounded-2xl transition-all font-black text-xl hover:shadow-md">B</button>
-        <button className="w-12 h-12 flex items-center justify-center hover:bg-slate-800 rounded-2xl transition-all italic text-xl hover:shadow-md">I</button>
-        <button className="w-12 h-12 flex items-center justify-center hover:bg-slate-800 rounded-2xl transition-all underline text-xl hover:shadow-md">U</button>
-        <button onClick={onBack} className="px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-2xl transition-all text-sm font-black uppercase tracking-widest shadow-xl shadow-blue-500/20 active:scale-95">Save & Close</button>
+  useEffect(() => {
+    loadRevisions(note.id)
+      .then(setRevisions)
+      .catch((e: StorageError) => setLoadError(e.message));
+  }, [note.id, revisionsSaved]);
+
+  const diff = useMemo(() => 
+    selected ? diffLines(note.content, selected.content) : [], 
+    [selected, note.content]
+  );
+
+  return (
+    <div className="flex-1 flex flex-col min-h-[300px] space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[11px] font-black text-accent-400 uppercase tracking-widest">Version History</h3>
+        <button onClick={onClose} className="p-2 rounded-xl text-ink-500 hover:bg-ink-800 transition-all" title="Close history">
+          <X size={18} />
+        </button>
       </div>
+
+      {loadError ? (
+        <p className="text-sm text-red-400 font-bold">{loadError}</p>
+      ) : revisions === null ? (
+        <p className="text-sm text-ink-600 font-bold">Loading history...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-ink-600 font-bold">No earlier versions yet. Versions are saved when you pause typing or leave the editor.</p>
+      ) : (
+        <div className="space-y-2">
+          {revisions.map(rev => (
+            <div key={rev.id} className={`rounded-2xl border-2 transition-colors ${selectedId === rev.id ? 'border-accent-600 bg-ink-900/60' : 'border-ink-800 bg-ink-900/30'}`}>
+              <button 
+                onClick={() => setSelectedId(selectedId === rev.id ? null : rev.id)}
+                className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-black text-ink-200">{format(rev.createdAt, 'MMM d, yyyy · h:mm:ss a')}</p>
+                  <p className="text-xs text-ink-500 font-bold truncate">
+                    {rev.restoredFrom ? `Restored from ${format(rev.restoredFrom, 'MMM d, h:mm a')}` : (rev.title || 'Untitled')}
+                  </p>
+                </div>
+                <span className="shrink-0 text-[10px] text-ink-500 font-black uppercase tracking-widest">{rev.content.length} chars</span>
+              </button>
+
+              {selectedId === rev.id && (
+                <div className="px-4 pb-4 space-y-3">
+                  {rev.title !== note.title && (
+                    <p className="text-xs font-bold text-ink-400">Title: <span className="line-through text-red-400/80">{note.title || 'Untitled'}</span> → <span className="text-emerald-400">{rev.title || 'Untitled'}</span></p>
+                  )}
+                  <div className="max-h-72 overflow-y-auto custom-scrollbar rounded-xl bg-ink-950 border border-ink-800 p-3 font-mono text-xs leading-relaxed">
+                    {diff.every(line => line.type === 'same') ? (
+                      <p className="text-ink-600">Content is identical to the current text.</p>
+                    ) : (
+                      diff.map((line, i) => (
+                        <div 
+                          key={i} 
+                          className={`whitespace-pre-wrap break-words px-2 ${line.type === 'added' ? 'bg-emerald-500/10 text-emerald-300' : line.type === 'removed' ? 'bg-red-500/10 text-red-300 line-through' : 'text-ink-500'}`}
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                  <p className="text-[10px] text-ink-600 font-black uppercase tracking-widest">Red lines are removed and green lines added if you restore</p>
+                  <button 
+                    onClick={() => onRestore(rev)}
+                    className="w-full flex items-center justify-center gap-2 py-3 bg-accent-600 hover:bg-accent-700 text-white rounded-xl text-xs font-black uppercase tracking-widest transition-all active:scale-95"
+                  >
+                    <RotateCcw size={16} />
+                    Restore this version
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -518,10 +4908,25 @@ interface ProfileViewProps {
   profile: UserProfile;
   setProfile: React.Dispatch<React.SetStateAction<UserProfile>>;
   onBack: () => void;
+  isEncrypted: boolean;
+  isSyncEnabled: boolean;
+  workspaces: Workspace[];
+  currentWorkspaceId: string;
+  onSwitchWorkspace: (id: string) => void;
+  onCreateWorkspace: () => void;
+  onRenameWorkspace: (id: string) => void;
+  onDeleteWorkspace: (id: string) => void;
+  onOpenStats: () => void;
 }
 
-const ProfileView: React.FC<ProfileViewProps> = ({ profile, setProfile, onBack }) => {
+const ProfileView: React.FC<ProfileViewProps> = ({ 
+  profile, setProfile, onBack, isEncrypted, isSyncEnabled,
+  workspaces, currentWorkspaceId, onSwitchWorkspace, onCreateWorkspace, onRenameWorkspace, onDeleteWorkspace, onOpenStats 
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const syncNote = isSyncEnabled
+    ? 'Notes and their attachments sync only to the WebDAV server you connected, where they are stored unencrypted.'
+    : 'We never sync your data to the cloud.';
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -535,26 +4940,26 @@ const ProfileView: React.FC<ProfileViewProps> = ({ profile, setProfile, onBack }
   };
 
   return (
-    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-[#020617]">
-      <nav className="p-6 flex items-center gap-6 border-b-2 border-slate-900/50">
-        <button onClick={onBack} className="p-3 rounded-2xl hover:bg-slate-800 transition-all text-white">
+    <div className="flex flex-col h-screen max-w-2xl mx-auto overflow-hidden bg-canvas">
+      <nav className="p-6 flex items-center gap-6 border-b-2 border-ink-900/50">
+        <button onClick={onBack} className="p-3 rounded-2xl hover:bg-ink-800 transition-all text-fg">
           <ArrowLeft size={28} strokeWidth={2.5} />
         </button>
-        <h2 className="text-2xl font-black text-white tracking-tight">Identity Settings</h2>
+        <h2 className="text-2xl font-black text-fg tracking-tight">Identity Settings</h2>
       </nav>
 
-      <div className="flex-1 p-8 flex flex-col items-center">
-        <div className="relative mb-14">
-          <div className="w-44 h-44 rounded-[2.5rem] overflow-hidden bg-slate-900 border-4 border-slate-800 shadow-2xl flex items-center justify-center transition-all hover:scale-105 duration-500">
+      <div className="flex-1 p-8 flex flex-col items-center overflow-y-auto custom-scrollbar">
+        <div className="relative mb-14 shrink-0">
+          <div className="w-44 h-44 rounded-[2.5rem] overflow-hidden bg-ink-900 border-4 border-ink-800 shadow-2xl flex items-center justify-center transition-all hover:scale-105 duration-500">
             {profile.avatar ? (
               <img src={profile.avatar} alt="Profile" className="w-full h-full object-cover" />
             ) : (
-              <User size={100} className="text-blue-500/20" strokeWidth={1} />
+              <User size={100} className="text-accent-500/20" strokeWidth={1} />
             )}
           </div>
           <button 
             onClick={() => fileInputRef.current?.click()}
-            className="absolute -bottom-4 -right-4 p-5 bg-blue-600 text-white rounded-[1.5rem] shadow-2xl hover:bg-blue-700 transition-all active:scale-90 border-4 border-[#020617]"
+            className="absolute -bottom-4 -right-4 p-5 bg-accent-600 text-white rounded-[1.5rem] shadow-2xl hover:bg-accent-700 transition-all active:scale-90 border-4 border-canvas"
           >
             <Camera size={28} />
           </button>
@@ -567,27 +4972,93 @@ const ProfileView: React.FC<ProfileViewProps> = ({ profile, setProfile, onBack }
           />
         </div>
 
-        <div className="w-full space-y-10">
+        <div className="w-full space-y-10 mb-10">
           <div className="space-y-4">
-            <label className="block text-xs font-black text-blue-400 uppercase tracking-[0.2em] px-1">Display Name</label>
+            <label className="block text-xs font-black text-accent-400 uppercase tracking-[0.2em] px-1">Display Name</label>
             <input 
               type="text"
               placeholder="Enter your name..."
               value={profile.name}
               onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
-              className="w-full bg-slate-900/50 p-7 rounded-[1.5rem] border-2 border-slate-800 focus:outline-none focus:ring-4 focus:ring-blue-600/10 text-white text-3xl font-black transition-all placeholder:text-slate-700 shadow-sm"
+              className="w-full bg-ink-900/50 p-7 rounded-[1.5rem] border-2 border-ink-800 focus:outline-none focus:ring-4 focus:ring-accent-600/10 text-fg text-3xl font-black transition-all placeholder:text-ink-700 shadow-sm"
             />
           </div>
+
+          <button 
+            onClick={onOpenStats}
+            className="w-full flex items-center gap-4 p-6 bg-ink-900/50 border-2 border-ink-800 rounded-[1.5rem] hover:bg-ink-800 transition-all text-left group"
+          >
+            <div className="p-3 bg-accent-500/10 rounded-2xl text-accent-500 group-hover:scale-110 transition-transform">
+              <ChartColumn size={24} />
+            </div>
+            <div className="flex-1">
+              <p className="font-black text-fg">Writing Statistics</p>
+              <p className="text-xs text-ink-500 font-bold">Word counts, streaks and activity in this workspace</p>
+            </div>
+          </button>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between px-1">
+              <label className="block text-xs font-black text-accent-400 uppercase tracking-[0.2em]">Workspaces</label>
+              <button 
+                onClick={onCreateWorkspace}
+                className="flex items-center gap-1.5 text-xs font-black text-ink-400 uppercase tracking-widest hover:text-fg transition-colors"
+              >
+                <Plus size={14} strokeWidth={3} />
+                New
+              </button>
+            </div>
+            <p className="text-sm text-ink-500 font-bold px-1 leading-relaxed">
+              Each workspace keeps its own notes, profile and settings. Backups, imports and "Clear All Data" only affect the one you're in.
+            </p>
+            <div className="bg-ink-900/50 rounded-[1.5rem] border-2 border-ink-800 divide-y divide-ink-800 overflow-hidden">
+              {workspaces.map(w => (
+                <div key={w.id} className="flex items-center gap-2 p-2 pl-5">
+                  <button 
+                    onClick={() => onSwitchWorkspace(w.id)}
+                    disabled={w.id === currentWorkspaceId}
+                    className="flex-1 min-w-0 flex items-center gap-3 py-3 text-left"
+                  >
+                    <Layers size={18} className={w.id === currentWorkspaceId ? 'text-accent-400' : 'text-ink-600'} />
+                    <span className={`truncate font-black ${w.id === currentWorkspaceId ? 'text-fg' : 'text-ink-400 hover:text-fg'}`}>{w.name}</span>
+                    {w.id === currentWorkspaceId && (
+                      <span className="shrink-0 text-[10px] text-accent-400 font-black uppercase tracking-widest">Current</span>
+                    )}
+                  </button>
+                  <button 
+                    onClick={() => onRenameWorkspace(w.id)}
+                    className="p-3 rounded-xl text-ink-500 hover:text-fg hover:bg-ink-800 transition-colors"
+                    title="Rename workspace"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  {workspaces.length > 1 && (
+                    <button 
+                      onClick={() => onDeleteWorkspace(w.id)}
+                      className="p-3 rounded-xl text-ink-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                      title="Delete workspace"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
           
-          <div className="p-8 bg-blue-900/20 rounded-[2rem] border-2 border-blue-900/30">
-            <h4 className="text-lg font-black text-blue-300 mb-2 uppercase tracking-tight">Private & Encrypted</h4>
-            <p className="text-sm text-blue-400/60 leading-relaxed font-bold">Your identity is stored locally. We never sync your data to the cloud. Your thoughts are yours alone.</p>
+          <div className="p-8 bg-accent-900/20 rounded-[2rem] border-2 border-accent-900/30">
+            <h4 className="text-lg font-black text-accent-300 mb-2 uppercase tracking-tight">{isEncrypted ? 'Private & Encrypted' : 'Private'}</h4>
+            <p className="text-sm text-accent-400/60 leading-relaxed font-bold">
+              {isEncrypted 
+                ? `Your notes are encrypted on this device with your App Lock passphrase. ${syncNote} Your thoughts are yours alone.` 
+                : `Your identity is stored locally. ${syncNote} Turn on App Lock in Settings to encrypt your notes.`}
+            </p>
           </div>
         </div>
 
         <button 
           onClick={onBack}
-          className="mt-auto w-full py-6 bg-white text-black rounded-[1.8rem] font-black text-xl shadow-[0_20px_40px_rgba(0,0,0,0.5)] transition-all active:scale-95"
+          className="mt-auto w-full py-6 bg-fg text-canvas rounded-[1.8rem] font-black text-xl shadow-[0_20px_40px_rgba(0,0,0,0.5)] transition-all active:scale-95"
         >
           Update Profile
         </button>
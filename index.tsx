@@ -2,6 +2,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { DEFAULT_SETTINGS } from './types';
+import { restoreAppearance } from './utils/theme';
+
+// Before the first render, so the app doesn't flash the default theme while settings load.
+restoreAppearance(DEFAULT_SETTINGS);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,77 @@
+// Offline support for the built app. vite.config.ts fills in the build's file list and
+// version and emits this as /sw.js; it is not used by the dev server.
+
+const VERSION = self.__BUILD_VERSION__;
+const PRECACHE_URLS = self.__PRECACHE_URLS__;
+// Tailwind and the Inter stylesheet, which index.html loads from their CDNs.
+const CDN_URLS = self.__CDN_URLS__;
+
+const PRECACHE = `notepad-pro-${VERSION}`;
+// CDN scripts, styles and fonts, kept across versions and refreshed in the background.
+const RUNTIME_CACHE = 'notepad-pro-runtime';
+
+// Fetched at install so the first launch without a connection is styled too. The font files are
+// only known once the stylesheet is read. Best effort: if a CDN is down the runtime cache fills in later.
+const precacheCdn = async () => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const store = async (url) => {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return;
+    await cache.put(url, response.clone());
+    if ((response.headers.get('content-type') || '').includes('text/css')) {
+      const css = await response.text();
+      const fonts = [...css.matchAll(/url\((['"]?)(https:[^'")]+)\1\)/g)].map((match) => match[2]);
+      await Promise.all(fonts.map(store));
+    }
+  };
+  await Promise.all(CDN_URLS.map((url) => store(url).catch(() => {})));
+};
+
+self.addEventListener('install', (event) => {
+  // No skipWaiting here: the page asks first, so an open editor isn't swapped out mid-edit.
+  event.waitUntil(Promise.all([caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS)), precacheCdn()]));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== PRECACHE && key !== RUNTIME_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Sync requests ask for no-store; a cached copy of the server's index would hide new changes.
+  if (request.method !== 'GET' || request.cache === 'no-store') return;
+  const url = new URL(request.url);
+
+  // Every route (/notes/:id, /settings, /share, ...) is served by the app shell.
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match('/').then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  event.respondWith(staleWhileRevalidate(request));
+});
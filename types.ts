@@ -1,12 +1,123 @@
 
+export type NoteKind = 'text' | 'checklist';
+
 export interface Note {
   id: string;
   title: string;
+  /** Absent on notes created before checklists, which are all `text`. */
+  kind?: NoteKind;
+  /**
+   * Note body as lightweight Markdown: `**bold**`, `*italic*`, `++underline++`,
+   * `` `code` ``, `[text](url)`, `[[Note Title]]` links, `#`–`###` headings, `-` / `1.` lists and `- [ ]` tasks.
+   * Plain text is valid Markdown, so notes saved before formatting existed load unchanged.
+   * Checklist notes keep their items here as task lines (see `utils/checklist.ts`).
+   */
   content: string;
   isPinned: boolean;
   createdAt: number;
   lastModified: number;
-  color?: string;
+  color?: NoteColor;
+  /** Normalized tag names (see `normalizeTag`); absent on notes created before tagging. */
+  tags?: string[];
+  notebook?: string | null;
+  /** Set when the note is moved to the Trash; absent or null for live notes. */
+  deletedAt?: number | null;
+  reminder?: Reminder | null;
+  /** Files attached to the note. Only this metadata lives on the note; the bytes are stored separately. */
+  attachments?: Attachment[];
+}
+
+export interface Attachment {
+  id: string;
+  name: string;
+  /** MIME type, e.g. `image/jpeg` or `application/pdf`. */
+  type: string;
+  /** Size in bytes of the stored file, after any downscaling. */
+  size: number;
+  createdAt: number;
+  /** Small JPEG data URL for images, shown on cards and in the editor. */
+  thumbnail?: string;
+}
+
+export type ReminderRepeat = 'none' | 'daily' | 'weekly' | 'monthly';
+
+export interface Reminder {
+  dueAt: number;
+  repeat: ReminderRepeat;
+  /** The `dueAt` that has already been announced, so a reload doesn't alert twice. */
+  notifiedAt?: number | null;
+}
+
+/** A reusable note skeleton. `{{placeholders}}` in the title and content are filled in on creation (see `utils/templates.ts`). */
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  title: string;
+  content: string;
+  kind?: NoteKind;
+  createdAt: number;
+}
+
+export interface Revision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  /** Timestamp of the revision this one was restored from, if it came from a rollback. */
+  restoredFrom?: number;
+}
+
+export interface EncryptedPayload {
+  /** Base64 AES-GCM nonce. */
+  iv: string;
+  /** Base64 ciphertext, including the GCM auth tag. */
+  data: string;
+}
+
+/** Binary counterpart of `EncryptedPayload`, kept as raw bytes since IndexedDB stores them directly. */
+export interface EncryptedBytes {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/** Stored when App Lock is on. Holds what is needed to re-derive and check the key, never the key itself. */
+export interface LockConfig {
+  salt: string;
+  iterations: number;
+  verifier: EncryptedPayload;
+}
+
+/** Sync backends; each has an adapter registered in `App.tsx`. */
+export type SyncProvider = 'webdav';
+
+export interface SyncConfig {
+  provider: SyncProvider;
+  /** The server folder that holds this workspace's notes. */
+  url: string;
+  username: string;
+  password: string;
+}
+
+/** Stored while sync is on. */
+export interface SyncState {
+  config: SyncConfig;
+  /** The server's change counter as of the last pull. */
+  cursor: number;
+  /** Notes changed or deleted on this device and not yet pushed, with when that happened. */
+  pending: Record<string, number>;
+  /** The `lastModified` of each note's server version as of the last sync, to tell remote changes from echoes of our own. */
+  versions: Record<string, number>;
+  lastSyncedAt: number | null;
+}
+
+/** A note as the sync server holds it: its latest version, or a tombstone once it is deleted for good. */
+export interface SyncRecord {
+  id: string;
+  /** When this version was made, on the device that made it. */
+  lastModified: number;
+  deleted?: boolean;
+  note?: Note;
 }
 
 export interface UserProfile {
@@ -14,21 +125,78 @@ export interface UserProfile {
   avatar: string | null;
 }
 
+/** A separate set of notes, profile and settings on this device, with its own database. */
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
 export enum SortOption {
   CREATED_DESC = 'Created (Newest)',
   CREATED_ASC = 'Created (Oldest)',
   MODIFIED_DESC = 'Modified (Recent)',
   TITLE_ASC = 'A-Z',
+  DUE_ASC = 'Due Date',
+}
+
+/** `system` follows the device's `prefers-color-scheme`. */
+export type ThemeMode = 'light' | 'dark' | 'system';
+export type AccentColor = 'blue' | 'violet' | 'emerald' | 'rose' | 'amber';
+export type EditorFont = 'sans' | 'serif' | 'mono';
+export type ListDensity = 'grid' | 'compact';
+/** When automatic snapshots are taken; `daily` means at most one a day, checked while the app is open. */
+export type BackupSchedule = 'off' | 'startup' | 'daily';
+
+export interface AppSettings {
+  /** Days a trashed note is kept before it is purged; 0 keeps it until removed by hand. */
+  trashRetentionDays: number;
+  /** Minutes of inactivity before App Lock re-locks; 0 disables auto-lock. */
+  autoLockMinutes: number;
+  theme: ThemeMode;
+  accentColor: AccentColor;
+  editorFont: EditorFont;
+  /** Editor and preview text size in pixels. */
+  editorFontSize: number;
+  listDensity: ListDensity;
+  backupSchedule: BackupSchedule;
+  /** Snapshots kept before the oldest is deleted. */
+  backupsToKeep: number;
 }
 
-export type ViewState = 'list' | 'editor' | 'profile' | 'settings';
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  autoLockMinutes: 5,
+  theme: 'dark',
+  accentColor: 'blue',
+  editorFont: 'sans',
+  editorFontSize: 20,
+  listDensity: 'grid',
+  backupSchedule: 'daily',
+  backupsToKeep: 7,
+};
+
+export type SnapshotReason = 'automatic' | 'before-clear' | 'before-restore';
+
+/** A local snapshot of a workspace's notes and profile. Listing them doesn't read their notes. */
+export interface Snapshot {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  /** Notes outside the Trash. */
+  noteCount: number;
+  /** Taken with App Lock on; opening it takes the passphrase of the time if it has changed since. */
+  isEncrypted: boolean;
+}
+
+export interface SnapshotData {
+  notes: Note[];
+  profile: UserProfile;
+}
+
+export type ViewState = 'list' | 'editor' | 'profile' | 'settings' | 'trash' | 'stats';
+
+/** Theme-independent color names; `utils/colors.ts` maps each to the classes that render it. */
+export type NoteColor = 'default' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink';
 
-export const COLORS = [
-  'bg-white',
-  'bg-red-50',
-  'bg-blue-50',
-  'bg-green-50',
-  'bg-yellow-50',
-  'bg-purple-50',
-  'bg-pink-50'
-];
+export const COLORS: NoteColor[] = ['default', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink'];
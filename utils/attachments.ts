@@ -0,0 +1,144 @@
+
+import { Attachment, Note } from '../types';
+
+/** Larger files are refused outright; storage quotas on phones are small. */
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Photos are scaled down to fit this many pixels on their longer side.
+const MAX_IMAGE_DIMENSION = 2048;
+const IMAGE_QUALITY = 0.85;
+
+// Twice the size cards show them at, for high-density screens.
+const THUMBNAIL_DIMENSION = 240;
+const THUMBNAIL_QUALITY = 0.7;
+// Fills transparent areas, which JPEG can't keep, with the card background.
+const THUMBNAIL_BACKGROUND = '#1e293b';
+
+// GIFs would lose their animation and SVGs their sharpness, so only these are re-encoded.
+const SCALABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+export const isImage = (attachment: Pick<Attachment, 'type'>): boolean => attachment.type.startsWith('image/');
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+};
+
+/** The file extension in upper case, for tiles without a thumbnail. */
+export const fileLabel = (attachment: Pick<Attachment, 'name'>): string => {
+  const dot = attachment.name.lastIndexOf('.');
+  return dot > 0 ? attachment.name.slice(dot + 1).toUpperCase().slice(0, 4) : 'FILE';
+};
+
+const drawScaled = (image: ImageBitmap, maxDimension: number, background?: string): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d')!;
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), type, quality);
+  });
+
+const withExtension = (name: string, ext: string): string => {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name || 'image'}.${ext}`;
+};
+
+/**
+ * Turns a dropped or pasted file into an attachment and the bytes to store. Large photos are
+ * downscaled, PNGs stay PNG so transparency survives, and other images are kept as they are.
+ */
+export const prepareAttachment = async (file: File, now: number): Promise<{ attachment: Attachment, blob: Blob }> => {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}.`);
+  }
+  let blob: Blob = file;
+  let name = file.name || 'Pasted file';
+  let thumbnail: string | undefined;
+
+  if (file.type.startsWith('image/')) {
+    try {
+      const image = await createImageBitmap(file);
+      if (SCALABLE_TYPES.includes(file.type) && Math.max(image.width, image.height) > MAX_IMAGE_DIMENSION) {
+        const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+        blob = await canvasToBlob(drawScaled(image, MAX_IMAGE_DIMENSION), type, IMAGE_QUALITY);
+        if (type !== file.type) name = withExtension(name, 'jpg');
+      }
+      thumbnail = drawScaled(image, THUMBNAIL_DIMENSION, THUMBNAIL_BACKGROUND).toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+      image.close();
+    } catch (e) {
+      // Formats the browser can't decode are still attached, just without a preview.
+    }
+  }
+
+  return {
+    attachment: {
+      id: crypto.randomUUID(),
+      name,
+      type: blob.type || 'application/octet-stream',
+      size: blob.size,
+      createdAt: now,
+      ...(thumbnail && { thumbnail }),
+    },
+    blob,
+  };
+};
+
+export interface AttachmentUsage {
+  note: Note;
+  count: number;
+  bytes: number;
+}
+
+export interface AttachmentSummary {
+  total: number;
+  count: number;
+  notes: AttachmentUsage[];
+}
+
+/** Space used by each note's attachments, largest first, plus the overall total. Includes the Trash. */
+export const attachmentUsage = (notes: Note[]): AttachmentSummary => {
+  const usage = notes
+    .filter(n => n.attachments?.length)
+    .map(note => ({ note, count: note.attachments!.length, bytes: note.attachments!.reduce((sum, a) => sum + a.size, 0) }))
+    .sort((a, b) => b.bytes - a.bytes);
+  return {
+    total: usage.reduce((sum, u) => sum + u.bytes, 0),
+    count: usage.reduce((sum, u) => sum + u.count, 0),
+    notes: usage,
+  };
+};
+
+// Backups are JSON, so file contents travel as base64.
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large files don't overflow the argument limit of `fromCharCode`.
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const BASE64_RE = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/** Whether `data` decodes with `base64ToBlob`, which throws on anything else. */
+export const isBase64 = (data: string): boolean => data.length % 4 === 0 && BASE64_RE.test(data);
+
+export const base64ToBlob = (data: string, type: string): Blob =>
+  new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type });
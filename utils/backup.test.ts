@@ -0,0 +1,69 @@
+
+import { describe, it, expect } from 'vitest';
+import { parseBackup } from './backup';
+
+const rawNote = (id: string, changes: Record<string, unknown> = {}) =>
+  ({ id, title: `Note ${id}`, content: 'Body', isPinned: false, createdAt: 1000, lastModified: 2000, ...changes });
+
+const backupFile = (changes: Record<string, unknown> = {}) =>
+  ({ app: 'notepad-pro', version: 3, exportedAt: 3000, notes: [rawNote('a')], ...changes });
+
+const attachment = (id: string) => ({ id, name: `${id}.png`, type: 'image/png', size: 3, createdAt: 1000 });
+
+describe('parseBackup', () => {
+  it('reads a backup file with its profile', () => {
+    const result = parseBackup(backupFile({ profile: { name: 'Sam', avatar: null } }), 'backup.json');
+    expect(result.notes.map(n => n.id)).toEqual(['a']);
+    expect(result.rejected).toEqual([]);
+    expect(result.profile).toEqual({ name: 'Sam', avatar: null });
+  });
+
+  it('still accepts version 1 backups, which were a bare list of notes', () => {
+    const result = parseBackup([rawNote('a'), rawNote('b')], 'old.json');
+    expect(result.notes.map(n => n.id)).toEqual(['a', 'b']);
+    expect(result.profile).toBeNull();
+  });
+
+  it('rejects files that are not backups at all', () => {
+    expect(() => parseBackup({ hello: 'world' }, 'other.json')).toThrow('not a Notepad Pro backup');
+    expect(() => parseBackup('text', 'other.json')).toThrow();
+  });
+
+  it('refuses backups from a newer version of the app', () => {
+    expect(() => parseBackup(backupFile({ version: 99 }), 'new.json')).toThrow('newer version');
+  });
+
+  it('reports bad entries and keeps the rest', () => {
+    const result = parseBackup([rawNote('a'), { title: 'No id' }, rawNote('c', { createdAt: 'yesterday' }), 42], 'mixed.json');
+    expect(result.notes.map(n => n.id)).toEqual(['a']);
+    expect(result.rejected).toEqual([
+      { source: 'mixed.json #2', title: 'No id', reason: 'Missing id' },
+      { source: 'mixed.json #3', title: 'Note c', reason: 'Invalid creation date' },
+      { source: 'mixed.json #4', title: '', reason: 'Not a note object' },
+    ]);
+  });
+
+  it('normalizes what it keeps', () => {
+    const [note] = parseBackup([rawNote('a', { color: 'bg-blue-50', tags: ['Work', 'work'], notebook: '  Ideas ', reminder: 'soon' })], 'a.json').notes;
+    expect(note.color).toBe('blue');
+    expect(note.tags).toEqual(['work']);
+    expect(note.notebook).toBe('Ideas');
+    expect(note.reminder).toBeNull();
+  });
+
+  it('keeps only attachments whose bytes are in the file and valid base64', () => {
+    const notes = [rawNote('a', { attachments: [attachment('good'), attachment('bad'), attachment('absent')] })];
+    const result = parseBackup(backupFile({
+      notes,
+      attachments: [{ id: 'good', data: 'aGk=' }, { id: 'bad', data: 'not base64!' }],
+    }), 'backup.json');
+
+    expect(result.notes[0].attachments?.map(a => a.id)).toEqual(['good']);
+    expect([...result.attachments.keys()]).toEqual(['good']);
+  });
+
+  it('drops the attachment list from notes left with none', () => {
+    const result = parseBackup(backupFile({ notes: [rawNote('a', { attachments: [attachment('absent')] })] }), 'backup.json');
+    expect(result.notes[0]).not.toHaveProperty('attachments');
+  });
+});
@@ -0,0 +1,255 @@
+
+import { Note, Attachment, UserProfile } from '../types';
+import { mergeTags, normalizeNotebook } from './tags';
+import { normalizeColor } from './colors';
+import { normalizeReminder } from './reminders';
+import { isBase64 } from './attachments';
+
+const BACKUP_APP_ID = 'notepad-pro';
+const BACKUP_VERSION = 3;
+
+/** Shape of a JSON backup. Version 1 backups were a bare `Note[]` and are still accepted. */
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  version: number;
+  exportedAt: number;
+  notes: Note[];
+  profile?: UserProfile;
+  /** Attachment bytes, added in version 3. Notes list the attachments' details themselves. */
+  attachments?: BackupAttachment[];
+}
+
+export interface BackupAttachment {
+  id: string;
+  /** Base64 file contents. */
+  data: string;
+}
+
+export interface RejectedEntry {
+  /** Where the entry came from, e.g. "backup.json #3" or a file name. */
+  source: string;
+  title: string;
+  reason: string;
+}
+
+export type ImportStatus = 'new' | 'identical' | 'conflict';
+
+export interface ImportEntry {
+  note: Note;
+  status: ImportStatus;
+  /** The note already stored under the same id, for `identical` and `conflict` entries. */
+  existing?: Note;
+}
+
+export interface ImportPlan {
+  entries: ImportEntry[];
+  rejected: RejectedEntry[];
+}
+
+export type MergeStrategy = 'skip' | 'overwrite' | 'keep-both' | 'newest';
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, { label: string, description: string }> = {
+  skip: { label: 'Skip', description: 'Keep the notes you have now' },
+  overwrite: { label: 'Overwrite', description: 'Replace them with the backup version' },
+  'keep-both': { label: 'Keep Both', description: 'Add the backup version as a copy' },
+  newest: { label: 'Keep Newest', description: 'Keep whichever was modified last' },
+};
+
+export interface MergeResult {
+  notes: Note[];
+  added: number;
+  replaced: Note[];
+  skipped: number;
+}
+
+export const createBackupFile = (notes: Note[], profile?: UserProfile, attachments: BackupAttachment[] = []): BackupFile => ({
+  app: BACKUP_APP_ID,
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  notes,
+  ...(profile && { profile }),
+  ...(attachments.length > 0 && { attachments }),
+});
+
+const isTimestamp = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Malformed attachment entries are dropped rather than rejecting the whole note.
+const validateAttachments = (raw: unknown): Attachment[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((a): a is Record<string, unknown> => typeof a === 'object' && a !== null)
+    .filter(a => typeof a.id === 'string' && typeof a.name === 'string' && typeof a.type === 'string' && isTimestamp(a.size) && isTimestamp(a.createdAt))
+    .map(a => ({
+      id: a.id as string,
+      name: a.name as string,
+      type: a.type as string,
+      size: a.size as number,
+      createdAt: a.createdAt as number,
+      ...(typeof a.thumbnail === 'string' && a.thumbnail.startsWith('data:image/') && { thumbnail: a.thumbnail }),
+    }));
+};
+
+/** Checks one raw entry and returns a clean `Note`, or the reason it can't be used. */
+export const validateNote = (raw: unknown): { note: Note } | { reason: string } => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { reason: 'Not a note object' };
+  const n = raw as Record<string, unknown>;
+
+  if (typeof n.id !== 'string' || n.id.trim() === '') return { reason: 'Missing id' };
+  if (typeof n.title !== 'string') return { reason: 'Title is missing or not text' };
+  if (typeof n.content !== 'string') return { reason: 'Content is missing or not text' };
+  if (!isTimestamp(n.createdAt)) return { reason: 'Invalid creation date' };
+  if (!isTimestamp(n.lastModified)) return { reason: 'Invalid modification date' };
+  if (n.isPinned !== undefined && typeof n.isPinned !== 'boolean') return { reason: 'Pinned flag is not true/false' };
+  if (n.kind !== undefined && n.kind !== 'text' && n.kind !== 'checklist') return { reason: 'Unknown note type' };
+  if (n.tags !== undefined && (!Array.isArray(n.tags) || n.tags.some(t => typeof t !== 'string'))) return { reason: 'Tags must be a list of text' };
+  if (n.notebook != null && typeof n.notebook !== 'string') return { reason: 'Notebook is not text' };
+  if (n.deletedAt != null && !isTimestamp(n.deletedAt)) return { reason: 'Invalid deletion date' };
+
+  const attachments = validateAttachments(n.attachments);
+
+  return {
+    note: {
+      id: n.id,
+      title: n.title,
+      content: n.content,
+      isPinned: n.isPinned === true,
+      ...(n.kind === 'checklist' && { kind: 'checklist' as const }),
+      createdAt: n.createdAt,
+      lastModified: n.lastModified,
+      color: normalizeColor(n.color),
+      tags: mergeTags(n.tags as string[] | undefined),
+      notebook: typeof n.notebook === 'string' ? normalizeNotebook(n.notebook) || null : null,
+      ...(isTimestamp(n.deletedAt) && { deletedAt: n.deletedAt }),
+      ...(n.reminder != null && { reminder: normalizeReminder(n.reminder) }),
+      ...(attachments.length > 0 && { attachments }),
+    },
+  };
+};
+
+const validateProfile = (raw: unknown): UserProfile | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const p = raw as Record<string, unknown>;
+  if (typeof p.name !== 'string') return null;
+  return { name: p.name, avatar: typeof p.avatar === 'string' && p.avatar.startsWith('data:image/') ? p.avatar : null };
+};
+
+/**
+ * Parses the contents of a JSON backup. Throws only when the file as a whole is unusable;
+ * individual bad entries are reported in `rejected` so the rest can still be restored.
+ * Attachments whose bytes aren't in the file are left off their notes.
+ */
+export const parseBackup = (data: unknown, source: string): { notes: Note[], rejected: RejectedEntry[], profile: UserProfile | null, attachments: Map<string, string> } => {
+  const isFile = typeof data === 'object' && data !== null && (data as BackupFile).app === BACKUP_APP_ID;
+  const rawNotes = isFile ? (data as BackupFile).notes : data;
+  if (!Array.isArray(rawNotes)) throw new Error('This file is not a Notepad Pro backup.');
+  if (isFile && (data as BackupFile).version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Notepad Pro. Update the app to restore it.');
+  }
+
+  const rawAttachments = isFile ? (data as BackupFile).attachments : undefined;
+  const attachments = new Map(
+    (Array.isArray(rawAttachments) ? rawAttachments : [])
+      .filter(a => typeof a?.id === 'string' && typeof a.data === 'string' && isBase64(a.data))
+      .map(a => [a.id, a.data])
+  );
+
+  const notes: Note[] = [];
+  const rejected: RejectedEntry[] = [];
+  rawNotes.forEach((raw, i) => {
+    const result = validateNote(raw);
+    if ('note' in result) {
+      const { attachments: listed, ...note } = result.note;
+      const kept = listed?.filter(a => attachments.has(a.id)) ?? [];
+      notes.push(kept.length > 0 ? { ...note, attachments: kept } : note);
+    } else {
+      const title = typeof (raw as Note)?.title === 'string' ? (raw as Note).title : '';
+      rejected.push({ source: `${source} #${i + 1}`, title, reason: result.reason });
+    }
+  });
+
+  return { notes, rejected, profile: isFile ? validateProfile((data as BackupFile).profile) : null, attachments };
+};
+
+const sameNote = (a: Note, b: Note): boolean =>
+  a.title === b.title &&
+  a.content === b.content &&
+  a.isPinned === b.isPinned &&
+  (a.kind ?? 'text') === (b.kind ?? 'text') &&
+  normalizeColor(a.color) === normalizeColor(b.color) &&
+  (a.notebook ?? null) === (b.notebook ?? null) &&
+  (a.deletedAt ?? null) === (b.deletedAt ?? null) &&
+  a.reminder?.dueAt === b.reminder?.dueAt &&
+  a.reminder?.repeat === b.reminder?.repeat &&
+  JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? []) &&
+  JSON.stringify(a.attachments?.map(x => x.id) ?? []) === JSON.stringify(b.attachments?.map(x => x.id) ?? []);
+
+/** Sorts incoming notes into new, identical and conflicting against what is already stored. */
+export const planImport = (existing: Note[], incoming: Note[], rejected: RejectedEntry[] = []): ImportPlan => {
+  const byId = new Map(existing.map(n => [n.id, n]));
+  const seen = new Set<string>();
+  const entries: ImportEntry[] = [];
+  const skippedDuplicates: RejectedEntry[] = [];
+
+  incoming.forEach(note => {
+    if (seen.has(note.id)) {
+      skippedDuplicates.push({ source: 'Import', title: note.title, reason: 'Same id appears more than once in the import' });
+      return;
+    }
+    seen.add(note.id);
+    const current = byId.get(note.id);
+    if (!current) entries.push({ note, status: 'new' });
+    else entries.push({ note, status: sameNote(current, note) ? 'identical' : 'conflict', existing: current });
+  });
+
+  return { entries, rejected: [...rejected, ...skippedDuplicates] };
+};
+
+/** Applies a plan to the current notes. Identical notes are always left alone. */
+export const applyImport = (existing: Note[], plan: ImportPlan, strategy: MergeStrategy): MergeResult => {
+  const replacements = new Map<string, Note>();
+  const added: Note[] = [];
+  let skipped = 0;
+
+  plan.entries.forEach(({ note, status, existing: current }) => {
+    if (status === 'new') {
+      added.push(note);
+    } else if (status === 'identical') {
+      skipped++;
+    } else if (strategy === 'overwrite' || (strategy === 'newest' && note.lastModified > current!.lastModified)) {
+      replacements.set(note.id, note);
+    } else if (strategy === 'keep-both') {
+      added.push({ ...note, id: crypto.randomUUID(), title: note.title ? `${note.title} (restored)` : 'Restored note' });
+    } else {
+      skipped++;
+    }
+  });
+
+  return {
+    notes: [...added, ...existing.map(n => replacements.get(n.id) ?? n)],
+    added: added.length,
+    replaced: existing.filter(n => replacements.has(n.id)),
+    skipped,
+  };
+};
+
+export interface SnapshotDiff {
+  /** Notes created since the snapshot; restoring it removes them. */
+  added: number;
+  /** Notes permanently deleted since; restoring brings them back. */
+  removed: number;
+  changed: number;
+}
+
+/** How the current notes differ from a snapshot's. Moving a note to the Trash counts as a change. */
+export const diffSnapshot = (current: Note[], snapshot: Note[]): SnapshotDiff => {
+  const then = new Map(snapshot.map(n => [n.id, n]));
+  let added = 0;
+  let changed = 0;
+  current.forEach(note => {
+    const old = then.get(note.id);
+    if (!old) added++;
+    else if (!sameNote(old, note)) changed++;
+    then.delete(note.id);
+  });
+  return { added, removed: then.size, changed };
+};
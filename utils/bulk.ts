@@ -0,0 +1,51 @@
+
+import { Note } from '../types';
+import { mergeTags } from './tags';
+
+/**
+ * Undoes one bulk change on top of the notes as they are now: notes the change edited or
+ * removed go back to their `before` version, and notes it created are dropped.
+ */
+export const revertChange = (current: Note[], before: Note[], after: Note[]): Note[] => {
+  const previous = new Map(before.map(n => [n.id, n]));
+  const afterIds = new Set(after.map(n => n.id));
+  const touched = new Set(after.filter(n => previous.get(n.id) !== n).map(n => n.id));
+  const currentIds = new Set(current.map(n => n.id));
+  const removed = before.filter(n => !afterIds.has(n.id) && !currentIds.has(n.id));
+
+  const restored = current
+    .filter(n => !(touched.has(n.id) && !previous.has(n.id)))
+    .map(n => (touched.has(n.id) ? previous.get(n.id)! : n));
+  return [...removed, ...restored];
+};
+
+/**
+ * Combines notes into one new note, oldest first. Each text note becomes a section under
+ * its title; if every note is a checklist the items are simply joined. Tags and attachments
+ * are combined, and the notebook is kept only when all the notes share it. The attachments'
+ * bytes still belong to the originals and have to be copied over (see `copyAttachments`).
+ */
+export const mergeNotes = (notes: Note[], now: number): Note => {
+  const ordered = [...notes].sort((a, b) => a.createdAt - b.createdAt);
+  const allChecklists = ordered.every(n => n.kind === 'checklist');
+  const content = allChecklists
+    ? ordered.map(n => n.content.trim()).filter(Boolean).join('\n')
+    : ordered.map(n => [n.title.trim() && `## ${n.title.trim()}`, n.content.trim()].filter(Boolean).join('\n\n')).filter(Boolean).join('\n\n');
+  const notebooks = new Set(ordered.map(n => n.notebook ?? null));
+  // Restored copies can share attachment ids with their originals.
+  const attachments = Array.from(new Map(ordered.flatMap(n => n.attachments ?? []).map(a => [a.id, a])).values());
+
+  return {
+    id: crypto.randomUUID(),
+    title: ordered.find(n => n.title.trim())?.title.trim() ?? '',
+    ...(allChecklists && { kind: 'checklist' as const }),
+    content,
+    isPinned: ordered.some(n => n.isPinned),
+    createdAt: now,
+    lastModified: now,
+    color: ordered[0].color,
+    tags: mergeTags(...ordered.map(n => n.tags)),
+    notebook: notebooks.size === 1 ? ordered[0].notebook ?? null : null,
+    ...(attachments.length > 0 && { attachments }),
+  };
+};
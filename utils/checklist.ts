@@ -0,0 +1,68 @@
+
+import { TASK_RE } from './markdown';
+
+export interface ChecklistItem {
+  text: string;
+  checked: boolean;
+  indent: 0 | 1;
+}
+
+const LIST_MARKER_RE = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Reads checklist items from a note body. Task lines keep their state; any other
+ * line becomes an unchecked item with its list marker dropped, so text notes convert
+ * without losing their words. Blank lines between paragraphs become empty items, which
+ * `checklistToText` turns back into blank lines.
+ */
+export const parseChecklist = (content: string): ChecklistItem[] => {
+  const lines = content.split('\n');
+  const first = lines.findIndex(line => line.trim() !== '');
+  if (first === -1) return [];
+  let last = lines.length - 1;
+  while (lines[last].trim() === '') last--;
+  return lines.slice(first, last + 1).map(line => {
+    const task = TASK_RE.exec(line);
+    if (task) return { text: task[3] ?? '', checked: task[2] !== ' ', indent: task[1].length >= 2 ? 1 : 0 };
+    const indent = /^\s{2,}/.test(line) ? 1 : 0;
+    return { text: line.replace(LIST_MARKER_RE, '').trim(), checked: false, indent };
+  });
+};
+
+const isBlank = (item: ChecklistItem): boolean => item.text.trim() === '' && !item.checked;
+
+export const serializeChecklist = (items: ChecklistItem[]): string =>
+  items.map(item => `${item.indent ? '  ' : ''}- [${item.checked ? 'x' : ' '}] ${item.text}`).join('\n');
+
+/** For turning a checklist back into a text note: like `serializeChecklist`, but empty items are blank lines again. */
+export const checklistToText = (items: ChecklistItem[]): string =>
+  items.map(item => (isBlank(item) ? '' : serializeChecklist([item]))).join('\n');
+
+export const checklistProgress = (content: string): { done: number, total: number } => {
+  const items = parseChecklist(content).filter(item => !isBlank(item));
+  return { done: items.filter(i => i.checked).length, total: items.length };
+};
+
+/** The first item can't be a sub-item, since there is nothing above it to nest under. */
+const fixIndents = (items: ChecklistItem[]): ChecklistItem[] =>
+  items.map((item, i) => (i === 0 && item.indent ? { ...item, indent: 0 } : item));
+
+export const updateItem = (items: ChecklistItem[], index: number, updates: Partial<ChecklistItem>): ChecklistItem[] =>
+  fixIndents(items.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+
+export const insertItem = (items: ChecklistItem[], index: number, item: ChecklistItem): ChecklistItem[] =>
+  fixIndents([...items.slice(0, index), item, ...items.slice(index)]);
+
+export const removeItem = (items: ChecklistItem[], index: number): ChecklistItem[] =>
+  fixIndents(items.filter((_, i) => i !== index));
+
+export const moveItem = (items: ChecklistItem[], from: number, to: number): ChecklistItem[] => {
+  if (from === to) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return fixIndents(next);
+};
+
+export const clearCompleted = (items: ChecklistItem[]): ChecklistItem[] =>
+  fixIndents(items.filter(item => !item.checked));
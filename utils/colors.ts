@@ -0,0 +1,49 @@
+
+import { Note, NoteColor, COLORS } from '../types';
+
+export interface ColorStyle {
+  label: string;
+  /** Card background and border. */
+  card: string;
+  /** Solid fill for swatches and dots. */
+  swatch: string;
+}
+
+export const NOTE_COLOR_STYLES: Record<NoteColor, ColorStyle> = {
+  default: { label: 'Default', card: 'bg-ink-800/40 border-ink-800', swatch: 'bg-ink-500' },
+  red: { label: 'Red', card: 'bg-red-500/10 border-red-500/25', swatch: 'bg-red-500' },
+  orange: { label: 'Orange', card: 'bg-orange-500/10 border-orange-500/25', swatch: 'bg-orange-500' },
+  yellow: { label: 'Yellow', card: 'bg-yellow-500/10 border-yellow-500/25', swatch: 'bg-yellow-400' },
+  green: { label: 'Green', card: 'bg-emerald-500/10 border-emerald-500/25', swatch: 'bg-emerald-500' },
+  blue: { label: 'Blue', card: 'bg-blue-500/10 border-blue-500/25', swatch: 'bg-blue-500' },
+  purple: { label: 'Purple', card: 'bg-violet-500/10 border-violet-500/25', swatch: 'bg-violet-500' },
+  pink: { label: 'Pink', card: 'bg-pink-500/10 border-pink-500/25', swatch: 'bg-pink-500' },
+};
+
+// Notes saved before color tokens stored the light-theme Tailwind class itself.
+const LEGACY_COLORS: Record<string, NoteColor> = {
+  'bg-white': 'default',
+  'bg-red-50': 'red',
+  'bg-blue-50': 'blue',
+  'bg-green-50': 'green',
+  'bg-yellow-50': 'yellow',
+  'bg-purple-50': 'purple',
+  'bg-pink-50': 'pink',
+};
+
+/** Maps a stored or imported color (token or legacy class) to a token, falling back to `default`. */
+export const normalizeColor = (value: unknown): NoteColor => {
+  if (typeof value !== 'string') return 'default';
+  if ((COLORS as string[]).includes(value)) return value as NoteColor;
+  return LEGACY_COLORS[value] ?? 'default';
+};
+
+/** Colors in use, in palette order. */
+export const countColors = (notes: Note[]): { color: NoteColor, count: number }[] => {
+  const counts = new Map<NoteColor, number>();
+  notes.forEach(n => {
+    const color = normalizeColor(n.color);
+    counts.set(color, (counts.get(color) ?? 0) + 1);
+  });
+  return COLORS.filter(c => counts.has(c)).map(color => ({ color, count: counts.get(color)! }));
+};
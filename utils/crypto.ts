@@ -0,0 +1,110 @@
+
+import { EncryptedPayload, EncryptedBytes, LockConfig } from '../types';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Encrypted under the derived key so a passphrase can be checked without touching any note.
+const VERIFIER_TEXT = 'notepad-pro-lock-v1';
+
+const ENCRYPTED_BACKUP_FORMAT = 'notepad-pro-encrypted';
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  salt: string;
+  iterations: number;
+  payload: EncryptedPayload;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptString = async (key: CryptoKey, plaintext: string): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/** Rejects if the key is wrong or the payload was tampered with (AES-GCM authenticates). */
+export const decryptString = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return new TextDecoder().decode(data);
+};
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<EncryptedPayload> =>
+  encryptString(key, JSON.stringify(value));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> =>
+  JSON.parse(await decryptString(key, payload));
+
+export const encryptBytes = async (key: CryptoKey, bytes: ArrayBuffer): Promise<EncryptedBytes> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+export const decryptBytes = (key: CryptoKey, payload: EncryptedBytes): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+
+/** Derives a fresh key from a new passphrase, along with the config needed to re-derive it later. */
+export const createLock = async (passphrase: string): Promise<{ config: LockConfig, key: CryptoKey }> => {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptString(key, VERIFIER_TEXT);
+  return { config: { salt, iterations: PBKDF2_ITERATIONS, verifier }, key };
+};
+
+export const unlock = async (config: LockConfig, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    if (await decryptString(key, config.verifier) === VERIFIER_TEXT) return key;
+  } catch (e) {
+    // AES-GCM fails authentication when the key is wrong.
+  }
+  throw new WrongPassphraseError();
+};
+
+export const isEncryptedBackup = (value: unknown): value is EncryptedBackup =>
+  typeof value === 'object' && value !== null && (value as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+
+/** Wraps backup data with the app's current key; the salt lets the passphrase re-derive it on import. */
+export const sealBackup = async (key: CryptoKey, config: LockConfig, data: unknown): Promise<EncryptedBackup> => ({
+  format: ENCRYPTED_BACKUP_FORMAT,
+  version: 1,
+  salt: config.salt,
+  iterations: config.iterations,
+  payload: await encryptJson(key, data),
+});
+
+export const openBackup = async <T>(backup: EncryptedBackup, passphrase: string): Promise<T> => {
+  const key = await deriveKey(passphrase, backup.salt, backup.iterations);
+  try {
+    return await decryptJson<T>(key, backup.payload);
+  } catch (e) {
+    throw new WrongPassphraseError();
+  }
+};
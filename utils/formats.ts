@@ -0,0 +1,362 @@
+
+import { strToU8, strFromU8, zipSync, unzipSync } from 'fflate';
+import { Note } from '../types';
+import { toPlainText, markdownToHtml, escapeHtml } from './markdown';
+import { mergeTags, normalizeNotebook } from './tags';
+import { normalizeColor } from './colors';
+import { normalizeReminder } from './reminders';
+import { createBackupFile, BackupAttachment } from './backup';
+
+export type ExportFormat = 'md' | 'txt' | 'html' | 'json';
+
+export interface ExportFile {
+  fileName: string;
+  blob: Blob;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  md: 'Markdown',
+  txt: 'Plain Text',
+  html: 'HTML',
+  json: 'JSON',
+};
+
+/** File types the importer understands, for `<input accept>`. */
+export const IMPORT_ACCEPT = '.json,.md,.markdown,.txt,.html,.htm,.zip,application/json,text/markdown,text/plain,text/html,application/zip';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown',
+  txt: 'text/plain',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+const FRONT_MATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Export ---
+
+const safeFileName = (title: string): string =>
+  title.replace(/[\/\\?%*:|"<>\x00-\x1f]/g, '-').replace(/\s+/g, ' ').trim().slice(0, 60) || 'Untitled';
+
+const uniqueFileName = (base: string, ext: string, used: Set<string>): string => {
+  let name = `${base}.${ext}`;
+  for (let i = 2; used.has(name.toLowerCase()); i++) name = `${base} (${i}).${ext}`;
+  used.add(name.toLowerCase());
+  return name;
+};
+
+export const noteToMarkdown = (note: Note): string => {
+  const meta: [string, unknown][] = [
+    ['id', note.id],
+    ['title', note.title],
+    ['kind', note.kind === 'checklist' ? note.kind : undefined],
+    ['pinned', note.isPinned],
+    ['color', note.color],
+    ['notebook', note.notebook],
+    ['tags', note.tags?.length ? note.tags : undefined],
+    ['reminder', note.reminder ? { dueAt: note.reminder.dueAt, repeat: note.reminder.repeat } : undefined],
+    ['created', new Date(note.createdAt).toISOString()],
+    ['modified', new Date(note.lastModified).toISOString()],
+  ];
+  // JSON scalars and arrays are valid YAML, which keeps quoting rules simple.
+  const yaml = meta
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join('\n');
+  return `---\n${yaml}\n---\n\n${note.content}\n`;
+};
+
+export const noteToText = (note: Note): string =>
+  `${note.title || 'Untitled'}\n\n${toPlainText(note.content)}\n`;
+
+export const notesToHtml = (notes: Note[]): string => {
+  const articles = notes.map(note => `
+  <article class="note" data-id="${escapeHtml(note.id)}" data-kind="${note.kind ?? 'text'}" data-pinned="${note.isPinned}" data-color="${escapeHtml(note.color ?? '')}" data-notebook="${escapeHtml(note.notebook ?? '')}" data-tags="${escapeHtml((note.tags ?? []).join(','))}" data-created="${note.createdAt}" data-modified="${note.lastModified}">
+    <h1>${escapeHtml(note.title || 'Untitled')}</h1>
+    <p class="meta">Created ${new Date(note.createdAt).toLocaleString()} · Updated ${new Date(note.lastModified).toLocaleString()}</p>
+    <div class="content">
+${markdownToHtml(note.content)}
+    </div>
+  </article>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(notes.length === 1 ? notes[0].title || 'Untitled' : 'Notepad Pro Notes')}</title>
+  <style>
+    body { font-family: Inter, system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1.5rem; color: #0f172a; line-height: 1.6; }
+    article { padding-bottom: 2rem; margin-bottom: 2rem; border-bottom: 1px solid #e2e8f0; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #64748b; font-size: 0.8rem; margin-top: 0; }
+    code { background: #f1f5f9; padding: 0.1em 0.35em; border-radius: 4px; }
+    ul.tasks { list-style: none; padding-left: 0; }
+    li.sub { margin-left: 1.5rem; }
+    @media print { article { break-after: page; border: none; } }
+  </style>
+</head>
+<body>
+${articles}
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds the download for the given notes. Markdown and text exports of more than one
+ * note are packed into a ZIP with one file per note; HTML is always a single document.
+ * Only JSON carries attachments, as that is the format that can be restored.
+ */
+export const exportNotes = (notes: Note[], format: ExportFormat, attachments: BackupAttachment[] = []): ExportFile => {
+  const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '_');
+
+  if (format === 'json') {
+    return { fileName: `notes_backup_${stamp}.json`, blob: new Blob([JSON.stringify(createBackupFile(notes, undefined, attachments), null, 2)], { type: MIME_TYPES.json }) };
+  }
+  if (format === 'html') {
+    const base = notes.length === 1 ? safeFileName(notes[0].title) : `notes_${stamp}`;
+    return { fileName: `${base}.html`, blob: new Blob([notesToHtml(notes)], { type: MIME_TYPES.html }) };
+  }
+
+  const serialize = format === 'md' ? noteToMarkdown : noteToText;
+  if (notes.length === 1) {
+    return { fileName: `${safeFileName(notes[0].title)}.${format}`, blob: new Blob([serialize(notes[0])], { type: MIME_TYPES[format] }) };
+  }
+
+  const used = new Set<string>();
+  const entries = Object.fromEntries(notes.map(note => [
+    uniqueFileName(safeFileName(note.title), format, used),
+    strToU8(serialize(note)),
+  ]));
+  return { fileName: `notes_${stamp}.zip`, blob: new Blob([zipSync(entries)], { type: 'application/zip' }) };
+};
+
+// --- Import ---
+
+const parseYamlValue = (raw: string): unknown => {
+  const value = raw.trim();
+  if (value === '') return '';
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value === 'null' || value === '~') return null;
+  if (value.startsWith('"') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      if (value.startsWith('[')) return value.slice(1, -1).split(',').map(v => v.trim().replace(/^['"]|['"]$/g, ''));
+    }
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value.replace(/^'(.*)'$/, '$1');
+};
+
+/** Reads the flat `key: value` subset of YAML that front matter uses, including `- item` lists. */
+const parseFrontMatter = (yaml: string): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const item = /^\s+-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (result[listKey] as unknown[]).push(parseYamlValue(item[1]));
+      continue;
+    }
+    const pair = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    listKey = value.trim() === '' ? key : null;
+    result[key] = listKey ? [] : parseYamlValue(value);
+  }
+
+  return result;
+};
+
+const toTimestamp = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    if (!isNaN(time)) return time;
+  }
+  return undefined;
+};
+
+const buildNote = (fields: Partial<Omit<Note, 'color'>> & { color?: string }): Note => {
+  const now = Date.now();
+  const createdAt = fields.createdAt ?? now;
+  return {
+    id: fields.id || crypto.randomUUID(),
+    title: fields.title ?? '',
+    content: fields.content ?? '',
+    isPinned: fields.isPinned ?? false,
+    ...(fields.kind === 'checklist' && { kind: 'checklist' as const }),
+    createdAt,
+    lastModified: fields.lastModified ?? createdAt,
+    color: normalizeColor(fields.color),
+    tags: mergeTags(fields.tags),
+    notebook: fields.notebook ? normalizeNotebook(fields.notebook) : null,
+    ...(fields.reminder && { reminder: fields.reminder }),
+  };
+};
+
+const baseName = (fileName: string): string => fileName.split('/').pop()!.replace(/\.[^.]+$/, '');
+
+export const markdownToNote = (text: string, fileName: string): Note => {
+  const match = FRONT_MATTER_RE.exec(text);
+  const meta = match ? parseFrontMatter(match[1]) : {};
+  let content = (match ? text.slice(match[0].length) : text).replace(/^\s*\n/, '').replace(/\s+$/, '');
+  let title = typeof meta.title === 'string' ? meta.title : '';
+
+  // Without a front matter title, a leading `# Heading` names the note.
+  if (!title) {
+    const heading = /^#\s+(.+)\n?/.exec(content);
+    if (heading) {
+      title = heading[1].trim();
+      content = content.slice(heading[0].length).replace(/^\s*\n/, '');
+    } else {
+      title = baseName(fileName);
+    }
+  }
+
+  const tags = Array.isArray(meta.tags) ? meta.tags.map(String) : typeof meta.tags === 'string' ? meta.tags.split(',') : undefined;
+
+  return buildNote({
+    id: typeof meta.id === 'string' ? meta.id : undefined,
+    title,
+    content,
+    isPinned: meta.pinned === true || meta.isPinned === true,
+    kind: meta.kind === 'checklist' ? 'checklist' : undefined,
+    color: typeof meta.color === 'string' ? meta.color : undefined,
+    notebook: typeof meta.notebook === 'string' ? meta.notebook : undefined,
+    reminder: normalizeReminder(meta.reminder),
+    tags,
+    createdAt: toTimestamp(meta.created ?? meta.createdAt ?? meta.date),
+    lastModified: toTimestamp(meta.modified ?? meta.updated ?? meta.lastModified),
+  });
+};
+
+export const textToNote = (text: string, fileName: string): Note => {
+  // Our own .txt export puts the title on the first line, followed by a blank line.
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const hasTitleLine = lines.length > 2 && lines[0].trim() !== '' && lines[0].length <= 120 && lines[1].trim() === '';
+  return buildNote({
+    title: hasTitleLine ? lines[0].trim() : baseName(fileName),
+    content: (hasTitleLine ? lines.slice(2) : lines).join('\n').trim(),
+  });
+};
+
+const htmlToMarkdown = (node: Node, headingOffset: number): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const inner = () => Array.from(el.childNodes).map(child => htmlToMarkdown(child, headingOffset)).join('');
+  const tag = el.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'strong': case 'b': return `**${inner()}**`;
+    case 'em': case 'i': return `*${inner()}*`;
+    case 'u': case 'ins': return `++${inner()}++`;
+    case 'code': return `\`${el.textContent ?? ''}\``;
+    case 'a': return `[${inner()}](${el.getAttribute('href') ?? ''})`;
+    case 'br': return '\n';
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const level = Math.min(3, Math.max(1, Number(tag[1]) - headingOffset));
+      return `\n\n${'#'.repeat(level)} ${inner().trim()}\n\n`;
+    }
+    case 'ul': case 'ol':
+      return `\n\n${Array.from(el.children).map((li, i) => `${li.classList.contains('sub') ? '  ' : ''}${tag === 'ol' ? `${i + 1}.` : '-'} ${htmlToMarkdown(li, headingOffset).trim()}`).join('\n')}\n\n`;
+    case 'input':
+      return el.getAttribute('type') === 'checkbox' ? `[${el.hasAttribute('checked') ? 'x' : ' '}] ` : '';
+    case 'p': case 'div': case 'section': case 'article': case 'blockquote': case 'pre':
+      return `\n\n${inner().trim()}\n\n`;
+    case 'script': case 'style': case 'head': return '';
+    default: return inner();
+  }
+};
+
+const tidyMarkdown = (text: string): string =>
+  text.split('\n').map(line => line.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+
+export const htmlToNotes = (html: string, fileName: string): Note[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const articles = Array.from(doc.querySelectorAll('article.note'));
+
+  // Files exported by this app carry note metadata as data attributes.
+  if (articles.length > 0) {
+    return articles.map(article => {
+      const data = (article as HTMLElement).dataset;
+      const content = article.querySelector('.content');
+      return buildNote({
+        id: data.id,
+        title: article.querySelector('h1')?.textContent?.trim() ?? '',
+        content: content ? tidyMarkdown(htmlToMarkdown(content, 1)) : '',
+        isPinned: data.pinned === 'true',
+        kind: data.kind === 'checklist' ? 'checklist' : undefined,
+        color: data.color,
+        notebook: data.notebook,
+        tags: data.tags ? data.tags.split(',') : [],
+        createdAt: toTimestamp(Number(data.created)),
+        lastModified: toTimestamp(Number(data.modified)),
+      });
+    });
+  }
+
+  const title = doc.title.trim() || doc.querySelector('h1')?.textContent?.trim() || baseName(fileName);
+  return [buildNote({ title, content: tidyMarkdown(htmlToMarkdown(doc.body, 0)) })];
+};
+
+const extensionOf = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+/** Converts one non-JSON file's text into notes, or returns null for unsupported types. */
+const textFileToNotes = (fileName: string, text: string): Note[] | null => {
+  switch (extensionOf(fileName)) {
+    case 'md': case 'markdown': return [markdownToNote(text, fileName)];
+    case 'txt': return [textToNote(text, fileName)];
+    case 'html': case 'htm': return htmlToNotes(text, fileName);
+    default: return null;
+  }
+};
+
+export const isJsonFile = (file: File): boolean => extensionOf(file.name) === 'json';
+
+/**
+ * Reads Markdown, text, HTML and ZIP files (for example a picked folder of `.md` files)
+ * into notes. Unsupported files, including hidden and system files inside archives, are skipped.
+ */
+export const readNoteFiles = async (files: File[]): Promise<{ notes: Note[], skipped: string[], failed: string[] }> => {
+  const notes: Note[] = [];
+  const skipped: string[] = [];
+  // Files that could not be read, e.g. a damaged zip; the rest are still imported.
+  const failed: string[] = [];
+
+  for (const file of files) {
+    try {
+      if (extensionOf(file.name) === 'zip') {
+        const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+        Object.entries(entries).forEach(([path, data]) => {
+          if (path.endsWith('/') || path.split('/').some(part => part.startsWith('.') || part === '__MACOSX')) return;
+          const parsed = textFileToNotes(path, strFromU8(data));
+          if (parsed) notes.push(...parsed);
+          else skipped.push(path);
+        });
+        continue;
+      }
+      if (file.name.startsWith('.')) continue;
+      const parsed = textFileToNotes(file.name, await file.text());
+      if (parsed) notes.push(...parsed);
+      else skipped.push(file.name);
+    } catch (e) {
+      failed.push(file.name);
+    }
+  }
+
+  return { notes, skipped, failed };
+};
@@ -0,0 +1,38 @@
+
+import { normalizeText } from './search';
+
+const WORD_START_BONUS = 3;
+const CONSECUTIVE_BONUS = 2;
+
+const isWordChar = (ch: string | undefined): boolean => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+/**
+ * Scores how well `text` matches a loosely typed `query`: every query character has to appear
+ * in order. Characters at the start of a word and runs of consecutive characters count extra,
+ * so "nwn" ranks "New Note" above "Unknown". Returns null when it doesn't match at all.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = normalizeText(query).replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = normalizeText(text);
+  let score = 0;
+  let from = 0;
+  let run = 0;
+  for (let i = 0; i < q.length; i++) {
+    const found = t.indexOf(q[i], from);
+    if (found === -1) return null;
+    run = i > 0 && found === from ? run + 1 : 0;
+    score += 1 + (isWordChar(t[found - 1]) ? 0 : WORD_START_BONUS) + run * CONSECUTIVE_BONUS;
+    from = found + 1;
+  }
+  // Between equal matches, the shorter text is the closer fit
+  return score - t.length / 1000;
+};
+
+/** The items matching `query`, best first. An empty query keeps every item in its original order. */
+export const fuzzyFilter = <T>(items: T[], query: string, textOf: (item: T) => string): T[] =>
+  items
+    .map((item, i) => ({ item, i, score: fuzzyScore(query, textOf(item)) }))
+    .filter((r): r is { item: T, i: number, score: number } => r.score !== null)
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map(r => r.item);
@@ -0,0 +1,96 @@
+
+import { Note } from '../types';
+import { isTrashed } from './trash';
+import { toPlainText, EditResult } from './markdown';
+
+const WIKI_LINK_RE = /\[\[([^[\]\n]+)\]\]/g;
+
+// An unclosed `[[` before the caret on the same line, i.e. a link still being typed.
+const OPEN_LINK_RE = /\[\[([^[\]\n]*)$/;
+
+const MAX_SUGGESTIONS = 6;
+
+/** Titles compare case-insensitively with surrounding and repeated whitespace ignored. */
+export const normalizeTitle = (title: string): string => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Link targets in a note body, normalized and without duplicates. */
+export const extractLinks = (content: string): string[] =>
+  Array.from(new Set(Array.from(content.matchAll(WIKI_LINK_RE), m => normalizeTitle(m[1])).filter(Boolean)));
+
+/** The note a `[[title]]` link opens: the most recently edited note with that title, outside the Trash. */
+export const findNoteByTitle = (notes: Note[], title: string): Note | undefined => {
+  const target = normalizeTitle(title);
+  if (!target) return undefined;
+  return notes
+    .filter(n => !isTrashed(n) && normalizeTitle(n.title) === target)
+    .sort((a, b) => b.lastModified - a.lastModified)[0];
+};
+
+export const linksTo = (note: Note, title: string): boolean => {
+  const target = normalizeTitle(title);
+  return !!target && extractLinks(note.content).includes(target);
+};
+
+export interface Backlink {
+  note: Note;
+  /** The line the link appears on, as plain text. */
+  context: string;
+}
+
+/** Notes outside the Trash that link to `note` by its title. */
+export const findBacklinks = (notes: Note[], note: Note): Backlink[] => {
+  const target = normalizeTitle(note.title);
+  if (!target) return [];
+  return notes
+    .filter(n => n.id !== note.id && !isTrashed(n) && linksTo(n, note.title))
+    .sort((a, b) => b.lastModified - a.lastModified)
+    .map(n => {
+      const line = n.content.split('\n').find(l => Array.from(l.matchAll(WIKI_LINK_RE), m => normalizeTitle(m[1])).includes(target)) ?? '';
+      return { note: n, context: toPlainText(line).trim() };
+    });
+};
+
+/** Points every `[[from]]` link in `content` at `to` instead. */
+export const renameLinks = (content: string, from: string, to: string): string => {
+  const target = normalizeTitle(from);
+  return content.replace(WIKI_LINK_RE, (match, title: string) => (normalizeTitle(title) === target ? `[[${to.trim()}]]` : match));
+};
+
+/** The partly typed link the caret is in, if any. `start` is the index of its `[[`. */
+export const linkQueryAt = (value: string, caret: number): { start: number, query: string } | null => {
+  const lineStart = value.lastIndexOf('\n', caret - 1) + 1;
+  const match = OPEN_LINK_RE.exec(value.slice(lineStart, caret));
+  return match ? { start: lineStart + match.index, query: match[1] } : null;
+};
+
+/** Titles for the link being typed: prefix matches first, then other matches, most recent first. */
+export const suggestTitles = (notes: Note[], query: string, excludeId?: string): string[] => {
+  const q = normalizeTitle(query);
+  const seen = new Set<string>();
+  return notes
+    .filter(n => n.id !== excludeId && !isTrashed(n) && n.title.trim() && normalizeTitle(n.title).includes(q))
+    .sort((a, b) =>
+      Number(normalizeTitle(b.title).startsWith(q)) - Number(normalizeTitle(a.title).startsWith(q)) ||
+      b.lastModified - a.lastModified
+    )
+    .map(n => n.title.trim())
+    .filter(title => {
+      const key = normalizeTitle(title);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+/** Replaces the partly typed link from `start` to the caret with a complete `[[title]]`. */
+export const completeLink = (value: string, start: number, caret: number, title: string): EditResult => {
+  // Swallow a `]]` that was already typed after the caret.
+  const end = value.startsWith(']]', caret) ? caret + 2 : caret;
+  const link = `[[${title}]]`;
+  return {
+    value: value.slice(0, start) + link + value.slice(end),
+    selectionStart: start + link.length,
+    selectionEnd: start + link.length,
+  };
+};
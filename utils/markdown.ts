@@ -0,0 +1,236 @@
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'underline'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  // `[[Note Title]]`, a link to another note by its title
+  | { type: 'wikilink'; title: string };
+
+export type BlockNode =
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: 'paragraph'; lines: InlineNode[][] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'tasks'; items: TaskItem[] };
+
+export interface TaskItem {
+  checked: boolean;
+  /** 1 for a sub-item; deeper nesting is flattened to one level. */
+  indent: 0 | 1;
+  children: InlineNode[];
+}
+
+export type InlineFormat = 'bold' | 'italic' | 'underline' | 'code';
+export type LineFormat = 'heading' | 'bullet' | 'numbered';
+
+export interface EditResult {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const INLINE_MARKERS: Record<InlineFormat, string> = {
+  bold: '**',
+  italic: '*',
+  underline: '++',
+  code: '`',
+};
+
+const HEADING_RE = /^(#{1,3})\s+(.*)$/;
+/** `- [ ] item` / `- [x] item`, optionally indented. Groups: indent, check mark, text. */
+export const TASK_RE = /^(\s*)[-*+]\s+\[([ xX])\](?:\s+(.*))?$/;
+const BULLET_RE = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_RE = /^\s*\d+[.)]\s+(.*)$/;
+const SAFE_URL_RE = /^(https?:\/\/|mailto:)/i;
+
+// Ordered by precedence: code spans are literal, so they must win over emphasis.
+const INLINE_RE = /`([^`]+)`|\[\[([^[\]\n]+)\]\]|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\+\+(.+?)\+\+|\*([^*]+)\*|(?<!\w)_([^_]+)_(?!\w)/;
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const match = INLINE_RE.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const [, code, wikiTitle, linkText, href, bold, underline, star, underscore] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (wikiTitle !== undefined) {
+      nodes.push(wikiTitle.trim() ? { type: 'wikilink', title: wikiTitle.trim() } : { type: 'text', text: match[0] });
+    } else if (linkText !== undefined) {
+      nodes.push(SAFE_URL_RE.test(href)
+        ? { type: 'link', href, children: parseInline(linkText) }
+        : { type: 'text', text: match[0] });
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold) });
+    } else if (underline !== undefined) {
+      nodes.push({ type: 'underline', children: parseInline(underline) });
+    } else {
+      nodes.push({ type: 'italic', children: parseInline(star ?? underscore) });
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let paragraph: InlineNode[][] | null = null;
+  let list: Extract<BlockNode, { type: 'list' }> | null = null;
+  let tasks: Extract<BlockNode, { type: 'tasks' }> | null = null;
+
+  const flush = () => {
+    if (paragraph) blocks.push({ type: 'paragraph', lines: paragraph });
+    if (list) blocks.push(list);
+    if (tasks) blocks.push(tasks);
+    paragraph = null;
+    list = null;
+    tasks = null;
+  };
+
+  for (const line of source.split('\n')) {
+    const task = TASK_RE.exec(line);
+    if (task) {
+      if (!tasks) {
+        flush();
+        tasks = { type: 'tasks', items: [] };
+      }
+      tasks.items.push({ checked: task[2] !== ' ', indent: task[1].length >= 2 ? 1 : 0, children: parseInline(task[3] ?? '') });
+      continue;
+    }
+    if (tasks && line.trim() !== '') flush();
+
+    const heading = HEADING_RE.exec(line);
+    const bullet = BULLET_RE.exec(line);
+    const numbered = NUMBERED_RE.exec(line);
+
+    if (line.trim() === '') {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { type: 'list', ordered, items: [] };
+      }
+      list.items.push(parseInline((bullet ?? numbered)![1]));
+    } else {
+      if (list) flush();
+      paragraph = paragraph ?? [];
+      paragraph.push(parseInline(line));
+    }
+  }
+  flush();
+
+  return blocks;
+};
+
+const inlineToText = (nodes: InlineNode[]): string =>
+  nodes.map(n => (n.type === 'wikilink' ? n.title : 'children' in n ? inlineToText(n.children) : n.text)).join('');
+
+/** Strips Markdown syntax, leaving the readable text (for sharing, search snippets, etc). */
+export const toPlainText = (source: string): string =>
+  parseMarkdown(source).map(block => {
+    if (block.type === 'heading') return inlineToText(block.children);
+    if (block.type === 'paragraph') return block.lines.map(inlineToText).join('\n');
+    if (block.type === 'tasks') return block.items.map(item => inlineToText(item.children)).join('\n');
+    return block.items.map(inlineToText).join('\n');
+  }).join('\n');
+
+export const applyInlineFormat = (value: string, start: number, end: number, format: InlineFormat): EditResult => {
+  const marker = INLINE_MARKERS[format];
+  const selected = value.slice(start, end);
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+
+  // Toggle off when the selection is already wrapped in this marker.
+  if (before.endsWith(marker) && after.startsWith(marker) && !(format === 'italic' && before.endsWith('**') && after.startsWith('**'))) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+
+  return {
+    value: before + marker + selected + marker + after,
+    selectionStart: start + marker.length,
+    selectionEnd: end + marker.length,
+  };
+};
+
+export const applyLineFormat = (value: string, start: number, end: number, format: LineFormat): EditResult => {
+  const lineStart = start === 0 ? 0 : value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+
+  const pattern = format === 'heading' ? HEADING_RE : format === 'bullet' ? BULLET_RE : NUMBERED_RE;
+  const isApplied = lines.every(line => pattern.test(line));
+
+  const formatted = lines.map((line, i) => {
+    const body = (HEADING_RE.exec(line)?.[2]) ?? (BULLET_RE.exec(line)?.[1]) ?? (NUMBERED_RE.exec(line)?.[1]) ?? line;
+    if (isApplied) return body;
+    if (format === 'heading') return `## ${body}`;
+    if (format === 'bullet') return `- ${body}`;
+    return `${i + 1}. ${body}`;
+  }).join('\n');
+
+  return {
+    value: value.slice(0, lineStart) + formatted + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + formatted.length,
+  };
+};
+
+export const insertLink = (value: string, start: number, end: number, href: string): EditResult => {
+  const label = value.slice(start, end) || 'link';
+  const link = `[${label}](${href})`;
+  return {
+    value: value.slice(0, start) + link + value.slice(end),
+    selectionStart: start + 1,
+    selectionEnd: start + 1 + label.length,
+  };
+};
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+
+const inlineToHtml = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return escapeHtml(node.text);
+      case 'bold': return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case 'italic': return `<em>${inlineToHtml(node.children)}</em>`;
+      case 'underline': return `<u>${inlineToHtml(node.children)}</u>`;
+      case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+      case 'link': return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+      // Kept as written, so the link still works when the file is imported again
+      case 'wikilink': return escapeHtml(`[[${node.title}]]`);
+    }
+  }).join('');
+
+/** Renders a note body to an HTML fragment. Headings start at `<h2>` so the note title can be the `<h1>`. */
+export const markdownToHtml = (source: string): string =>
+  parseMarkdown(source).map(block => {
+    if (block.type === 'heading') return `<h${block.level + 1}>${inlineToHtml(block.children)}</h${block.level + 1}>`;
+    if (block.type === 'paragraph') return `<p>${block.lines.map(inlineToHtml).join('<br>')}</p>`;
+    if (block.type === 'tasks') {
+      const items = block.items.map(item =>
+        `<li class="task${item.indent ? ' sub' : ''}"><input type="checkbox" disabled${item.checked ? ' checked' : ''}> ${inlineToHtml(item.children)}</li>`
+      );
+      return `<ul class="tasks">${items.join('')}</ul>`;
+    }
+    const tag = block.ordered ? 'ol' : 'ul';
+    return `<${tag}>${block.items.map(item => `<li>${inlineToHtml(item)}</li>`).join('')}</${tag}>`;
+  }).join('\n');
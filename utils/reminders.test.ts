@@ -0,0 +1,92 @@
+
+import { describe, it, expect } from 'vitest';
+import { Note, Reminder } from '../types';
+import { nextOccurrence, markNotified, dueReminders, upcomingNotes, normalizeReminder } from './reminders';
+
+// Local times, so the steps follow the calendar the way they do on a device
+const at = (year: number, month: number, day: number, hour = 9) => new Date(year, month - 1, day, hour).getTime();
+
+const withReminder = (id: string, reminder: Reminder, changes: Partial<Note> = {}): Note =>
+  ({ id, title: id, content: '', isPinned: false, createdAt: 0, lastModified: 0, reminder, ...changes });
+
+describe('nextOccurrence', () => {
+  it('has no next occurrence for one-off reminders', () => {
+    expect(nextOccurrence(at(2024, 5, 1), 'none', at(2024, 5, 2))).toBeNull();
+  });
+
+  it('steps daily and weekly reminders past `after`', () => {
+    expect(nextOccurrence(at(2024, 5, 1), 'daily', at(2024, 5, 1))).toBe(at(2024, 5, 2));
+    expect(nextOccurrence(at(2024, 5, 1), 'daily', at(2024, 5, 4, 12))).toBe(at(2024, 5, 5));
+    expect(nextOccurrence(at(2024, 5, 1), 'weekly', at(2024, 5, 20))).toBe(at(2024, 5, 22));
+  });
+
+  it('returns the first occurrence strictly after `after`', () => {
+    expect(nextOccurrence(at(2024, 5, 1), 'daily', at(2024, 5, 3))).toBe(at(2024, 5, 4));
+  });
+
+  it('keeps monthly reminders on the 31st from drifting through short months', () => {
+    const start = at(2024, 1, 31);
+    expect(nextOccurrence(start, 'monthly', start)).toBe(at(2024, 2, 29));
+    expect(nextOccurrence(start, 'monthly', at(2024, 3, 1))).toBe(at(2024, 3, 31));
+    expect(nextOccurrence(start, 'monthly', at(2024, 4, 1))).toBe(at(2024, 4, 30));
+  });
+
+  it('keeps the time of day across a daylight saving change', () => {
+    const next = new Date(nextOccurrence(at(2024, 3, 9), 'daily', at(2024, 3, 12, 10))!);
+    expect(next.getDate()).toBe(13);
+    expect(next.getHours()).toBe(9);
+  });
+});
+
+describe('markNotified', () => {
+  it('moves repeating reminders on to their next occurrence', () => {
+    const reminder: Reminder = { dueAt: at(2024, 5, 1), repeat: 'weekly', notifiedAt: null };
+    expect(markNotified(reminder, at(2024, 5, 9))).toEqual({ dueAt: at(2024, 5, 15), repeat: 'weekly', notifiedAt: null });
+  });
+
+  it('leaves one-off reminders in place, marked as announced', () => {
+    const reminder: Reminder = { dueAt: at(2024, 5, 1), repeat: 'none', notifiedAt: null };
+    expect(markNotified(reminder, at(2024, 5, 2))).toEqual({ ...reminder, notifiedAt: reminder.dueAt });
+  });
+});
+
+describe('dueReminders', () => {
+  it('finds reminders that came due and have not been announced', () => {
+    const now = at(2024, 5, 10);
+    const notes = [
+      withReminder('due', { dueAt: at(2024, 5, 9), repeat: 'none', notifiedAt: null }),
+      withReminder('announced', { dueAt: at(2024, 5, 9), repeat: 'none', notifiedAt: at(2024, 5, 9) }),
+      withReminder('later', { dueAt: at(2024, 5, 11), repeat: 'none', notifiedAt: null }),
+      withReminder('trashed', { dueAt: at(2024, 5, 9), repeat: 'none', notifiedAt: null }, { deletedAt: at(2024, 5, 9) }),
+    ];
+    expect(dueReminders(notes, now).map(n => n.id)).toEqual(['due']);
+  });
+
+  it('announces a repeating reminder again once it has moved on', () => {
+    const note = withReminder('daily', { dueAt: at(2024, 5, 1), repeat: 'daily', notifiedAt: null });
+    const moved = { ...note, reminder: markNotified(note.reminder!, at(2024, 5, 1)) };
+    expect(dueReminders([moved], at(2024, 5, 1, 12))).toEqual([]);
+    expect(dueReminders([moved], at(2024, 5, 2, 10))).toEqual([moved]);
+  });
+});
+
+describe('upcomingNotes', () => {
+  it('lists overdue and soon-due notes, soonest first', () => {
+    const now = at(2024, 5, 10);
+    const notes = [
+      withReminder('next-week', { dueAt: at(2024, 5, 16), repeat: 'none', notifiedAt: null }),
+      withReminder('overdue', { dueAt: at(2024, 5, 8), repeat: 'none', notifiedAt: at(2024, 5, 8) }),
+      withReminder('far', { dueAt: at(2024, 6, 30), repeat: 'none', notifiedAt: null }),
+      withReminder('tomorrow', { dueAt: at(2024, 5, 11), repeat: 'none', notifiedAt: null }),
+    ];
+    expect(upcomingNotes(notes, now).map(n => n.id)).toEqual(['overdue', 'tomorrow', 'next-week']);
+  });
+});
+
+describe('normalizeReminder', () => {
+  it('falls back to a one-off reminder for unknown repeats and drops unusable ones', () => {
+    expect(normalizeReminder({ dueAt: 5, repeat: 'hourly' })).toEqual({ dueAt: 5, repeat: 'none', notifiedAt: null });
+    expect(normalizeReminder({ dueAt: 'tomorrow' })).toBeNull();
+    expect(normalizeReminder(null)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+
+import { addDays, addWeeks, addMonths, format, isToday, isTomorrow } from 'date-fns';
+import { Note, Reminder, ReminderRepeat } from '../types';
+import { isTrashed } from './trash';
+
+export const REPEAT_LABELS: Record<ReminderRepeat, string> = {
+  none: 'Once',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+// How far ahead the "Upcoming" section looks.
+export const UPCOMING_DAYS = 7;
+
+const REPEAT_STEP: Record<Exclude<ReminderRepeat, 'none'>, (date: number, amount: number) => Date> = {
+  daily: addDays,
+  weekly: addWeeks,
+  monthly: addMonths,
+};
+
+/** The first occurrence of a repeating reminder strictly after `after`. */
+export const nextOccurrence = (dueAt: number, repeat: ReminderRepeat, after: number): number | null => {
+  if (repeat === 'none') return null;
+  // Step from the original time each round so monthly reminders on the 31st don't drift.
+  let next = dueAt;
+  for (let i = 1; next <= after; i++) next = REPEAT_STEP[repeat](dueAt, i).getTime();
+  return next;
+};
+
+const hasReminder = (note: Note): note is Note & { reminder: Reminder } => !!note.reminder && !isTrashed(note);
+
+export const isOverdue = (note: Note, now: number): boolean => hasReminder(note) && note.reminder.dueAt <= now;
+
+/** Notes whose reminder has come due and hasn't been announced yet. */
+export const dueReminders = (notes: Note[], now: number): Note[] =>
+  notes.filter(n => hasReminder(n) && n.reminder.dueAt <= now && n.reminder.notifiedAt !== n.reminder.dueAt);
+
+/**
+ * Marks a reminder as announced. Repeating reminders move on to their next
+ * occurrence; one-off reminders stay in place so the note shows as overdue.
+ */
+export const markNotified = (reminder: Reminder, now: number): Reminder => {
+  const next = nextOccurrence(reminder.dueAt, reminder.repeat, now);
+  return next !== null ? { ...reminder, dueAt: next, notifiedAt: null } : { ...reminder, notifiedAt: reminder.dueAt };
+};
+
+/** Overdue notes and notes due in the next `UPCOMING_DAYS`, soonest first. */
+export const upcomingNotes = (notes: Note[], now: number): Note[] => {
+  const horizon = addDays(now, UPCOMING_DAYS).getTime();
+  return notes
+    .filter(n => hasReminder(n) && n.reminder.dueAt <= horizon)
+    .sort((a, b) => a.reminder!.dueAt - b.reminder!.dueAt);
+};
+
+export const formatDue = (dueAt: number): string => {
+  if (isToday(dueAt)) return `Today, ${format(dueAt, 'h:mm a')}`;
+  if (isTomorrow(dueAt)) return `Tomorrow, ${format(dueAt, 'h:mm a')}`;
+  return format(dueAt, 'MMM d, h:mm a');
+};
+
+/**
+ * Elects one tab per workspace to announce reminders, so several open tabs don't all alert for
+ * the same one. `onLead` runs once this tab holds the lock; the returned function gives it up.
+ */
+export const electReminderTab = (workspaceId: string, onLead: () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onLead();
+    return () => {};
+  }
+  const abort = new AbortController();
+  let release = () => {};
+  const held = new Promise<void>(resolve => { release = resolve; });
+  navigator.locks
+    .request(`notepad_pro_reminders:${workspaceId}`, { signal: abort.signal }, () => {
+      onLead();
+      return held;
+    })
+    .catch(() => {});
+  return () => {
+    abort.abort();
+    release();
+  };
+};
+
+/** Asks for notification permission the first time a reminder is set. Denying it is fine: alerts fall back to the in-app banner. */
+export const requestNotificationPermission = (): void => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+};
+
+/** Shows a system notification if allowed. Returns false when the caller should rely on the in-app banner alone. */
+export const sendNotification = (noteId: string, title: string, body: string): boolean => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  try {
+    // The tag makes a repeat alert for the same note replace the old one.
+    new Notification(title, { body, tag: `reminder:${noteId}` });
+    return true;
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker.
+    return false;
+  }
+};
+
+/** Validates a reminder from an import; anything unusable becomes no reminder. */
+export const normalizeReminder = (value: unknown): Reminder | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const r = value as Record<string, unknown>;
+  if (typeof r.dueAt !== 'number' || !Number.isFinite(r.dueAt)) return null;
+  const repeat = typeof r.repeat === 'string' && r.repeat in REPEAT_LABELS ? r.repeat as ReminderRepeat : 'none';
+  return { dueAt: r.dueAt, repeat, notifiedAt: typeof r.notifiedAt === 'number' ? r.notifiedAt : null };
+};
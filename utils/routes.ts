@@ -0,0 +1,95 @@
+
+import { SortOption, ViewState } from '../types';
+
+export type Route =
+  | { view: Exclude<ViewState, 'editor'> }
+  | { view: 'editor', noteId: string };
+
+/** Everything the URL carries: the screen, plus the list's search and sort. */
+export interface AppLocation {
+  route: Route;
+  query: string;
+  sortBy: SortOption;
+}
+
+// History entries this app pushed carry their depth, so "back" knows whether it would leave the app.
+interface HistoryState {
+  depth: number;
+}
+
+export const DEFAULT_SORT = SortOption.MODIFIED_DESC;
+
+const SORT_SLUGS: Record<SortOption, string> = {
+  [SortOption.CREATED_DESC]: 'created',
+  [SortOption.CREATED_ASC]: 'oldest',
+  [SortOption.MODIFIED_DESC]: 'modified',
+  [SortOption.TITLE_ASC]: 'title',
+  [SortOption.DUE_ASC]: 'due',
+};
+
+const STATIC_ROUTES: Record<string, Route> = {
+  '/': { view: 'list' },
+  '/settings': { view: 'settings' },
+  '/settings/trash': { view: 'trash' },
+  '/profile': { view: 'profile' },
+  '/profile/stats': { view: 'stats' },
+};
+
+const NOTE_PATH_RE = /^\/notes\/([^/]+)$/;
+
+/** Reads a location from a URL. Unknown paths fall back to the list. */
+export const parseLocation = (pathname: string, search: string): AppLocation => {
+  const params = new URLSearchParams(search);
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const noteMatch = NOTE_PATH_RE.exec(path);
+  const sortSlug = params.get('sort');
+  const sortBy = (Object.keys(SORT_SLUGS) as SortOption[]).find(option => SORT_SLUGS[option] === sortSlug);
+
+  return {
+    route: noteMatch ? { view: 'editor', noteId: decodeURIComponent(noteMatch[1]) } : STATIC_ROUTES[path] ?? { view: 'list' },
+    query: params.get('q') ?? '',
+    sortBy: sortBy ?? DEFAULT_SORT,
+  };
+};
+
+/** Builds the URL for a location. Search and sort only appear on the list, and only when not the default. */
+export const buildUrl = ({ route, query, sortBy }: AppLocation): string => {
+  if (route.view === 'editor') return `/notes/${encodeURIComponent(route.noteId)}`;
+  const path = Object.keys(STATIC_ROUTES).find(p => STATIC_ROUTES[p].view === route.view) ?? '/';
+  if (route.view !== 'list') return path;
+
+  const params = new URLSearchParams();
+  if (query) params.set('q', query);
+  if (sortBy !== DEFAULT_SORT) params.set('sort', SORT_SLUGS[sortBy]);
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+/**
+ * Reads text shared from another app through the manifest's share target (`/share?title&text&url`).
+ * Many apps put the link inside `text`, so `url` is only appended when it isn't already there.
+ */
+export const readSharedNote = (pathname: string, search: string): { title: string, content: string } | null => {
+  if (pathname.replace(/\/+$/, '') !== '/share') return null;
+  const params = new URLSearchParams(search);
+  const title = params.get('title')?.trim() ?? '';
+  const text = params.get('text')?.trim() ?? '';
+  const url = params.get('url')?.trim() ?? '';
+  const content = url && !text.includes(url) ? [text, url].filter(Boolean).join('\n\n') : text;
+  return title || content ? { title, content } : null;
+};
+
+export const currentLocation = (): AppLocation => parseLocation(window.location.pathname, window.location.search);
+
+const historyDepth = (): number => (window.history.state as HistoryState | null)?.depth ?? 0;
+
+export const pushLocation = (location: AppLocation): void => {
+  window.history.pushState({ depth: historyDepth() + 1 } satisfies HistoryState, '', buildUrl(location));
+};
+
+export const replaceLocation = (location: AppLocation): void => {
+  window.history.replaceState({ depth: historyDepth() } satisfies HistoryState, '', buildUrl(location));
+};
+
+/** True when going back stays inside the app rather than returning to the previous site. */
+export const canGoBack = (): boolean => historyDepth() > 0;
@@ -0,0 +1,337 @@
+
+import { Note } from '../types';
+
+// A hit in the title counts this many times more than one in the body.
+const TITLE_WEIGHT = 4;
+// Prefix matches ("plan" → "planning") rank below exact word matches.
+const PREFIX_WEIGHT = 0.6;
+const SNIPPET_RADIUS = 40;
+const MAX_SNIPPETS = 2;
+
+export interface QueryTerm {
+  /** Normalized text: a single word, or space-separated words for a phrase. */
+  text: string;
+  phrase: boolean;
+  /** Only match in the title (`title:`). */
+  titleOnly: boolean;
+}
+
+export interface SearchQuery {
+  terms: QueryTerm[];
+  excluded: QueryTerm[];
+  pinned?: boolean;
+  tag?: string;
+  notebook?: string;
+  /** `before:` / `after:` bounds on `lastModified`, as timestamps. */
+  before?: number;
+  after?: number;
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+interface IndexedDoc {
+  note: Note;
+  titleText: string;
+  contentText: string;
+  terms: Map<string, { title: number, content: number }>;
+}
+
+/**
+ * Inverted index over notes, updated in place by `updateSearchIndex`. Like
+ * `saveNoteChanges`, it relies on notes being immutable: only notes whose
+ * object reference changed since the last update are re-tokenized.
+ */
+export interface SearchIndex {
+  docs: Map<string, IndexedDoc>;
+  postings: Map<string, Set<string>>;
+  /** Sorted vocabulary for prefix lookups; rebuilt lazily after changes. */
+  vocabulary: string[] | null;
+}
+
+/** Lowercases and strips accents so "Café" matches "cafe". */
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const tokenize = (text: string): string[] =>
+  normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const createSearchIndex = (): SearchIndex => ({ docs: new Map(), postings: new Map(), vocabulary: null });
+
+const removeDoc = (index: SearchIndex, id: string) => {
+  const doc = index.docs.get(id);
+  if (!doc) return;
+  doc.terms.forEach((_, term) => {
+    const ids = index.postings.get(term)!;
+    ids.delete(id);
+    if (ids.size === 0) index.postings.delete(term);
+  });
+  index.docs.delete(id);
+  index.vocabulary = null;
+};
+
+const addDoc = (index: SearchIndex, note: Note) => {
+  const titleTokens = tokenize(note.title);
+  const contentTokens = tokenize(note.content);
+  const terms = new Map<string, { title: number, content: number }>();
+  titleTokens.forEach(t => {
+    const counts = terms.get(t) ?? { title: 0, content: 0 };
+    counts.title++;
+    terms.set(t, counts);
+  });
+  contentTokens.forEach(t => {
+    const counts = terms.get(t) ?? { title: 0, content: 0 };
+    counts.content++;
+    terms.set(t, counts);
+  });
+  terms.forEach((_, term) => {
+    if (!index.postings.has(term)) index.postings.set(term, new Set());
+    index.postings.get(term)!.add(note.id);
+  });
+  index.docs.set(note.id, { note, titleText: titleTokens.join(' '), contentText: contentTokens.join(' '), terms });
+  index.vocabulary = null;
+};
+
+/** Brings the index in line with `notes`, touching only added, edited and removed notes. */
+export const updateSearchIndex = (index: SearchIndex, notes: Note[]): void => {
+  const ids = new Set(notes.map(n => n.id));
+  Array.from(index.docs.keys()).forEach(id => {
+    if (!ids.has(id)) removeDoc(index, id);
+  });
+  notes.forEach(note => {
+    if (index.docs.get(note.id)?.note === note) return;
+    removeDoc(index, note.id);
+    addDoc(index, note);
+  });
+};
+
+const termsWithPrefix = (index: SearchIndex, prefix: string): string[] => {
+  if (!index.vocabulary) index.vocabulary = Array.from(index.postings.keys()).sort();
+  const vocab = index.vocabulary;
+  let lo = 0;
+  let hi = vocab.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (vocab[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const matches: string[] = [];
+  for (let i = lo; i < vocab.length && vocab[i].startsWith(prefix); i++) matches.push(vocab[i]);
+  return matches;
+};
+
+// `new Date('2024-05-01')` is midnight UTC, which is the day before for anyone west of UTC, so
+// plain dates are read as local midnight.
+const parseDate = (value: string): number | undefined => {
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (day) {
+    const [year, month, date] = day.slice(1).map(Number);
+    const local = new Date(year, month - 1, date);
+    return local.getMonth() === month - 1 && local.getDate() === date ? local.getTime() : undefined;
+  }
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? time : undefined;
+};
+
+const toTerm = (text: string, phrase: boolean, titleOnly: boolean): QueryTerm | null => {
+  const words = tokenize(text);
+  if (words.length === 0) return null;
+  return { text: words.join(' '), phrase: phrase || words.length > 1, titleOnly };
+};
+
+/**
+ * Parses a search box query. Supports plain words (prefix matched), `"quoted phrases"`,
+ * `-excluded` words or phrases, and the filters `title:`, `tag:`, `notebook:`,
+ * `pinned:true|false`, `before:YYYY-MM-DD` and `after:YYYY-MM-DD`.
+ */
+export const parseQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], excluded: [] };
+  const tokenRe = /(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRe.exec(input)) !== null) {
+    const [raw, minus, field, quoted, bare] = match;
+    const value = quoted ?? bare ?? '';
+    const key = field?.toLowerCase();
+
+    if (key === 'pinned' && (value === 'true' || value === 'false')) {
+      query.pinned = value === 'true';
+    } else if (key === 'tag' && value) {
+      query.tag = value.replace(/^#/, '').toLowerCase();
+    } else if (key === 'notebook' && value) {
+      query.notebook = value.toLowerCase();
+    } else if ((key === 'before' || key === 'after') && parseDate(value) !== undefined) {
+      query[key] = parseDate(value);
+    } else {
+      // Unknown fields are just text, so searching for "10:30" still works.
+      const text = key && key !== 'title' ? raw.replace(/^-/, '') : value;
+      const term = toTerm(text, quoted !== undefined, key === 'title');
+      if (term) (minus ? query.excluded : query.terms).push(term);
+    }
+  }
+
+  return query;
+};
+
+export const hasTextTerms = (query: SearchQuery): boolean => query.terms.length > 0;
+
+const isEmptyQuery = (query: SearchQuery): boolean =>
+  query.terms.length === 0 && query.excluded.length === 0 && query.pinned === undefined &&
+  !query.tag && !query.notebook && query.before === undefined && query.after === undefined;
+
+const containsPhrase = (text: string, phrase: string): boolean => ` ${text} `.includes(` ${phrase} `);
+
+/** Score for one term in one document, or 0 if it doesn't match. */
+const scoreTerm = (index: SearchIndex, doc: IndexedDoc, term: QueryTerm, candidates: string[]): number => {
+  if (term.phrase) {
+    const inTitle = containsPhrase(doc.titleText, term.text);
+    const inContent = !term.titleOnly && containsPhrase(doc.contentText, term.text);
+    return (inTitle ? TITLE_WEIGHT : 0) + (inContent ? 1 : 0);
+  }
+  let score = 0;
+  candidates.forEach(candidate => {
+    const counts = doc.terms.get(candidate);
+    if (!counts) return;
+    const hits = counts.title * TITLE_WEIGHT + (term.titleOnly ? 0 : counts.content);
+    if (hits === 0) return;
+    const idf = Math.log(1 + index.docs.size / index.postings.get(candidate)!.size);
+    score += hits * idf * (candidate === term.text ? 1 : PREFIX_WEIGHT);
+  });
+  return score;
+};
+
+const matchesFilters = (note: Note, query: SearchQuery): boolean =>
+  (query.pinned === undefined || note.isPinned === query.pinned) &&
+  (!query.tag || (note.tags ?? []).includes(query.tag)) &&
+  (!query.notebook || (note.notebook ?? '').toLowerCase() === query.notebook) &&
+  (query.before === undefined || note.lastModified < query.before) &&
+  (query.after === undefined || note.lastModified >= query.after);
+
+/** Ids of notes that could match a term, straight from the postings lists. */
+const docIdsFor = (index: SearchIndex, term: QueryTerm, candidates: string[]): Set<string> => {
+  if (term.phrase) {
+    const [first, ...rest] = term.text.split(' ').map(word => index.postings.get(word) ?? new Set<string>());
+    return new Set(Array.from(first).filter(id => rest.every(ids => ids.has(id))));
+  }
+  const ids = new Set<string>();
+  candidates.forEach(candidate => index.postings.get(candidate)!.forEach(id => ids.add(id)));
+  return ids;
+};
+
+/**
+ * Runs a query against the index. Returns a score per matching note id (every
+ * term must match), or null when the query is empty and everything matches.
+ */
+export const searchNotes = (index: SearchIndex, query: SearchQuery): Map<string, number> | null => {
+  if (isEmptyQuery(query)) return null;
+
+  const prepare = (term: QueryTerm) => ({ term, candidates: term.phrase ? [] : termsWithPrefix(index, term.text) });
+  const terms = query.terms.map(prepare);
+  const excluded = query.excluded.map(prepare);
+
+  // Narrow to notes containing every term before scoring anything.
+  let ids: string[] = Array.from(index.docs.keys());
+  terms.forEach(({ term, candidates }) => {
+    const matching = docIdsFor(index, term, candidates);
+    ids = ids.filter(id => matching.has(id));
+  });
+
+  const results = new Map<string, number>();
+  ids.forEach(id => {
+    const doc = index.docs.get(id)!;
+    if (!matchesFilters(doc.note, query)) return;
+    if (excluded.some(({ term, candidates }) => scoreTerm(index, doc, term, candidates) > 0)) return;
+    let total = 0;
+    for (const { term, candidates } of terms) {
+      const score = scoreTerm(index, doc, term, candidates);
+      if (score === 0) return;
+      total += score;
+    }
+    results.set(id, total);
+  });
+
+  return results;
+};
+
+/** Normalizes `text` while remembering which original character each normalized one came from. */
+const normalizeWithMap = (text: string): { normalized: string, map: number[] } => {
+  let normalized = '';
+  const map: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    for (const c of normalizeText(char)) {
+      normalized += c;
+      map.push(offset);
+    }
+    return offset + char.length;
+  }, 0);
+  return { normalized, map };
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Ranges in `text` (original offsets) matched by the query's words and phrases. */
+const matchRanges = (text: string, query: SearchQuery, titleOnly: boolean): [number, number][] => {
+  const { normalized, map } = normalizeWithMap(text);
+  const terms = query.terms.filter(t => titleOnly || !t.titleOnly);
+  if (terms.length === 0) return [];
+
+  // Phrase words may be separated by any run of non-word characters in the original.
+  const patterns = terms.map(t => t.text.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+') + (t.phrase ? '(?![\\p{L}\\p{N}])' : ''));
+  const re = new RegExp(`(?<![\\p{L}\\p{N}])(?:${patterns.join('|')})`, 'gu');
+  const ranges: [number, number][] = [];
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(normalized)) !== null) {
+    if (match[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    const end = match.index + match[0].length;
+    ranges.push([map[match.index], end < map.length ? map[end] : text.length]);
+  }
+  return ranges;
+};
+
+const splitByRanges = (text: string, ranges: [number, number][], from = 0, to = text.length): HighlightPart[] => {
+  const parts: HighlightPart[] = [];
+  let pos = from;
+  ranges.filter(([s, e]) => s < to && e > from).forEach(([s, e]) => {
+    const start = Math.max(s, from);
+    const end = Math.min(e, to);
+    if (start > pos) parts.push({ text: text.slice(pos, start), match: false });
+    if (end > start) parts.push({ text: text.slice(start, end), match: true });
+    pos = Math.max(pos, end);
+  });
+  if (pos < to) parts.push({ text: text.slice(pos, to), match: false });
+  return parts;
+};
+
+/** Splits a title into highlighted and plain parts. */
+export const highlightText = (text: string, query: SearchQuery): HighlightPart[] =>
+  splitByRanges(text, matchRanges(text, query, true));
+
+/**
+ * Short excerpts of `text` around the first matches, each a list of highlighted parts.
+ * Returns an empty list when nothing in the body matches (e.g. a title-only hit).
+ */
+export const buildSnippets = (text: string, query: SearchQuery): HighlightPart[][] => {
+  const flat = text.replace(/\s+/g, ' ');
+  const ranges = matchRanges(flat, query, false);
+  const windows: [number, number][] = [];
+
+  ranges.forEach(([start, end]) => {
+    const from = Math.max(0, start - SNIPPET_RADIUS);
+    const to = Math.min(flat.length, end + SNIPPET_RADIUS);
+    const last = windows[windows.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else if (windows.length < MAX_SNIPPETS) windows.push([from, to]);
+  });
+
+  return windows.map(([from, to]) => {
+    const parts = splitByRanges(flat, ranges, from, to);
+    if (from > 0) parts.unshift({ text: '…', match: false });
+    if (to < flat.length) parts.push({ text: '…', match: false });
+    return parts;
+  });
+};
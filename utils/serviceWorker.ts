@@ -0,0 +1,40 @@
+
+// How often an open tab asks the server whether a new version was deployed.
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker emitted by the production build. When a new version has
+ * installed and is waiting, `onUpdateReady` receives a function that activates it and
+ * reloads the page. Does nothing in development, where there is no sw.js.
+ */
+export const registerServiceWorker = (onUpdateReady: (applyUpdate: () => void) => void): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  let reloading = false;
+  let updateRequested = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    // The first install also takes control (clients.claim); only reload when the user asked.
+    if (!updateRequested || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  const offer = (worker: ServiceWorker) => onUpdateReady(() => {
+    updateRequested = true;
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  navigator.serviceWorker.register('/sw.js').then(registration => {
+    if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update.
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+      });
+    });
+
+    setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+  }).catch(error => console.error('Service worker registration failed', error));
+};
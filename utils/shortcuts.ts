@@ -0,0 +1,63 @@
+
+// Mac keyboards label the command key; everyone else uses Ctrl.
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const MOD_KEY = IS_MAC ? '⌘' : 'Ctrl';
+
+export interface Shortcut {
+  keys: string[];
+  description: string;
+}
+
+/** Everything the cheat sheet lists, grouped by where the keys work. */
+export const SHORTCUT_GROUPS: { title: string, shortcuts: Shortcut[] }[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: [MOD_KEY, 'K'], description: 'Open the command palette' },
+      { keys: ['N'], description: 'New note' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+    ],
+  },
+  {
+    title: 'Note List',
+    shortcuts: [
+      { keys: ['/'], description: 'Search notes' },
+      { keys: ['←', '↑', '↓', '→'], description: 'Move between notes' },
+      { keys: ['Enter'], description: 'Open the highlighted note' },
+      { keys: ['Space'], description: 'Select the highlighted note' },
+      { keys: ['Esc'], description: 'Leave selection mode' },
+    ],
+  },
+  {
+    title: 'Editor',
+    shortcuts: [
+      { keys: ['Esc'], description: 'Close the note' },
+      { keys: [MOD_KEY, 'B'], description: 'Bold' },
+      { keys: [MOD_KEY, 'I'], description: 'Italic' },
+      { keys: [MOD_KEY, 'U'], description: 'Underline' },
+      { keys: ['[['], description: 'Link to another note' },
+    ],
+  },
+];
+
+/** True when keys typed now would go into a text field, so single-key shortcuts must stay out of the way. */
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const ARROW_STEPS: Record<string, (columns: number) => number> = {
+  ArrowLeft: () => -1,
+  ArrowRight: () => 1,
+  ArrowUp: columns => -columns,
+  ArrowDown: columns => columns,
+};
+
+export const isArrowKey = (key: string): boolean => key in ARROW_STEPS;
+
+/** The card an arrow key moves to in a grid laid out row by row. Stops at the edges rather than wrapping. */
+export const gridStep = (index: number, key: string, count: number, columns: number): number => {
+  const next = index + ARROW_STEPS[key](Math.max(1, columns));
+  // Down from a row above a short last row lands on the last card
+  if (key === 'ArrowDown' && next >= count && Math.floor(index / columns) < Math.floor((count - 1) / columns)) return count - 1;
+  return next < 0 || next >= count ? index : next;
+};
@@ -0,0 +1,119 @@
+
+import { Note } from '../types';
+import { format, startOfWeek, addDays, addWeeks, differenceInCalendarWeeks } from 'date-fns';
+
+export interface TextStats {
+  words: number;
+  characters: number;
+}
+
+// Letters and digits, keeping contractions like "don't" as one word. Markdown symbols never match.
+const WORD_RE = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+const WORDS_PER_MINUTE = 200;
+
+export const HEATMAP_WEEKS = 20;
+export const CHART_WEEKS = 12;
+
+/** Characters are counted as code points, so an emoji is one. */
+export const countText = (text: string): TextStats => ({
+  words: text.match(WORD_RE)?.length ?? 0,
+  characters: text.length - (text.match(/[\uD800-\uDBFF]/g)?.length ?? 0),
+});
+
+export const readingMinutes = (words: number): number => Math.ceil(words / WORDS_PER_MINUTE);
+
+// Edits replace a note object rather than changing it, so counts are kept per object and only
+// notes that changed since the last call are counted again.
+const countCache = new WeakMap<Note, TextStats>();
+
+export const noteTextStats = (note: Note): TextStats => {
+  let stats = countCache.get(note);
+  if (!stats) {
+    stats = countText(note.content);
+    countCache.set(note, stats);
+  }
+  return stats;
+};
+
+/** Local calendar day, as stored in the writing activity log. */
+export const dayKey = (time: number): string => format(time, 'yyyy-MM-dd');
+
+// Whole days since the epoch, so consecutive keys differ by exactly one whatever the time zone.
+const dayNumber = (key: string): number => {
+  const [y, m, d] = key.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86_400_000;
+};
+
+export interface WritingStats {
+  notes: number;
+  words: number;
+  characters: number;
+  /** Notes created in each of the last `CHART_WEEKS` weeks, oldest first. */
+  weeks: { start: number, count: number }[];
+  /** Activity per day key: notes created or last changed that day, plus edit sessions. */
+  days: Record<string, number>;
+  /** Days in a row with activity, up to today (or yesterday, while today is still open). */
+  currentStreak: number;
+  longestStreak: number;
+}
+
+/** Totals and activity for the Statistics screen. `activity` is the stored per-day edit sessions. */
+export const writingStats = (notes: Note[], activity: Record<string, number>, now: number): WritingStats => {
+  const days: Record<string, number> = { ...activity };
+  const bump = (time: number) => {
+    const key = dayKey(time);
+    days[key] = (days[key] ?? 0) + 1;
+  };
+  const firstWeek = addWeeks(startOfWeek(now), -(CHART_WEEKS - 1)).getTime();
+  const weeks = Array.from({ length: CHART_WEEKS }, (_, i) => ({ start: addWeeks(firstWeek, i).getTime(), count: 0 }));
+  let words = 0;
+  let characters = 0;
+
+  notes.forEach(note => {
+    const counts = noteTextStats(note);
+    words += counts.words;
+    characters += counts.characters;
+    bump(note.createdAt);
+    if (dayKey(note.lastModified) !== dayKey(note.createdAt)) bump(note.lastModified);
+    const week = differenceInCalendarWeeks(note.createdAt, firstWeek);
+    if (week >= 0 && week < CHART_WEEKS) weeks[week].count++;
+  });
+
+  const active = Object.keys(days).filter(key => days[key] > 0).map(dayNumber).sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+  active.forEach((day, i) => {
+    run = i > 0 && active[i - 1] === day - 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+  const activeDays = new Set(active);
+  let day = dayNumber(dayKey(now));
+  if (!activeDays.has(day)) day--;
+  let currentStreak = 0;
+  while (activeDays.has(day - currentStreak)) currentStreak++;
+
+  return { notes: notes.length, words, characters, weeks, days, currentStreak, longestStreak };
+};
+
+export interface HeatmapDay {
+  key: string;
+  count: number;
+  /** Past today; drawn empty. */
+  isFuture: boolean;
+}
+
+/** The last `HEATMAP_WEEKS` weeks as columns of seven days, Sunday first, ending with this week. */
+export const heatmapWeeks = (days: Record<string, number>, now: number): HeatmapDay[][] => {
+  const first = addWeeks(startOfWeek(now), -(HEATMAP_WEEKS - 1));
+  const today = dayKey(now);
+  return Array.from({ length: HEATMAP_WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const key = dayKey(addDays(first, w * 7 + d).getTime());
+      return { key, count: days[key] ?? 0, isFuture: key > today };
+    })
+  );
+};
+
+/** 0 for no activity, then 1-4 relative to the busiest day shown. */
+export const activityLevel = (count: number, max: number): number =>
+  count <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((count / max) * 4));
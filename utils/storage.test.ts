@@ -0,0 +1,109 @@
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Node has no Web Storage; the migrations only need get, set and remove.
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+// storage.ts keeps its open database and workspace per page load, so each test loads it afresh
+const loadStorage = () => import('./storage');
+
+// The database as version 1 of the app left it
+const createVersion1 = (notes: object[]): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open('notepad_pro', 1);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const store = db.createObjectStore('notes', { keyPath: 'id' });
+      db.createObjectStore('revisions', { keyPath: 'id' }).createIndex('noteId', 'noteId');
+      db.createObjectStore('kv');
+      notes.forEach(n => store.put(n));
+    };
+    req.onsuccess = () => {
+      req.result.close();
+      resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const legacyNote = (id: string, color?: string) =>
+  ({ id, title: `Note ${id}`, content: 'Body', isPinned: false, createdAt: 1000, lastModified: 2000, ...(color && { color }) });
+
+beforeEach(() => {
+  vi.resetModules();
+  globalThis.indexedDB = new IDBFactory();
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.stubGlobal('sessionStorage', new MemoryStorage());
+});
+
+describe('storage migrations', () => {
+  it('moves notes, profile, settings and history out of localStorage', async () => {
+    localStorage.setItem('notepad_pro_notes', JSON.stringify([legacyNote('a'), legacyNote('b')]));
+    localStorage.setItem('notepad_pro_profile', JSON.stringify({ name: 'Sam', avatar: null }));
+    localStorage.setItem('notepad_pro_settings', JSON.stringify({ trashRetentionDays: 7 }));
+    localStorage.setItem('notepad_pro_revisions', JSON.stringify({
+      a: [{ id: 'r1', noteId: 'a', title: 'Note a', content: 'Old', createdAt: 1500 }],
+    }));
+    const storage = await loadStorage();
+
+    expect((await storage.loadNotes()).map(n => n.id).sort()).toEqual(['a', 'b']);
+    expect(await storage.loadProfile()).toEqual({ name: 'Sam', avatar: null });
+    expect((await storage.loadSettings()).trashRetentionDays).toBe(7);
+    expect((await storage.loadRevisions('a')).map(r => r.content)).toEqual(['Old']);
+    expect(storage.takeMigrationWarnings()).toEqual([]);
+    expect(localStorage.getItem('notepad_pro_notes')).toBeNull();
+    expect(localStorage.getItem('notepad_pro_revisions')).toBeNull();
+  });
+
+  it('keeps unreadable legacy data in place and warns about it', async () => {
+    localStorage.setItem('notepad_pro_notes', '{not json');
+    localStorage.setItem('notepad_pro_profile', JSON.stringify({ name: 'Sam', avatar: null }));
+    const storage = await loadStorage();
+
+    expect(await storage.loadNotes()).toEqual([]);
+    expect((await storage.loadProfile()).name).toBe('Sam');
+    const warnings = storage.takeMigrationWarnings();
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].kind).toBe('corrupt');
+    expect(localStorage.getItem('notepad_pro_notes')).toBe('{not json');
+    expect(storage.takeMigrationWarnings()).toEqual([]);
+  });
+
+  it('only imports legacy data into the original workspace', async () => {
+    localStorage.setItem('notepad_pro_notes', JSON.stringify([legacyNote('a')]));
+    localStorage.setItem('notepad_pro_workspaces', JSON.stringify([
+      { id: 'default', name: 'My Workspace', createdAt: 0 },
+      { id: 'work', name: 'Work', createdAt: 1 },
+    ]));
+    sessionStorage.setItem('notepad_pro_active_workspace', 'work');
+    const storage = await loadStorage();
+
+    expect(await storage.loadNotes()).toEqual([]);
+    expect(localStorage.getItem('notepad_pro_notes')).not.toBeNull();
+  });
+
+  it('converts light-theme color classes when upgrading a version 1 database', async () => {
+    await createVersion1([legacyNote('a', 'bg-yellow-50'), legacyNote('b', 'bg-white'), legacyNote('c', 'blue'), legacyNote('d')]);
+    const storage = await loadStorage();
+
+    const colors = Object.fromEntries((await storage.loadNotes()).map(n => [n.id, n.color]));
+    expect(colors).toEqual({ a: 'yellow', b: 'default', c: 'blue', d: 'default' });
+  });
+
+  it('adds the attachment and snapshot stores when upgrading', async () => {
+    await createVersion1([legacyNote('a')]);
+    const storage = await loadStorage();
+
+    expect(await storage.loadSnapshots()).toEqual([]);
+    await storage.saveAttachment('a', { id: 'f1', name: 'f.txt', type: 'text/plain', size: 2, createdAt: 1 }, new Blob(['hi']));
+    const blob = await storage.loadAttachment('a', { id: 'f1', name: 'f.txt', type: 'text/plain', size: 2, createdAt: 1 });
+    expect(await blob?.text()).toBe('hi');
+  });
+});
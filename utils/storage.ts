@@ -1,34 +1,1151 @@
 
-import { Note, UserProfile } from '../types';
+import { Note, NoteTemplate, Attachment, UserProfile, Workspace, SyncConfig, SyncState, SyncRecord, Snapshot, SnapshotData, SnapshotReason, AppSettings, DEFAULT_SETTINGS, Revision, EncryptedPayload, EncryptedBytes, LockConfig } from '../types';
+import { encryptJson, decryptJson, encryptBytes, decryptBytes, sealBackup, EncryptedBackup } from './crypto';
+import { normalizeColor } from './colors';
+import { STARTER_TEMPLATES } from './templates';
 
-const STORAGE_KEY = 'notepad_pro_notes';
-const PROFILE_KEY = 'notepad_pro_profile';
+const DB_NAME = 'notepad_pro';
+const DB_VERSION = 4;
 
-export const saveNotes = (notes: Note[]): void => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(notes));
+const NOTES_STORE = 'notes';
+const REVISIONS_STORE = 'revisions';
+const KV_STORE = 'kv';
+const ATTACHMENTS_STORE = 'attachments';
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_DATA_STORE = 'snapshotData';
+
+const PROFILE_RECORD = 'profile';
+const SETTINGS_RECORD = 'settings';
+const LOCK_RECORD = 'lock';
+const RECENT_SEARCHES_RECORD = 'recentSearches';
+const TEMPLATES_RECORD = 'templates';
+const SYNC_RECORD = 'sync';
+const ACTIVITY_RECORD = 'activity';
+
+// Pre-IndexedDB localStorage keys, read once by the version 1 migration.
+const LEGACY_NOTES_KEY = 'notepad_pro_notes';
+const LEGACY_PROFILE_KEY = 'notepad_pro_profile';
+const LEGACY_SETTINGS_KEY = 'notepad_pro_settings';
+const LEGACY_REVISIONS_KEY = 'notepad_pro_revisions';
+
+const MAX_REVISIONS_PER_NOTE = 50;
+const MAX_REVISION_CHARS_PER_NOTE = 200_000;
+
+const MAX_RECENT_SEARCHES = 8;
+
+// BroadcastChannel name, and the localStorage key used instead where BroadcastChannel is missing.
+const SYNC_CHANNEL = 'notepad_pro_sync';
+
+// The workspace list lives in localStorage, since it decides which database to open.
+const WORKSPACES_KEY = 'notepad_pro_workspaces';
+// Each tab keeps its workspace in sessionStorage; new tabs open the one used last.
+const ACTIVE_WORKSPACE_KEY = 'notepad_pro_active_workspace';
+const MAX_WORKSPACE_NAME = 40;
+
+export const DEFAULT_PROFILE: UserProfile = { name: 'Guest', avatar: null };
+
+export type StorageErrorKind = 'quota' | 'corrupt' | 'unavailable' | 'locked' | 'unknown';
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, message: string) {
+    super(message);
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
+
+export const toStorageError = (e: unknown): StorageError => {
+  if (e instanceof StorageError) return e;
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'QuotaExceededError') {
+    return new StorageError('quota', 'Storage is full, so your latest changes were not saved. Empty the Trash or remove large images to free up space.');
+  }
+  if (name === 'InvalidStateError' || name === 'SecurityError') {
+    return new StorageError('unavailable', 'This browser is blocking local storage (private mode?). Changes will not be kept after you close the app.');
+  }
+  return new StorageError('unknown', `Could not access local storage: ${e instanceof Error ? e.message : String(e)}`);
+};
+
+// --- Workspaces ---
+
+/** The workspace every install starts with. It keeps the original database, so existing notes need no migration. */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const DEFAULT_WORKSPACE: Workspace = { id: DEFAULT_WORKSPACE_ID, name: 'My Workspace', createdAt: 0 };
+
+// Every store is namespaced by giving each workspace its own database and sync channel.
+const databaseName = (workspaceId: string): string =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? DB_NAME : `${DB_NAME}__${workspaceId}`;
+
+const syncChannelName = (workspaceId: string): string =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? SYNC_CHANNEL : `${SYNC_CHANNEL}__${workspaceId}`;
+
+const readKey = (storage: () => Storage, key: string): string | null => {
+  try {
+    return storage().getItem(key);
+  } catch (e) {
+    return null;
+  }
+};
+
+/** Every workspace on this device, oldest first. There is always at least one. */
+export const loadWorkspaces = (): Workspace[] => {
+  try {
+    const stored = JSON.parse(readKey(() => localStorage, WORKSPACES_KEY) ?? 'null');
+    const workspaces = Array.isArray(stored) ? stored.filter((w): w is Workspace => typeof w?.id === 'string' && typeof w.name === 'string') : [];
+    if (workspaces.length > 0) return workspaces;
+  } catch (e) {
+    // An unreadable list falls back to the default workspace, whose data is never lost.
+  }
+  return [DEFAULT_WORKSPACE];
+};
+
+const saveWorkspaces = (workspaces: Workspace[]): void => {
+  try {
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+  } catch (e) {
+    throw toStorageError(e);
+  }
+};
+
+// Fixed for the life of the page: switching workspaces reloads the app.
+let activeWorkspaceId: string | null = null;
+
+export const getActiveWorkspaceId = (): string => {
+  if (!activeWorkspaceId) {
+    const ids = loadWorkspaces().map(w => w.id);
+    const remembered = [readKey(() => sessionStorage, ACTIVE_WORKSPACE_KEY), readKey(() => localStorage, ACTIVE_WORKSPACE_KEY)];
+    activeWorkspaceId = remembered.find((id): id is string => !!id && ids.includes(id)) ?? ids[0];
+  }
+  return activeWorkspaceId;
+};
+
+/** Makes `id` the workspace this tab, and tabs opened later, start in. Takes effect on the next load. */
+export const selectWorkspace = (id: string): void => {
+  try {
+    sessionStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  } catch (e) {
+    throw toStorageError(e);
+  }
+};
+
+const cleanWorkspaceName = (name: string, workspaces: Workspace[], exceptId?: string): string => {
+  const clean = name.trim().replace(/\s+/g, ' ').slice(0, MAX_WORKSPACE_NAME);
+  if (!clean) throw new Error('Workspace names cannot be empty.');
+  if (workspaces.some(w => w.id !== exceptId && w.name.toLowerCase() === clean.toLowerCase())) {
+    throw new Error(`There is already a workspace called "${clean}".`);
+  }
+  return clean;
+};
+
+export const createWorkspace = (name: string): Workspace => {
+  const workspaces = loadWorkspaces();
+  const workspace = { id: crypto.randomUUID(), name: cleanWorkspaceName(name, workspaces), createdAt: Date.now() };
+  saveWorkspaces([...workspaces, workspace]);
+  return workspace;
+};
+
+/** Renames a workspace and returns the updated list. */
+export const renameWorkspace = (id: string, name: string): Workspace[] => {
+  const workspaces = loadWorkspaces();
+  const clean = cleanWorkspaceName(name, workspaces, id);
+  const updated = workspaces.map(w => (w.id === id ? { ...w, name: clean } : w));
+  saveWorkspaces(updated);
+  return updated;
+};
+
+/**
+ * Removes a workspace and erases its database. Tabs that have it open start over in another
+ * workspace; when it is this tab's own workspace, the caller reloads once this resolves.
+ */
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const remaining = loadWorkspaces().filter(w => w.id !== id);
+  if (remaining.length === 0) throw new Error('The last workspace cannot be deleted.');
+  saveWorkspaces(remaining);
+  if (id === getActiveWorkspaceId()) selectWorkspace(remaining[0].id);
+  broadcast({ type: 'reset' }, id);
+  // Open connections close on `versionchange`, so this waits for other tabs rather than failing.
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(databaseName(id));
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(toStorageError(req.error));
+  });
+};
+
+/** Calls `onChange` when another tab adds, renames or deletes a workspace. Returns an unsubscribe function. */
+export const subscribeToWorkspaces = (onChange: (workspaces: Workspace[]) => void): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === WORKSPACES_KEY) onChange(loadWorkspaces());
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
+
+// --- Encryption at rest ---
+
+interface NoteText {
+  title: string;
+  content: string;
+  attachments?: Attachment[];
+}
+
+/** With App Lock on, title, content and attachment names and thumbnails are replaced by an AES-GCM `sealed` blob before writing. */
+type Sealable<T extends NoteText> = T & { sealed?: EncryptedPayload };
+
+// Key for the unlocked session. Only ever held in memory.
+let activeKey: CryptoKey | null = null;
+// The lock config `activeKey` was derived from, to notice another tab changing it.
+let activeLock: LockConfig | null = null;
+
+export const setEncryptionKey = (key: CryptoKey | null, config: LockConfig | null = null): void => {
+  activeKey = key;
+  activeLock = key ? config : null;
+};
+
+/*
+ * Writes hold the workspace's key lock shared, and re-encryption holds it alone, so no write lands
+ * between re-encryption reading everything and writing it back under the new key. The lock covers
+ * sealing as well as writing, so a write that waited seals with the new key.
+ */
+const keyLockName = (): string => `notepad_pro_key:${getActiveWorkspaceId()}`;
+
+const withKeyLock = <T>(mode: LockMode, run: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return run();
+  return navigator.locks.request(keyLockName(), { mode }, run);
+};
+
+const sharedWrite = <T>(run: () => Promise<T>): Promise<T> => withKeyLock('shared', run);
+
+// Fails rather than write under a key another tab has since replaced.
+const checkKeyIsCurrent = async (): Promise<void> => {
+  const stored = await loadLockConfig();
+  if ((stored?.salt ?? null) !== (activeLock?.salt ?? null)) {
+    throw new StorageError('locked', 'App Lock was changed in another tab, so this change was not saved. Reload the app to continue.');
+  }
+};
+
+const sealedWrite = <T>(run: () => Promise<T>): Promise<T> => withKeyLock('shared', async () => {
+  await checkKeyIsCurrent();
+  return run();
+});
+
+export const getEncryptionKey = (): CryptoKey | null => activeKey;
+
+const seal = async <T extends NoteText>(item: T, key: CryptoKey | null): Promise<Sealable<T>> => {
+  if (!key) return item;
+  const { attachments, ...rest } = item;
+  const sealed = await encryptJson(key, { title: item.title, content: item.content, ...(attachments && { attachments }) });
+  return { ...rest, title: '', content: '', sealed } as Sealable<T>;
+};
+
+const unseal = async <T extends NoteText>(item: Sealable<T>, key: CryptoKey | null): Promise<T> => {
+  const { sealed, ...rest } = item;
+  if (!sealed) return rest as T;
+  if (!key) throw new StorageError('locked', 'Notes are locked. Unlock the app to read them.');
+  try {
+    return { ...rest, ...await decryptJson<NoteText>(key, sealed) } as T;
+  } catch (e) {
+    throw new StorageError('corrupt', 'An encrypted note could not be decrypted. It may have been damaged or written with a different passphrase.');
+  }
+};
+
+// --- IndexedDB plumbing ---
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// Problems found while migrating legacy data; surfaced once via `takeMigrationWarnings`.
+let migrationWarnings: StorageError[] = [];
+
+const readLegacy = <T>(tx: IDBTransaction, key: string, label: string, apply: (value: T) => void): void => {
+  const data = localStorage.getItem(key);
+  if (!data) return;
+  try {
+    apply(JSON.parse(data));
+    tx.addEventListener('complete', () => localStorage.removeItem(key));
+  } catch (e) {
+    // Leave the original string in place so nothing is lost.
+    migrationWarnings.push(new StorageError('corrupt', `Your saved ${label} could not be read and were not imported. The original data is still kept in this browser under "${key}".`));
+  }
+};
+
+/** Schema upgrades, keyed by the version they upgrade to. Each runs exactly once per browser. */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+    db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' }).createIndex('noteId', 'noteId');
+    db.createObjectStore(KV_STORE);
+
+    // Data from before IndexedDB belongs to the original workspace only.
+    if (getActiveWorkspaceId() !== DEFAULT_WORKSPACE_ID) return;
+    readLegacy<Note[]>(tx, LEGACY_NOTES_KEY, 'notes', notes => {
+      if (!Array.isArray(notes)) throw new Error('Expected an array of notes');
+      notes.forEach(n => tx.objectStore(NOTES_STORE).put(n));
+    });
+    readLegacy<UserProfile>(tx, LEGACY_PROFILE_KEY, 'profile settings', profile => {
+      tx.objectStore(KV_STORE).put(profile, PROFILE_RECORD);
+    });
+    readLegacy<AppSettings>(tx, LEGACY_SETTINGS_KEY, 'app settings', settings => {
+      tx.objectStore(KV_STORE).put(settings, SETTINGS_RECORD);
+    });
+    readLegacy<Record<string, Revision[]>>(tx, LEGACY_REVISIONS_KEY, 'note histories', map => {
+      Object.values(map).flat().forEach(rev => tx.objectStore(REVISIONS_STORE).put(rev));
+    });
+  },
+  // Note colors change from light-theme class names to tokens.
+  2: (_db, tx) => {
+    tx.objectStore(NOTES_STORE).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, color: normalizeColor(cursor.value.color) });
+      cursor.continue();
+    };
+  },
+  // Attachment bytes get their own store, so loading the note list never reads them.
+  3: (db) => {
+    db.createObjectStore(ATTACHMENTS_STORE, { keyPath: ['noteId', 'id'] }).createIndex('noteId', 'noteId');
+  },
+  4: (db) => {
+    db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+    db.createObjectStore(SNAPSHOT_DATA_STORE, { keyPath: 'id' });
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('unavailable', 'This browser does not support IndexedDB, so notes cannot be saved.'));
+      return;
+    }
+    const workspaceId = getActiveWorkspaceId();
+    // Opening would recreate a workspace another tab just deleted; this tab reloads once it hears about it.
+    if (!loadWorkspaces().some(w => w.id === workspaceId)) {
+      reject(new StorageError('unavailable', 'This workspace was deleted in another tab.'));
+      return;
+    }
+    const req = indexedDB.open(databaseName(workspaceId), DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const tx = req.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Let a newer version of the app in another tab upgrade the schema.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  }).catch(e => {
+    dbPromise = null;
+    throw toStorageError(e);
+  });
+
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(storeNames, mode);
+    const done = transactionDone(tx);
+    const result = await run(tx);
+    await done;
+    return result;
+  } catch (e) {
+    throw toStorageError(e);
+  }
+};
+
+// --- Cross-tab sync ---
+
+/**
+ * Tells other open tabs what this tab just wrote. Notes travel as ids and are re-read from
+ * the database on the other side, so note text never crosses the channel unencrypted.
+ */
+type SyncMessage =
+  | { type: 'notes', changed: string[], removed: string[] }
+  | { type: 'profile' }
+  | { type: 'settings' }
+  | { type: 'templates' }
+  // App Lock turned on or off, passphrase changed, or all data cleared: other tabs start over.
+  | { type: 'reset' };
+
+export interface SyncHandlers {
+  onNotes: (changed: Note[], removed: string[]) => void;
+  onProfile: (profile: UserProfile) => void;
+  onSettings: (settings: AppSettings) => void;
+  onTemplates: (templates: NoteTemplate[]) => void;
+  onReset: () => void;
+}
+
+let syncChannel: BroadcastChannel | null | undefined;
+
+const getSyncChannel = (): BroadcastChannel | null => {
+  if (syncChannel === undefined) {
+    syncChannel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(syncChannelName(getActiveWorkspaceId()));
+  }
+  return syncChannel;
+};
+
+/** Posts to the tabs open on a workspace, this tab's own by default. */
+const broadcast = (message: SyncMessage, workspaceId = getActiveWorkspaceId()): void => {
+  try {
+    const own = workspaceId === getActiveWorkspaceId();
+    // A channel never hears its own messages, so this tab's channel is reused for its workspace.
+    const channel = own ? getSyncChannel() : typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(syncChannelName(workspaceId));
+    // The nonce makes every write a change, which is what fires the `storage` event.
+    if (channel) channel.postMessage(message);
+    else localStorage.setItem(syncChannelName(workspaceId), JSON.stringify({ ...message, nonce: crypto.randomUUID() }));
+    if (!own) channel?.close();
+  } catch (e) {
+    // Other tabs miss this update until they reload; the write itself succeeded.
+  }
+};
+
+/** Calls `handlers` whenever another tab saves. Returns an unsubscribe function. */
+export const subscribeToOtherTabs = (handlers: SyncHandlers, onError: (error: StorageError) => void): (() => void) => {
+  const handle = async (message: SyncMessage) => {
+    try {
+      if (message.type === 'notes') handlers.onNotes(await loadNotesById(message.changed), message.removed);
+      else if (message.type === 'profile') handlers.onProfile(await loadProfile());
+      else if (message.type === 'settings') handlers.onSettings(await loadSettings());
+      else if (message.type === 'templates') handlers.onTemplates(await loadTemplates());
+      else handlers.onReset();
+    } catch (e) {
+      const error = toStorageError(e);
+      // A locked tab can't read sealed notes; it loads them all on unlock anyway.
+      if (error.kind !== 'locked') onError(error);
+    }
+  };
+
+  const channel = getSyncChannel();
+  if (channel) {
+    const onMessage = (event: MessageEvent<SyncMessage>) => handle(event.data);
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === syncChannelName(getActiveWorkspaceId()) && event.newValue) handle(JSON.parse(event.newValue));
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
+
+/**
+ * Folds notes saved by another tab into this tab's notes. Per note, the other tab's version
+ * wins unless this tab's `lastModified` is newer; pin and trash changes don't bump
+ * `lastModified`, so ties go to the incoming note.
+ */
+export const mergeRemoteNotes = (local: Note[], changed: Note[], removed: string[]): Note[] => {
+  const gone = new Set(removed);
+  const incoming = new Map(changed.map(n => [n.id, n]));
+  const localIds = new Set(local.map(n => n.id));
+  const merged = local
+    .filter(n => !gone.has(n.id))
+    .map(n => {
+      const remote = incoming.get(n.id);
+      return remote && remote.lastModified >= n.lastModified ? remote : n;
+    });
+  return [...changed.filter(n => !localIds.has(n.id) && !gone.has(n.id)), ...merged];
+};
+
+/** Returns and clears any problems found while migrating data from older app versions. */
+export const takeMigrationWarnings = (): StorageError[] => {
+  const warnings = migrationWarnings;
+  migrationWarnings = [];
+  return warnings;
+};
+
+// --- Notes ---
+
+export const loadNotes = async (): Promise<Note[]> => {
+  const key = activeKey;
+  const stored = await withStore(NOTES_STORE, 'readonly', tx => promisify<Sealable<Note>[]>(tx.objectStore(NOTES_STORE).getAll()));
+  return Promise.all(stored.map(n => unseal(n, key)));
+};
+
+/** Reads the given notes, skipping ids that no longer exist. */
+const loadNotesById = async (ids: string[]): Promise<Note[]> => {
+  const key = activeKey;
+  const stored = await withStore(NOTES_STORE, 'readonly', tx => 
+    Promise.all(ids.map(id => promisify<Sealable<Note> | undefined>(tx.objectStore(NOTES_STORE).get(id))))
+  );
+  return Promise.all(stored.filter((n): n is Sealable<Note> => !!n).map(n => unseal(n, key)));
+};
+
+/**
+ * Persists only what changed between two snapshots of the notes array. Notes are
+ * immutable in app state, so a changed object reference means the note was edited.
+ * Removed notes listed in `keepFiles` leave their attachments for `pruneAttachments`,
+ * so an undo can still bring them back.
+ */
+export const saveNoteChanges = (prev: Note[], next: Note[], keepFiles: ReadonlySet<string> = new Set()): Promise<void> => sealedWrite(async () => {
+  const key = activeKey;
+  const before = new Map(prev.map(n => [n.id, n]));
+  const nextIds = new Set(next.map(n => n.id));
+  const removed = prev.filter(n => !nextIds.has(n.id)).map(n => n.id);
+  const changed = await Promise.all(next.filter(n => before.get(n.id) !== n).map(n => seal(n, key)));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  await withStore([NOTES_STORE, ATTACHMENTS_STORE, KV_STORE], 'readwrite', async tx => {
+    changed.forEach(n => tx.objectStore(NOTES_STORE).put(n));
+    await deleteNotes(tx, removed, keepFiles);
+    await queueSyncChanges(tx, [...changed.map(n => n.id), ...removed]);
+  });
+  broadcast({ type: 'notes', changed: changed.map(n => n.id), removed });
+});
+
+// A note's files go with it when it is deleted for good.
+const deleteNotes = async (tx: IDBTransaction, ids: string[], keepFiles: ReadonlySet<string> = new Set()): Promise<void> => {
+  for (const noteId of ids) {
+    tx.objectStore(NOTES_STORE).delete(noteId);
+    if (keepFiles.has(noteId)) continue;
+    const keys = await promisify(tx.objectStore(ATTACHMENTS_STORE).index('noteId').getAllKeys(noteId));
+    keys.forEach(k => tx.objectStore(ATTACHMENTS_STORE).delete(k));
+  }
 };
 
-export const loadNotes = (): Note[] => {
-  const data = localStorage.getItem(STORAGE_KEY);
-  if (!data) return [];
+// --- Profile & settings ---
+
+export const saveProfile = async (profile: UserProfile): Promise<void> => {
+  await withStore(KV_STORE, 'readwrite', tx => { tx.objectStore(KV_STORE).put(profile, PROFILE_RECORD); });
+  broadcast({ type: 'profile' });
+};
+
+export const loadProfile = (): Promise<UserProfile> =>
+  withStore(KV_STORE, 'readonly', async tx => {
+    const profile = await promisify<UserProfile | undefined>(tx.objectStore(KV_STORE).get(PROFILE_RECORD));
+    return profile ?? { ...DEFAULT_PROFILE };
+  });
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  await withStore(KV_STORE, 'readwrite', tx => { tx.objectStore(KV_STORE).put(settings, SETTINGS_RECORD); });
+  broadcast({ type: 'settings' });
+};
+
+export const loadSettings = (): Promise<AppSettings> =>
+  withStore(KV_STORE, 'readonly', async tx => {
+    const settings = await promisify<Partial<AppSettings> | undefined>(tx.objectStore(KV_STORE).get(SETTINGS_RECORD));
+    return { ...DEFAULT_SETTINGS, ...settings };
+  });
+
+// Search terms can give away what notes say, so with App Lock on they are sealed too.
+interface StoredSearches {
+  searches?: string[];
+  sealed?: EncryptedPayload;
+}
+
+const sealSearches = async (searches: string[], key: CryptoKey | null): Promise<StoredSearches> =>
+  key ? { sealed: await encryptJson(key, searches) } : { searches };
+
+const unsealSearches = async (stored: StoredSearches | undefined, key: CryptoKey | null): Promise<string[]> => {
+  if (!stored?.sealed) return stored?.searches ?? [];
+  if (!key) return [];
   try {
-    return JSON.parse(data);
+    return await decryptJson<string[]>(key, stored.sealed);
   } catch (e) {
-    console.error('Failed to parse notes from storage', e);
+    // Losing search history isn't worth an error banner.
     return [];
   }
 };
 
-export const saveProfile = (profile: UserProfile): void => {
-  localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+/** Most recent first, without duplicates. */
+export const saveRecentSearches = (searches: string[]): Promise<void> => sealedWrite(async () => {
+  const record = await sealSearches(searches.slice(0, MAX_RECENT_SEARCHES), activeKey);
+  return withStore(KV_STORE, 'readwrite', tx => { tx.objectStore(KV_STORE).put(record, RECENT_SEARCHES_RECORD); });
+});
+
+export const loadRecentSearches = async (): Promise<string[]> => {
+  const key = activeKey;
+  const stored = await withStore(KV_STORE, 'readonly', tx => 
+    promisify<StoredSearches | undefined>(tx.objectStore(KV_STORE).get(RECENT_SEARCHES_RECORD))
+  );
+  return unsealSearches(stored, key);
+};
+
+// Templates are often saved from real notes, so they are sealed like note text.
+interface StoredTemplates {
+  templates?: NoteTemplate[];
+  sealed?: EncryptedPayload;
+}
+
+const sealTemplates = async (templates: NoteTemplate[], key: CryptoKey | null): Promise<StoredTemplates> =>
+  key ? { sealed: await encryptJson(key, templates) } : { templates };
+
+const unsealTemplates = async (stored: StoredTemplates, key: CryptoKey | null): Promise<NoteTemplate[]> => {
+  if (!stored.sealed) return stored.templates ?? [];
+  if (!key) throw new StorageError('locked', 'Templates are locked. Unlock the app to use them.');
+  try {
+    return await decryptJson<NoteTemplate[]>(key, stored.sealed);
+  } catch (e) {
+    throw new StorageError('corrupt', 'Your note templates could not be decrypted.');
+  }
+};
+
+export const saveTemplates = (templates: NoteTemplate[]): Promise<void> => sealedWrite(async () => {
+  const record = await sealTemplates(templates, activeKey);
+  await withStore(KV_STORE, 'readwrite', tx => { tx.objectStore(KV_STORE).put(record, TEMPLATES_RECORD); });
+  broadcast({ type: 'templates' });
+});
+
+/** The saved templates, or the starter set if none have been saved yet. */
+export const loadTemplates = async (): Promise<NoteTemplate[]> => {
+  const key = activeKey;
+  const stored = await withStore(KV_STORE, 'readonly', tx => 
+    promisify<StoredTemplates | undefined>(tx.objectStore(KV_STORE).get(TEMPLATES_RECORD))
+  );
+  return stored ? unsealTemplates(stored, key) : STARTER_TEMPLATES;
+};
+
+export const loadLockConfig = (): Promise<LockConfig | null> =>
+  withStore(KV_STORE, 'readonly', async tx => 
+    (await promisify<LockConfig | undefined>(tx.objectStore(KV_STORE).get(LOCK_RECORD))) ?? null
+  );
+
+/**
+ * Rewrites every note, revision, attachment and snapshot, and the sync config, under a new key
+ * (or in plaintext when `toKey` is null) and stores the matching lock config in the same
+ * transaction, so data and config can't get out of step. Becomes the active key on success.
+ */
+export const reencryptAll = (toKey: CryptoKey | null, config: LockConfig | null): Promise<void> => withKeyLock('exclusive', async () => {
+  await checkKeyIsCurrent();
+  const fromKey = activeKey;
+  const stores = [NOTES_STORE, REVISIONS_STORE, ATTACHMENTS_STORE, KV_STORE, SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE];
+  await stageAttachments(fromKey, toKey);
+  const [storedNotes, storedRevisions, storedSearches, storedTemplates, storedSync, storedActivity, storedSnapshots, storedSnapshotData] = await withStore(stores, 'readonly', tx => Promise.all([
+    promisify<Sealable<Note>[]>(tx.objectStore(NOTES_STORE).getAll()),
+    promisify<Sealable<Revision>[]>(tx.objectStore(REVISIONS_STORE).getAll()),
+    promisify<StoredSearches | undefined>(tx.objectStore(KV_STORE).get(RECENT_SEARCHES_RECORD)),
+    promisify<StoredTemplates | undefined>(tx.objectStore(KV_STORE).get(TEMPLATES_RECORD)),
+    promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD)),
+    promisify<StoredActivity | undefined>(tx.objectStore(KV_STORE).get(ACTIVITY_RECORD)),
+    promisify<StoredSnapshot[]>(tx.objectStore(SNAPSHOTS_STORE).getAll()),
+    promisify<StoredSnapshotData[]>(tx.objectStore(SNAPSHOT_DATA_STORE).getAll()),
+  ]));
+
+  const notes = await Promise.all(storedNotes.map(async n => seal(await unseal(n, fromKey), toKey)));
+  const revisions = await Promise.all(storedRevisions.map(async r => seal(await unseal(r, fromKey), toKey)));
+  const searches = await sealSearches(await unsealSearches(storedSearches, fromKey), toKey);
+  const templates = storedTemplates && await sealTemplates(await unsealTemplates(storedTemplates, fromKey), toKey);
+  const syncConfig = storedSync && await sealSyncConfig(await unsealSyncConfig(storedSync, fromKey), toKey);
+  const activity = storedActivity && await sealActivity(await unsealActivity(storedActivity, fromKey), toKey);
+  // Snapshots sealed under an earlier passphrase can't be opened here, so they stay as they are.
+  const snapshots = (await Promise.all(storedSnapshotData.map(async stored => {
+    const data = stored.data ?? (fromKey ? await decryptJson<SnapshotData>(fromKey, stored.sealed!.payload).catch(() => null) : null);
+    return data && sealSnapshot(stored.id, data, toKey, config);
+  }))).filter((s): s is StoredSnapshotData => s !== null);
+
+  await withStore(stores, 'readwrite', async tx => {
+    notes.forEach(n => tx.objectStore(NOTES_STORE).put(n));
+    revisions.forEach(r => tx.objectStore(REVISIONS_STORE).put(r));
+    await swapStagedAttachments(tx);
+    tx.objectStore(KV_STORE).put(searches, RECENT_SEARCHES_RECORD);
+    if (templates) tx.objectStore(KV_STORE).put(templates, TEMPLATES_RECORD);
+    if (activity) tx.objectStore(KV_STORE).put(activity, ACTIVITY_RECORD);
+    // The sync queue may have moved on since it was read, so only its config is replaced
+    const sync = syncConfig && await promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD));
+    if (sync) tx.objectStore(KV_STORE).put({ ...sync, config: syncConfig.config, sealedConfig: syncConfig.sealedConfig }, SYNC_RECORD);
+    snapshots.forEach(snapshot => {
+      tx.objectStore(SNAPSHOT_DATA_STORE).put(snapshot);
+      const details = storedSnapshots.find(d => d.id === snapshot.id);
+      if (details) tx.objectStore(SNAPSHOTS_STORE).put({ ...details, isEncrypted: !!snapshot.sealed });
+    });
+    if (config) tx.objectStore(KV_STORE).put(config, LOCK_RECORD);
+    else tx.objectStore(KV_STORE).delete(LOCK_RECORD);
+  });
+  activeKey = toKey;
+  activeLock = config;
+  broadcast({ type: 'reset' });
+});
+
+/** Wipes every store of this workspace, and its snapshots only if asked. Used by "Clear All Data". */
+export const clearAllData = (withSnapshots = false): Promise<void> => sharedWrite(async () => {
+  const stores = [NOTES_STORE, REVISIONS_STORE, ATTACHMENTS_STORE, KV_STORE, ...(withSnapshots ? [SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE] : [])];
+  await withStore(stores, 'readwrite', tx => {
+    stores.forEach(name => tx.objectStore(name).clear());
+  });
+  broadcast({ type: 'reset' });
+});
+
+// --- Writing activity ---
+
+// Older days are dropped; the Statistics screen shows well under a year.
+const MAX_ACTIVITY_DAYS = 400;
+
+// Days and amounts of writing are private too, so with App Lock on the counts are sealed like templates.
+type StoredActivity = Record<string, number> | { sealed: EncryptedPayload };
+
+const sealActivity = async (activity: Record<string, number>, key: CryptoKey | null): Promise<StoredActivity> =>
+  key ? { sealed: await encryptJson(key, activity) } : activity;
+
+const unsealActivity = async (stored: StoredActivity | undefined, key: CryptoKey | null): Promise<Record<string, number>> => {
+  const sealed = (stored as { sealed?: unknown } | undefined)?.sealed;
+  if (typeof sealed !== 'object' || sealed === null) return (stored as Record<string, number> | undefined) ?? {};
+  if (!key) throw new StorageError('locked', 'Writing statistics are locked. Unlock the app to see them.');
+  try {
+    return await decryptJson<Record<string, number>>(key, sealed as EncryptedPayload);
+  } catch (e) {
+    throw new StorageError('corrupt', 'Your writing statistics could not be decrypted.');
+  }
+};
+
+let pendingActivity: Promise<void> = Promise.resolve();
+
+const readActivity = (): Promise<StoredActivity | undefined> =>
+  withStore(KV_STORE, 'readonly', tx => promisify<StoredActivity | undefined>(tx.objectStore(KV_STORE).get(ACTIVITY_RECORD)));
+
+/** Edit sessions per local day, keyed `yyyy-MM-dd`. */
+export const loadActivity = async (): Promise<Record<string, number>> => {
+  const key = activeKey;
+  return unsealActivity(await readActivity(), key);
+};
+
+/**
+ * Counts one edit session on `day`. Sealing can't happen inside a transaction, so tabs take
+ * turns through a Web Lock instead, and none loses another's count.
+ */
+export const recordActivity = (day: string): Promise<void> =>
+  sealedWrite(() => {
+    const update = async () => {
+      const key = activeKey;
+      const activity = await unsealActivity(await readActivity(), key);
+      activity[day] = (activity[day] ?? 0) + 1;
+      Object.keys(activity).sort().slice(0, -MAX_ACTIVITY_DAYS).forEach(k => delete activity[k]);
+      const record = await sealActivity(activity, key);
+      await withStore(KV_STORE, 'readwrite', tx => { tx.objectStore(KV_STORE).put(record, ACTIVITY_RECORD); });
+    };
+    if (typeof navigator !== 'undefined' && navigator.locks) return navigator.locks.request(`notepad_pro_activity:${getActiveWorkspaceId()}`, update);
+    // Without Web Locks, this tab's own updates at least run one after another
+    const next = pendingActivity.then(update, update);
+    pendingActivity = next.catch(() => {});
+    return next;
+  });
+
+// --- Revisions ---
+
+/** Revisions for a note, newest first. */
+export const loadRevisions = async (noteId: string): Promise<Revision[]> => {
+  const key = activeKey;
+  const stored = await withStore(REVISIONS_STORE, 'readonly', tx => 
+    promisify<Sealable<Revision>[]>(tx.objectStore(REVISIONS_STORE).index('noteId').getAll(noteId))
+  );
+  const revisions = await Promise.all(stored.map(r => unseal(r, key)));
+  return revisions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Snapshots the note's current title and content. Does nothing for empty notes or when
+ * the text matches the latest snapshot. Older revisions are dropped once the note exceeds
+ * the count or size cap; the newest one is always kept.
+ */
+export const recordRevision = (note: Note, restoredFrom?: number): Promise<void> => sealedWrite(async () => {
+  if (!note.title && !note.content) return;
+
+  const key = activeKey;
+  const revisions = await loadRevisions(note.id);
+  const latest = revisions[0];
+  if (latest && latest.title === note.title && latest.content === note.content && restoredFrom === undefined) return;
+
+  const revision: Revision = {
+    id: crypto.randomUUID(),
+    noteId: note.id,
+    title: note.title,
+    content: note.content,
+    createdAt: Date.now(),
+    ...(restoredFrom !== undefined && { restoredFrom }),
+  };
+
+  let size = revision.title.length + revision.content.length;
+  const dropped = revisions.filter((rev, i) => {
+    size += rev.title.length + rev.content.length;
+    return i + 1 >= MAX_REVISIONS_PER_NOTE || size > MAX_REVISION_CHARS_PER_NOTE;
+  });
+  const sealed = await seal(revision, key);
+
+  await withStore(REVISIONS_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(REVISIONS_STORE);
+    store.put(sealed);
+    dropped.forEach(rev => store.delete(rev.id));
+  });
+});
+
+export const deleteRevisions = (noteIds: string[]): Promise<void> =>
+  sharedWrite(() => withStore(REVISIONS_STORE, 'readwrite', async tx => {
+    const store = tx.objectStore(REVISIONS_STORE);
+    for (const noteId of noteIds) {
+      const keys = await promisify(store.index('noteId').getAllKeys(noteId));
+      keys.forEach(key => store.delete(key));
+    }
+  }));
+
+/** Drops revision history for notes that no longer exist. */
+export const pruneRevisions = (noteIds: string[]): Promise<void> => {
+  const keep = new Set(noteIds);
+  return sharedWrite(() => withStore(REVISIONS_STORE, 'readwrite', tx =>
+    new Promise<void>((resolve, reject) => {
+      const req = tx.objectStore(REVISIONS_STORE).openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve();
+        if (!keep.has((cursor.value as Revision).noteId)) cursor.delete();
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    })
+  ));
+};
+
+// --- Attachments ---
+
+// Keyed by note as well as attachment id, so a copied note never shares a record with its original.
+interface StoredAttachment {
+  noteId: string;
+  id: string;
+  data?: ArrayBuffer;
+  sealed?: EncryptedBytes;
+  /** The bytes under the next key while re-encryption is under way. */
+  staged?: Pick<StoredAttachment, 'data' | 'sealed'>;
+}
+
+// Attachments re-sealed at a time. Files can be 20 MB each, so they are never all held in memory.
+const ATTACHMENT_BATCH_SIZE = 8;
+
+// Re-seals every attachment into `staged`, a batch per transaction. The old bytes stay in place, so
+// nothing changes for readers until `swapStagedAttachments` runs in re-encryption's final write.
+const stageAttachments = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+  const keys = await withStore(ATTACHMENTS_STORE, 'readonly', tx => promisify(tx.objectStore(ATTACHMENTS_STORE).getAllKeys()));
+  for (let i = 0; i < keys.length; i += ATTACHMENT_BATCH_SIZE) {
+    const batch = keys.slice(i, i + ATTACHMENT_BATCH_SIZE);
+    const stored = await withStore(ATTACHMENTS_STORE, 'readonly', tx => 
+      Promise.all(batch.map(key => promisify<StoredAttachment | undefined>(tx.objectStore(ATTACHMENTS_STORE).get(key))))
+    );
+    const staged = await Promise.all(stored.map(async a => {
+      if (!a) return null;
+      const { data, sealed } = await sealAttachment(a.noteId, a.id, await unsealAttachment(a, fromKey), toKey);
+      return { ...a, staged: { data, sealed } };
+    }));
+    await withStore(ATTACHMENTS_STORE, 'readwrite', tx => {
+      staged.forEach(a => a && tx.objectStore(ATTACHMENTS_STORE).put(a));
+    });
+  }
+};
+
+const swapStagedAttachments = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const req = tx.objectStore(ATTACHMENTS_STORE).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve();
+      const { staged, data, sealed, ...rest } = cursor.value as StoredAttachment;
+      if (staged) cursor.update({ ...rest, ...staged });
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const sealAttachment = async (noteId: string, id: string, data: ArrayBuffer, key: CryptoKey | null): Promise<StoredAttachment> =>
+  key ? { noteId, id, sealed: await encryptBytes(key, data) } : { noteId, id, data };
+
+const unsealAttachment = async (stored: StoredAttachment, key: CryptoKey | null): Promise<ArrayBuffer> => {
+  if (!stored.sealed) return stored.data!;
+  if (!key) throw new StorageError('locked', 'Attachments are locked. Unlock the app to open them.');
+  try {
+    return await decryptBytes(key, stored.sealed);
+  } catch (e) {
+    throw new StorageError('corrupt', 'An attachment could not be decrypted. It may have been damaged.');
+  }
+};
+
+/** Stores the file's bytes. Save them before adding `attachment` to the note, so the note never points at nothing. */
+export const saveAttachment = (noteId: string, attachment: Attachment, blob: Blob): Promise<void> => sealedWrite(async () => {
+  const record = await sealAttachment(noteId, attachment.id, await blob.arrayBuffer(), activeKey);
+  return withStore(ATTACHMENTS_STORE, 'readwrite', tx => { tx.objectStore(ATTACHMENTS_STORE).put(record); });
+});
+
+/** The attachment's file, or null if its bytes are missing. */
+export const loadAttachment = async (noteId: string, attachment: Attachment): Promise<Blob | null> => {
+  const key = activeKey;
+  const stored = await withStore(ATTACHMENTS_STORE, 'readonly', tx => 
+    promisify<StoredAttachment | undefined>(tx.objectStore(ATTACHMENTS_STORE).get([noteId, attachment.id]))
+  );
+  return stored ? new Blob([await unsealAttachment(stored, key)], { type: attachment.type }) : null;
 };
 
-export const loadProfile = (): UserProfile => {
-  const data = localStorage.getItem(PROFILE_KEY);
-  if (!data) return { name: 'Guest', avatar: null };
+/** The attachments of `notes` whose bytes aren't stored on this device. */
+export const missingAttachments = (notes: Note[]): Promise<{ noteId: string, attachment: Attachment }[]> =>
+  withStore(ATTACHMENTS_STORE, 'readonly', async tx => {
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const wanted = notes.flatMap(n => (n.attachments ?? []).map(attachment => ({ noteId: n.id, attachment })));
+    const keys = await Promise.all(wanted.map(w => promisify(store.getKey([w.noteId, w.attachment.id]))));
+    return wanted.filter((_, i) => keys[i] === undefined);
+  });
+
+/** Gives another note its own copy of the files, e.g. a merged note. Sealed bytes are copied as they are. */
+export const copyAttachments = (fromNoteId: string, toNoteId: string, ids: string[]): Promise<void> =>
+  sealedWrite(() => withStore(ATTACHMENTS_STORE, 'readwrite', async tx => {
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const stored = await Promise.all(ids.map(id => promisify<StoredAttachment | undefined>(store.get([fromNoteId, id]))));
+    stored.forEach(a => a && store.put({ ...a, noteId: toNoteId }));
+  }));
+
+/** Drops stored files whose note is gone or no longer lists them, e.g. after an attachment was removed. */
+export const pruneAttachments = (notes: Note[]): Promise<void> => {
+  const keep = new Map(notes.map(n => [n.id, new Set(n.attachments?.map(a => a.id))]));
+  return sharedWrite(() => withStore(ATTACHMENTS_STORE, 'readwrite', tx =>
+    new Promise<void>((resolve, reject) => {
+      const req = tx.objectStore(ATTACHMENTS_STORE).openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve();
+        const { noteId, id } = cursor.value as StoredAttachment;
+        if (!keep.get(noteId)?.has(id)) cursor.delete();
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    })
+  ));
+};
+
+// --- Snapshots ---
+
+/*
+ * Automatic local backups of notes and profile. Their details and their contents are kept in
+ * separate stores, so listing them doesn't read every copy of every note. "Clear All Data" leaves
+ * both alone.
+ */
+interface StoredSnapshot extends Snapshot {
+  /** Hash of the contents, so an unchanged workspace isn't snapshotted again. */
+  fingerprint: string;
+}
+
+// With App Lock on, contents are sealed like an encrypted backup file, which carries its salt: a
+// snapshot taken before a passphrase change or Clear All Data still opens with the old passphrase.
+interface StoredSnapshotData {
+  id: string;
+  data?: SnapshotData;
+  sealed?: EncryptedBackup;
+}
+
+const fingerprintOf = async (data: SnapshotData): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(data)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const sealSnapshot = async (id: string, data: SnapshotData, key: CryptoKey | null, config: LockConfig | null): Promise<StoredSnapshotData> =>
+  key && config ? { id, sealed: await sealBackup(key, config, data) } : { id, data };
+
+/** Newest first. */
+export const loadSnapshots = async (): Promise<Snapshot[]> => {
+  const stored = await withStore(SNAPSHOTS_STORE, 'readonly', tx => promisify<StoredSnapshot[]>(tx.objectStore(SNAPSHOTS_STORE).getAll()));
+  return stored.map(({ fingerprint, ...snapshot }) => snapshot).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Snapshots the stored notes and profile, then deletes all but the newest `keep` snapshots. Nothing
+ * is taken when the newest snapshot has the same contents or is less than `minAge` ms old, or
+ * automatically while the workspace has no notes. Returns whether a snapshot was taken.
+ */
+export const takeSnapshot = (reason: SnapshotReason, keep: number, minAge = 0): Promise<boolean> => sealedWrite(async () => {
+  const key = activeKey;
+  const [notes, profile, config] = await Promise.all([loadNotes(), loadProfile(), loadLockConfig()]);
+  if (reason === 'automatic' && notes.length === 0) return false;
+  const data: SnapshotData = { notes, profile };
+  const snapshot: StoredSnapshot = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    reason,
+    noteCount: notes.filter(n => n.deletedAt == null).length,
+    isEncrypted: !!(key && config),
+    fingerprint: await fingerprintOf(data),
+  };
+  const contents = await sealSnapshot(snapshot.id, data, key, config);
+
+  // Checked and written in one transaction, so two tabs starting together take one snapshot.
+  return withStore([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(SNAPSHOTS_STORE);
+    const existing = (await promisify<StoredSnapshot[]>(store.getAll())).sort((a, b) => b.createdAt - a.createdAt);
+    const latest = existing[0];
+    // One before Clear All is taken even when unchanged, as the copy it matches may be rotated out
+    const isDue = !latest || reason === 'before-clear' || (latest.fingerprint !== snapshot.fingerprint && snapshot.createdAt - latest.createdAt >= minAge);
+    if (isDue) {
+      store.put(snapshot);
+      tx.objectStore(SNAPSHOT_DATA_STORE).put(contents);
+    }
+    // Snapshots from before Clear All are the only way back from it, so only deleting them by hand removes them
+    const rotated = (isDue ? [snapshot, ...existing] : existing).filter(s => s.reason !== 'before-clear');
+    rotated.slice(Math.max(1, keep)).forEach(old => {
+      store.delete(old.id);
+      tx.objectStore(SNAPSHOT_DATA_STORE).delete(old.id);
+    });
+    return isDue;
+  });
+});
+
+/** A snapshot's contents, or its sealed form when it was taken under a passphrase other than the current one. */
+export const readSnapshot = async (id: string): Promise<{ data: SnapshotData } | { sealed: EncryptedBackup }> => {
+  const key = activeKey;
+  const stored = await withStore(SNAPSHOT_DATA_STORE, 'readonly', tx => 
+    promisify<StoredSnapshotData | undefined>(tx.objectStore(SNAPSHOT_DATA_STORE).get(id))
+  );
+  if (!stored) throw new StorageError('corrupt', 'This snapshot could not be found. It may have been deleted in another tab.');
+  if (stored.data) return { data: stored.data };
+  if (key) {
+    try {
+      return { data: await decryptJson<SnapshotData>(key, stored.sealed!.payload) };
+    } catch (e) {
+      // Sealed under an earlier passphrase.
+    }
+  }
+  return { sealed: stored.sealed! };
+};
+
+export const deleteSnapshot = (id: string): Promise<void> =>
+  sharedWrite(() => withStore([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite', tx => {
+    tx.objectStore(SNAPSHOTS_STORE).delete(id);
+    tx.objectStore(SNAPSHOT_DATA_STORE).delete(id);
+  }));
+
+// --- Sync ---
+
+// The server password is a credential, so with App Lock on the config is sealed like note text.
+type StoredSyncState = Omit<SyncState, 'config'> & {
+  config?: SyncConfig;
+  sealedConfig?: EncryptedPayload;
+};
+
+const sealSyncConfig = async (config: SyncConfig, key: CryptoKey | null): Promise<Pick<StoredSyncState, 'config' | 'sealedConfig'>> =>
+  key ? { sealedConfig: await encryptJson(key, config) } : { config };
+
+const unsealSyncConfig = async (stored: StoredSyncState, key: CryptoKey | null): Promise<SyncConfig> => {
+  if (!stored.sealedConfig) return stored.config!;
+  if (!key) throw new StorageError('locked', 'Sync settings are locked. Unlock the app to sync.');
   try {
-    return JSON.parse(data);
+    return await decryptJson<SyncConfig>(key, stored.sealedConfig);
   } catch (e) {
-    return { name: 'Guest', avatar: null };
+    throw new StorageError('corrupt', 'Your sync settings could not be decrypted.');
   }
 };
+
+export const loadSyncState = async (): Promise<SyncState | null> => {
+  const key = activeKey;
+  const stored = await withStore(KV_STORE, 'readonly', tx => 
+    promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD))
+  );
+  if (!stored) return null;
+  const { sealedConfig, ...state } = stored;
+  return { ...state, config: await unsealSyncConfig(stored, key) };
+};
+
+/** Turns sync on. Every existing note is queued, so the first sync uploads them all. */
+export const enableSync = (config: SyncConfig): Promise<void> => sealedWrite(async () => {
+  const sealed = await sealSyncConfig(config, activeKey);
+  await withStore([NOTES_STORE, KV_STORE], 'readwrite', async tx => {
+    const ids = await promisify(tx.objectStore(NOTES_STORE).getAllKeys());
+    const now = Date.now();
+    const state: StoredSyncState = { ...sealed, cursor: 0, pending: Object.fromEntries(ids.map(id => [String(id), now])), versions: {}, lastSyncedAt: null };
+    tx.objectStore(KV_STORE).put(state, SYNC_RECORD);
+  });
+});
+
+export const disableSync = (): Promise<void> =>
+  withStore(KV_STORE, 'readwrite', tx => { tx.objectStore(KV_STORE).delete(SYNC_RECORD); });
+
+// Queues local changes for the next push. Does nothing while sync is off.
+const queueSyncChanges = async (tx: IDBTransaction, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const state = await promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD));
+  if (!state) return;
+  const now = Date.now();
+  // Strictly increasing, so a change made during a sync never matches the one that sync pushed.
+  ids.forEach(id => { state.pending[id] = Math.max(now, (state.pending[id] ?? 0) + 1); });
+  tx.objectStore(KV_STORE).put(state, SYNC_RECORD);
+};
+
+/**
+ * Writes what a sync pulled. Server versions replace local notes without being queued, while
+ * conflicted copies are queued like local edits. `settled` local changes lose their queue entry,
+ * and `seen` records which server version each note is now based on. Notes edited here since
+ * `pending` was read are left alone and reported as `skipped`, so the caller can pull them again
+ * rather than overwrite the edit.
+ */
+export const applySyncedNotes = (
+  pulled: { changed: Note[], removed: string[], copies: Note[], settled: string[], seen: Record<string, number> },
+  pending: Record<string, number>
+): Promise<{ changed: Note[], removed: string[], skipped: boolean }> => sealedWrite(async () => {
+  const key = activeKey;
+  const sealed = new Map(await Promise.all([...pulled.changed, ...pulled.copies].map(async n => [n, await seal(n, key)] as const)));
+  const result = await withStore([NOTES_STORE, ATTACHMENTS_STORE, KV_STORE], 'readwrite', async tx => {
+    const state = await promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD));
+    if (!state) return { changed: [], removed: [], skipped: false };
+    const untouched = (id: string) => state.pending[id] === pending[id];
+    const changed = pulled.changed.filter(n => untouched(n.id));
+    const removed = pulled.removed.filter(untouched);
+
+    [...changed, ...pulled.copies].forEach(n => tx.objectStore(NOTES_STORE).put(sealed.get(n)));
+    await deleteNotes(tx, removed);
+    pulled.settled.filter(untouched).forEach(id => { delete state.pending[id]; });
+    Object.entries(pulled.seen).forEach(([id, version]) => { if (untouched(id)) state.versions[id] = version; });
+    tx.objectStore(KV_STORE).put(state, SYNC_RECORD);
+    await queueSyncChanges(tx, pulled.copies.map(n => n.id));
+    return {
+      changed: [...changed, ...pulled.copies],
+      removed,
+      skipped: changed.length < pulled.changed.length || removed.length < pulled.removed.length,
+    };
+  });
+  broadcast({ type: 'notes', changed: result.changed.map(n => n.id), removed: result.removed });
+  return result;
+});
+
+/** Everything queued for the next push, as records, plus the queue they were read from. */
+export const loadOutgoingChanges = async (): Promise<{ records: SyncRecord[], pending: Record<string, number> }> => {
+  const key = activeKey;
+  const { pending, stored } = await withStore([NOTES_STORE, KV_STORE], 'readonly', async tx => {
+    const state = await promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD));
+    const pending = state?.pending ?? {};
+    const stored = await Promise.all(Object.keys(pending).map(id => promisify<Sealable<Note> | undefined>(tx.objectStore(NOTES_STORE).get(id))));
+    return { pending, stored };
+  });
+  const records = await Promise.all(Object.keys(pending).map(async (id, i): Promise<SyncRecord> => {
+    const note = stored[i];
+    return note ? { id, lastModified: pending[id], note: await unseal(note, key) } : { id, lastModified: pending[id], deleted: true };
+  }));
+  return { records, pending };
+};
+
+/** Records a finished sync: moves the cursor and unqueues what was pushed, unless it changed again since. */
+export const finishSync = (cursor: number, pushed: Record<string, number>): Promise<void> =>
+  withStore(KV_STORE, 'readwrite', async tx => {
+    const state = await promisify<StoredSyncState | undefined>(tx.objectStore(KV_STORE).get(SYNC_RECORD));
+    if (!state) return;
+    Object.entries(pushed).forEach(([id, at]) => {
+      state.versions[id] = at;
+      if (state.pending[id] === at) delete state.pending[id];
+    });
+    tx.objectStore(KV_STORE).put({ ...state, cursor, lastSyncedAt: Date.now() }, SYNC_RECORD);
+  });
@@ -0,0 +1,122 @@
+
+import { describe, it, expect } from 'vitest';
+import { Note, SyncRecord } from '../types';
+import { reconcile } from './sync';
+
+const note = (id: string, changes: Partial<Note> = {}): Note => ({
+  id,
+  title: `Note ${id}`,
+  content: 'Body',
+  isPinned: false,
+  createdAt: 1000,
+  lastModified: 2000,
+  ...changes,
+});
+
+const edited = (n: Note, lastModified: number, content = `Edited at ${lastModified}`): SyncRecord =>
+  ({ id: n.id, lastModified, note: { ...n, content, lastModified } });
+
+const deleted = (id: string, lastModified: number): SyncRecord => ({ id, lastModified, deleted: true });
+
+const noQueue = { pending: {}, versions: {} };
+
+describe('reconcile', () => {
+  it('ignores records at the version a note was last synced at', () => {
+    const a = note('a');
+    const plan = reconcile([a], [edited(a, 3000)], { pending: {}, versions: { a: 3000 } });
+    expect(plan).toEqual({ changed: [], removed: [], copies: [], settled: [], seen: {} });
+  });
+
+  it('takes the server version of notes without local changes', () => {
+    const a = note('a');
+    const record = edited(a, 3000);
+    const plan = reconcile([a], [record], noQueue);
+    expect(plan.changed).toEqual([record.note]);
+    expect(plan.seen).toEqual({ a: 3000 });
+  });
+
+  it('adds notes that only exist on the server', () => {
+    const record = edited(note('b'), 3000);
+    expect(reconcile([], [record], noQueue).changed).toEqual([record.note]);
+  });
+
+  it('removes notes deleted on the server', () => {
+    const plan = reconcile([note('a')], [deleted('a', 3000)], noQueue);
+    expect(plan.removed).toEqual(['a']);
+    expect(plan.changed).toEqual([]);
+  });
+
+  it('skips server versions that match the local note apart from key order and empty fields', () => {
+    const a = note('a', { notebook: null, reminder: null });
+    const { id, title, content, isPinned, createdAt, lastModified } = a;
+    const reordered = { lastModified, createdAt, isPinned, content, title, id } as Note;
+    const plan = reconcile([a], [{ id: 'a', lastModified: 3000, note: reordered }], noQueue);
+    expect(plan.changed).toEqual([]);
+    expect(plan.seen).toEqual({ a: 3000 });
+  });
+
+  it('keeps the local note as a conflicted copy when the server edit is later', () => {
+    const a = note('a', { content: 'Mine', lastModified: 3000 });
+    const record = edited(a, 4000, 'Theirs');
+    const plan = reconcile([a], [record], { pending: { a: 3000 }, versions: {} });
+
+    expect(plan.changed).toEqual([record.note]);
+    expect(plan.settled).toEqual(['a']);
+    expect(plan.copies).toHaveLength(1);
+    const [{ note: copy, from }] = plan.copies;
+    expect(from).toBe('a');
+    expect(copy.id).not.toBe('a');
+    expect(copy.title).toBe('Note a (conflicted copy)');
+    expect(copy.content).toBe('Mine');
+  });
+
+  it('keeps the server note as a conflicted copy when the local edit is later', () => {
+    const a = note('a', { content: 'Mine', lastModified: 5000 });
+    const plan = reconcile([a], [edited(a, 4000, 'Theirs')], { pending: { a: 5000 }, versions: {} });
+
+    expect(plan.changed).toEqual([]);
+    expect(plan.settled).toEqual([]);
+    expect(plan.copies).toHaveLength(1);
+    expect(plan.copies[0].from).toBeUndefined();
+    expect(plan.copies[0].note.content).toBe('Theirs');
+  });
+
+  it('breaks ties between edits made at the same time the same way on every device', () => {
+    const mine = note('a', { content: 'Mine', lastModified: 4000 });
+    const theirs = edited(mine, 4000, 'Theirs');
+    const here = reconcile([mine], [theirs], { pending: { a: 4000 }, versions: {} });
+    const there = reconcile([theirs.note!], [{ id: 'a', lastModified: 4000, note: mine }], { pending: { a: 4000 }, versions: {} });
+
+    const winnerHere = here.changed[0]?.content ?? mine.content;
+    const winnerThere = there.changed[0]?.content ?? theirs.note!.content;
+    expect(winnerHere).toBe(winnerThere);
+  });
+
+  it('settles a change both sides made identically without a copy', () => {
+    const a = note('a', { content: 'Same', lastModified: 3000 });
+    const plan = reconcile([a], [{ id: 'a', lastModified: 3500, note: a }], { pending: { a: 3000 }, versions: {} });
+    expect(plan.changed).toEqual([a]);
+    expect(plan.settled).toEqual(['a']);
+    expect(plan.copies).toEqual([]);
+  });
+
+  it('lets a local edit beat a server deletion', () => {
+    const a = note('a', { lastModified: 3000 });
+    const plan = reconcile([a], [deleted('a', 4000)], { pending: { a: 3000 }, versions: {} });
+    expect(plan.removed).toEqual([]);
+    expect(plan.settled).toEqual([]);
+  });
+
+  it('lets a server edit beat a local deletion', () => {
+    const record = edited(note('a'), 4000);
+    const plan = reconcile([], [record], { pending: { a: 3000 }, versions: {} });
+    expect(plan.changed).toEqual([record.note]);
+    expect(plan.settled).toEqual(['a']);
+  });
+
+  it('settles a deletion made on both sides', () => {
+    const plan = reconcile([], [deleted('a', 4000)], { pending: { a: 3000 }, versions: {} });
+    expect(plan.settled).toEqual(['a']);
+    expect(plan.removed).toEqual([]);
+  });
+});
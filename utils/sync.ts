@@ -0,0 +1,148 @@
+
+import { Note, SyncRecord, SyncState } from '../types';
+import { loadNotes, loadSyncState, applySyncedNotes, loadOutgoingChanges, finishSync, copyAttachments, missingAttachments, loadAttachment, saveAttachment, getActiveWorkspaceId } from './storage';
+
+/**
+ * A sync backend. Servers number their changes, so pulls are incremental and don't rely on
+ * device clocks agreeing.
+ */
+export interface SyncAdapter {
+  /** Checks that the server can be reached and accepts the credentials. */
+  check: () => Promise<void>;
+  /**
+   * Records changed since `cursor` (0 for everything), and the cursor to pull from next time.
+   * `rejected` lists notes whose server copy was unusable and was skipped.
+   */
+  pull: (cursor: number) => Promise<{ records: SyncRecord[], cursor: number, rejected: string[] }>;
+  push: (records: SyncRecord[]) => Promise<void>;
+  /** Attachment files are stored by attachment id and never change once added. */
+  hasAttachment: (id: string) => Promise<boolean>;
+  /** The file's bytes, or null if the server doesn't have them. */
+  pullAttachment: (id: string) => Promise<Blob | null>;
+  pushAttachment: (id: string, blob: Blob) => Promise<void>;
+}
+
+export type SyncErrorKind = 'offline' | 'auth' | 'server';
+
+export class SyncError extends Error {
+  kind: SyncErrorKind;
+
+  constructor(kind: SyncErrorKind, message: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.kind = kind;
+  }
+}
+
+export interface SyncPlan {
+  /** Server versions to write locally. */
+  changed: Note[];
+  removed: string[];
+  /** Copies of the losing version when both sides edited a note; `from` is set when that was the local note. */
+  copies: { note: Note, from?: string }[];
+  /** Queued local changes the server's version replaces or already matches. */
+  settled: string[];
+  /** The server version of every pulled note, which later pulls are compared against. */
+  seen: Record<string, number>;
+}
+
+// Notes read back from a server have their keys in another order and leave out empty fields,
+// so compare key by key, with null the same as absent.
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v != null).sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const conflictedCopy = (note: Note): Note => ({
+  ...note,
+  id: crypto.randomUUID(),
+  title: `${note.title || 'Untitled Note'} (conflicted copy)`,
+});
+
+/**
+ * Decides what pulled records do to local notes. Records matching the version a note was last
+ * synced at (usually our own pushes coming back) are ignored. Notes without queued changes take
+ * the server's version. When both sides changed a note, the later change wins and the other is
+ * kept as a conflicted copy, with ties going to the version that sorts first. An edit always
+ * beats a deletion.
+ */
+export const reconcile = (local: Note[], records: SyncRecord[], state: Pick<SyncState, 'pending' | 'versions'>): SyncPlan => {
+  const { pending, versions } = state;
+  const byId = new Map(local.map(n => [n.id, n]));
+  const plan: SyncPlan = { changed: [], removed: [], copies: [], settled: [], seen: {} };
+
+  for (const record of records) {
+    if (versions[record.id] === record.lastModified) continue;
+    plan.seen[record.id] = record.lastModified;
+    const mine = byId.get(record.id);
+    const changedAt = pending[record.id];
+    const theirs = record.note;
+
+    if (changedAt === undefined) {
+      if (!theirs) {
+        if (mine) plan.removed.push(record.id);
+      } else if (!mine || canonical(mine) !== canonical(theirs)) {
+        plan.changed.push(theirs);
+      }
+    } else if (!theirs) {
+      // Deleted there: a local edit survives and is pushed again, a local deletion already agrees.
+      if (!mine) plan.settled.push(record.id);
+    } else if (!mine || canonical(mine) === canonical(theirs)) {
+      // Deleted here but edited there, or both sides made the same change.
+      plan.changed.push(theirs);
+      plan.settled.push(record.id);
+    } else if (record.lastModified > changedAt || (record.lastModified === changedAt && canonical(theirs) < canonical(mine))) {
+      plan.changed.push(theirs);
+      plan.settled.push(record.id);
+      plan.copies.push({ note: conflictedCopy(mine), from: mine.id });
+    } else {
+      plan.copies.push({ note: conflictedCopy(theirs) });
+    }
+  }
+  return plan;
+};
+
+/**
+ * Pulls, reconciles and pushes once, and returns the notes it changed locally. Local changes stay
+ * queued until the server has them, so a failed run (including being offline) loses nothing.
+ * Returns null without syncing when another tab already is.
+ */
+export const syncNotes = (adapter: SyncAdapter): Promise<{ changed: Note[], removed: string[], rejected: string[] } | null> => {
+  const run = async () => {
+    const state = await loadSyncState();
+    if (!state) return null;
+    const pulled = await adapter.pull(state.cursor);
+    const plan = reconcile(await loadNotes(), pulled.records, state);
+    for (const { note, from } of plan.copies) {
+      if (from && note.attachments?.length) await copyAttachments(from, note.id, note.attachments.map(a => a.id));
+    }
+    // Files come down before their notes are stored, so a note never points at bytes this device lacks
+    const theirs = [...plan.changed, ...plan.copies.filter(c => !c.from).map(c => c.note)];
+    for (const { noteId, attachment } of await missingAttachments(theirs)) {
+      const blob = await adapter.pullAttachment(attachment.id);
+      if (blob) await saveAttachment(noteId, attachment, blob);
+    }
+    const applied = await applySyncedNotes({ ...plan, copies: plan.copies.map(c => c.note) }, state.pending);
+
+    const outgoing = await loadOutgoingChanges();
+    // Likewise files go up before the notes that use them
+    for (const { note } of outgoing.records) {
+      for (const attachment of note?.attachments ?? []) {
+        if (await adapter.hasAttachment(attachment.id)) continue;
+        const blob = await loadAttachment(note!.id, attachment);
+        if (blob) await adapter.pushAttachment(attachment.id, blob);
+      }
+    }
+    if (outgoing.records.length > 0) await adapter.push(outgoing.records);
+    // Skipped records are pulled again next time, so they can be reconciled with the new edit.
+    await finishSync(applied.skipped ? state.cursor : pulled.cursor, outgoing.pending);
+    return { changed: applied.changed, removed: applied.removed, rejected: pulled.rejected };
+  };
+
+  if (typeof navigator === 'undefined' || !navigator.locks) return run();
+  return navigator.locks.request(`notepad_pro_sync:${getActiveWorkspaceId()}`, { ifAvailable: true }, lock => (lock ? run() : null));
+};
@@ -0,0 +1,48 @@
+
+import { Note } from '../types';
+
+export interface LabelCount {
+  name: string;
+  count: number;
+}
+
+const HASHTAG_RE = /(?:^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+/** Canonical form of a tag: lowercase, no leading `#`, whitespace collapsed to dashes. */
+export const normalizeTag = (raw: string): string =>
+  raw.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+
+export const normalizeNotebook = (raw: string): string => raw.trim().replace(/\s+/g, ' ');
+
+/** `#tags` written inline in a note body. */
+export const extractHashtags = (content: string): string[] =>
+  Array.from(content.matchAll(HASHTAG_RE), m => normalizeTag(m[1])).filter(Boolean);
+
+export const mergeTags = (...lists: (string[] | undefined)[]): string[] =>
+  Array.from(new Set(lists.flatMap(list => list ?? []).map(normalizeTag).filter(Boolean)));
+
+const countBy = (values: string[]): LabelCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+export const countTags = (notes: Note[]): LabelCount[] => countBy(notes.flatMap(n => n.tags ?? []));
+
+export const countNotebooks = (notes: Note[]): LabelCount[] =>
+  countBy(notes.flatMap(n => (n.notebook ? [n.notebook] : [])));
+
+/** Renames a tag on every note. Renaming onto an existing tag merges the two. */
+export const renameTag = (notes: Note[], from: string, to: string): Note[] => {
+  const target = normalizeTag(to);
+  return notes.map(n => 
+    n.tags?.includes(from) ? { ...n, tags: mergeTags(n.tags.map(t => (t === from ? target : t))) } : n
+  );
+};
+
+/** Renames a notebook on every note. Renaming onto an existing notebook merges the two. */
+export const renameNotebook = (notes: Note[], from: string, to: string): Note[] => {
+  const target = normalizeNotebook(to);
+  return notes.map(n => (n.notebook === from ? { ...n, notebook: target || null } : n));
+};
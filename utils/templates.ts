@@ -0,0 +1,93 @@
+
+import { format } from 'date-fns';
+import { Note, NoteTemplate } from '../types';
+
+// `{{name}}` or `{{name:format}}`
+const PLACEHOLDER_RE = /\{\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}\}/g;
+
+const DEFAULT_FORMATS = {
+  date: 'MMM d, yyyy',
+  time: 'h:mm a',
+};
+
+const BUILT_INS = ['date', 'time', 'user'];
+
+const isBuiltIn = (name: string): boolean => BUILT_INS.includes(name.toLowerCase());
+
+/** Shown in Settings so the syntax is discoverable. */
+export const PLACEHOLDER_HELP = '{{date}}, {{time}} and {{user}} are filled in automatically; {{date:EEEE d MMMM}} picks a format. Any other {{Name}} is asked for when the note is created.';
+
+/** Offered until the user saves or removes templates of their own. */
+export const STARTER_TEMPLATES: NoteTemplate[] = [
+  {
+    id: 'starter-meeting',
+    name: 'Meeting Notes',
+    title: 'Meeting: {{Topic}}',
+    content: '**Date:** {{date}} at {{time}}\n**Attendees:** {{Attendees}}\n\n## Agenda\n- \n\n## Notes\n\n\n## Action Items\n- [ ] ',
+    createdAt: 0,
+  },
+  {
+    id: 'starter-daily-log',
+    name: 'Daily Log',
+    title: 'Daily Log: {{date:EEEE, MMM d}}',
+    content: '## Done\n- \n\n## In Progress\n- \n\n## Blockers\n- \n\nLogged by {{user}} at {{time}}',
+    createdAt: 0,
+  },
+  {
+    id: 'starter-bug-report',
+    name: 'Bug Report',
+    title: 'Bug: {{Summary}}',
+    content: '**Reported by:** {{user}} on {{date}}\n**Environment:** {{Environment}}\n\n## Steps to Reproduce\n1. \n\n## Expected\n\n\n## Actual\n',
+    createdAt: 0,
+  },
+];
+
+export const templateFromNote = (note: Note, name: string): NoteTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  title: note.title,
+  content: note.content,
+  ...(note.kind === 'checklist' && { kind: 'checklist' as const }),
+  createdAt: Date.now(),
+});
+
+/** Names of the fields the user is asked to fill in, in order of first use. */
+export const templateFields = (template: NoteTemplate): string[] => {
+  const seen = new Map<string, string>();
+  for (const [, name] of `${template.title}\n${template.content}`.matchAll(PLACEHOLDER_RE)) {
+    if (!isBuiltIn(name) && !seen.has(name.toLowerCase())) seen.set(name.toLowerCase(), name);
+  }
+  return Array.from(seen.values());
+};
+
+const formatDate = (now: number, pattern: string | undefined, fallback: string): string => {
+  try {
+    return format(now, pattern?.trim() || fallback);
+  } catch (e) {
+    // An invalid pattern shouldn't stop the note being created.
+    return format(now, fallback);
+  }
+};
+
+/**
+ * Fills in a template's placeholders. `values` holds the answers for `templateFields`,
+ * keyed by field name; fields left blank are removed.
+ */
+export const expandTemplate = (
+  template: NoteTemplate,
+  { now, user, values }: { now: number, user: string, values: Record<string, string> }
+): Pick<Note, 'title' | 'content' | 'kind'> => {
+  const answers = new Map(Object.entries(values).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+  const expand = (text: string) => text.replace(PLACEHOLDER_RE, (_match, name: string, pattern?: string) => {
+    const key = name.toLowerCase();
+    if (key === 'user') return user;
+    if (key === 'date' || key === 'time') return formatDate(now, pattern, DEFAULT_FORMATS[key]);
+    return answers.get(key) ?? '';
+  });
+
+  return {
+    title: expand(template.title).trim(),
+    content: expand(template.content),
+    ...(template.kind === 'checklist' && { kind: 'checklist' as const }),
+  };
+};
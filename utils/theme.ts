@@ -0,0 +1,128 @@
+
+import { AppSettings, ThemeMode, AccentColor, EditorFont } from '../types';
+
+/*
+ * Components don't name fixed neutral or accent colors (the always-dark attachment viewer aside).
+ * They use the tokens defined in index.html's Tailwind config (`canvas`, `fg`, the neutral `ink`
+ * scale and the `accent` scale), which read CSS variables that are set here for the chosen theme
+ * and accent.
+ */
+export type Appearance = Pick<AppSettings, 'theme' | 'accentColor' | 'editorFont' | 'editorFontSize'>;
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// Tailwind's palettes, lightest shade first.
+const SLATE = ['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617'];
+
+const ACCENT_PALETTES: Record<AccentColor, string[]> = {
+  blue: ['#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554'],
+  violet: ['#f5f3ff', '#ede9fe', '#ddd6fe', '#c4b5fd', '#a78bfa', '#8b5cf6', '#7c3aed', '#6d28d9', '#5b21b6', '#4c1d95', '#2e1065'],
+  emerald: ['#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22'],
+  rose: ['#fff1f2', '#ffe4e6', '#fecdd3', '#fda4af', '#fb7185', '#f43f5e', '#e11d48', '#be123c', '#9f1239', '#881337', '#4c0519'],
+  amber: ['#fffbeb', '#fef3c7', '#fde68a', '#fcd34d', '#fbbf24', '#f59e0b', '#d97706', '#b45309', '#92400e', '#78350f', '#451a03'],
+};
+
+export const ACCENT_OPTIONS: { value: AccentColor, label: string, swatch: string }[] = [
+  { value: 'blue', label: 'Blue', swatch: ACCENT_PALETTES.blue[5] },
+  { value: 'violet', label: 'Violet', swatch: ACCENT_PALETTES.violet[5] },
+  { value: 'emerald', label: 'Emerald', swatch: ACCENT_PALETTES.emerald[5] },
+  { value: 'rose', label: 'Rose', swatch: ACCENT_PALETTES.rose[5] },
+  { value: 'amber', label: 'Amber', swatch: ACCENT_PALETTES.amber[5] },
+];
+
+export const THEME_OPTIONS: { value: ThemeMode, label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'system', label: 'System' },
+];
+
+export const EDITOR_FONTS: Record<EditorFont, { label: string, stack: string }> = {
+  sans: { label: 'Sans', stack: "'Inter', sans-serif" },
+  serif: { label: 'Serif', stack: "Georgia, 'Times New Roman', serif" },
+  mono: { label: 'Mono', stack: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' },
+};
+
+export const EDITOR_FONT_SIZES = [14, 16, 18, 20, 24];
+
+// The light theme runs the neutral scale backwards, so `ink-900` panels and `ink-300` text keep
+// their contrast. Pale accent shades used for text get the matching darker ones; solid fills keep theirs.
+const LIGHT_INK = [10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 0];
+const LIGHT_ACCENT = [10, 9, 8, 7, 6, 5, 6, 7, 2, 1, 0];
+
+const THEMES = {
+  dark: { canvas: '#020617', fg: '#ffffff' },
+  light: { canvas: '#ffffff', fg: '#020617' },
+};
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+// The last applied appearance, so the next page load starts in the right theme before settings are read.
+const APPEARANCE_CACHE_KEY = 'notepad_pro_appearance';
+
+// Tailwind's `<alpha-value>` needs bare channels, e.g. `37 99 235`.
+const channels = (hex: string): string =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+
+export const resolveTheme = (mode: ThemeMode): 'light' | 'dark' => {
+  if (mode === 'light' || mode === 'dark') return mode;
+  return typeof window !== 'undefined' && window.matchMedia?.(DARK_SCHEME_QUERY).matches === false ? 'light' : 'dark';
+};
+
+const themeVariables = (appearance: Appearance, theme: 'light' | 'dark'): Record<string, string> => {
+  const accent = ACCENT_PALETTES[appearance.accentColor] ?? ACCENT_PALETTES.blue;
+  const font = EDITOR_FONTS[appearance.editorFont] ?? EDITOR_FONTS.sans;
+  const vars: Record<string, string> = {
+    '--canvas': channels(THEMES[theme].canvas),
+    '--fg': channels(THEMES[theme].fg),
+    '--editor-font': font.stack,
+    '--editor-font-size': `${appearance.editorFontSize}px`,
+  };
+  SHADES.forEach((shade, i) => {
+    vars[`--ink-${shade}`] = channels(SLATE[theme === 'light' ? LIGHT_INK[i] : i]);
+    vars[`--accent-${shade}`] = channels(accent[theme === 'light' ? LIGHT_ACCENT[i] : i]);
+  });
+  return vars;
+};
+
+const setVariables = (theme: 'light' | 'dark', vars: Record<string, string>): void => {
+  const root = document.documentElement;
+  Object.entries(vars).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.classList.toggle('dark', theme === 'dark');
+  root.classList.toggle('light', theme === 'light');
+  // Native controls (date pickers, scrollbars) follow the theme too.
+  root.style.colorScheme = theme;
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEMES[theme].canvas);
+};
+
+/** Applies the appearance settings to the page; `system` is re-resolved on every call. */
+export const applyAppearance = (appearance: Appearance): void => {
+  const theme = resolveTheme(appearance.theme);
+  setVariables(theme, themeVariables(appearance, theme));
+  try {
+    const { theme: mode, accentColor, editorFont, editorFontSize } = appearance;
+    localStorage.setItem(APPEARANCE_CACHE_KEY, JSON.stringify({ theme: mode, accentColor, editorFont, editorFontSize }));
+  } catch (e) {
+    // Only costs a flash of the default theme on the next load.
+  }
+};
+
+/** Applies the last used appearance, or the defaults, before the app has read its settings. */
+export const restoreAppearance = (defaults: Appearance): void => {
+  let cached: Partial<Appearance> = {};
+  try {
+    cached = JSON.parse(localStorage.getItem(APPEARANCE_CACHE_KEY) ?? '{}') ?? {};
+  } catch (e) {
+    // Falls back to the defaults.
+  }
+  const appearance = { ...defaults, ...cached };
+  const theme = resolveTheme(appearance.theme);
+  setVariables(theme, themeVariables(appearance, theme));
+};
+
+/** Calls `onChange` when the device switches between light and dark. */
+export const subscribeToColorScheme = (onChange: () => void): (() => void) => {
+  const query = window.matchMedia?.(DARK_SCHEME_QUERY);
+  if (!query) return () => {};
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+};
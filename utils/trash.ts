@@ -0,0 +1,21 @@
+
+import { Note } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+export const isTrashed = (note: Note): boolean => note.deletedAt != null;
+
+/** Returns `notes` itself when nothing has expired, so a periodic purge doesn't re-render. */
+export const purgeExpiredNotes = (notes: Note[], retentionDays: number, now = Date.now()): Note[] => {
+  if (retentionDays <= 0) return notes;
+  const cutoff = now - retentionDays * DAY_MS;
+  const kept = notes.filter(n => n.deletedAt == null || n.deletedAt > cutoff);
+  return kept.length === notes.length ? notes : kept;
+};
+
+export const daysUntilPurge = (note: Note, retentionDays: number, now = Date.now()): number | null => {
+  if (note.deletedAt == null || retentionDays <= 0) return null;
+  return Math.max(0, Math.ceil((note.deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+};
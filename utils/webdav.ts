@@ -0,0 +1,180 @@
+
+import { SyncConfig, SyncRecord } from '../types';
+import { SyncAdapter, SyncError } from './sync';
+import { validateNote } from './backup';
+
+/*
+ * Server layout, under the configured folder:
+ *   index.json        every note's change number, `lastModified` and deletion flag
+ *   notes/<id>.json   the latest version of each note that isn't deleted
+ *   attachments/<id>  the bytes of every attachment file, uploaded before the notes using it
+ * Change numbers come from the index's own counter, which is only written with `If-Match`,
+ * so two devices pushing at once can't lose each other's entries.
+ */
+const INDEX_FILE = 'index.json';
+const NOTES_FOLDER = 'notes/';
+const ATTACHMENTS_FOLDER = 'attachments/';
+
+// Attempts at updating the index when another device keeps changing it underneath.
+const MAX_INDEX_ATTEMPTS = 4;
+
+interface IndexEntry {
+  seq: number;
+  lastModified: number;
+  deleted?: boolean;
+}
+
+interface ServerIndex {
+  seq: number;
+  entries: Record<string, IndexEntry>;
+}
+
+const isIndexEntry = (value: unknown): value is IndexEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return Number.isFinite(entry.seq) && Number.isFinite(entry.lastModified) && (entry.deleted === undefined || typeof entry.deleted === 'boolean');
+};
+
+const isServerIndex = (value: unknown): value is ServerIndex => {
+  if (typeof value !== 'object' || value === null) return false;
+  const index = value as Record<string, unknown>;
+  const entries = index.entries;
+  return Number.isFinite(index.seq) && typeof entries === 'object' && entries !== null && !Array.isArray(entries) && Object.values(entries).every(isIndexEntry);
+};
+
+// Missing or damaged JSON reads as `undefined`, which the shape checks then turn down.
+const readJson = (response: Response): Promise<unknown> => response.json().catch(() => undefined);
+
+// `btoa` only takes Latin-1, so credentials are UTF-8 encoded first.
+const basicAuth = (username: string, password: string): string =>
+  `Basic ${btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`)))}`;
+
+const notePath = (id: string): string => `${NOTES_FOLDER}${encodeURIComponent(id)}.json`;
+const attachmentPath = (id: string): string => `${ATTACHMENTS_FOLDER}${encodeURIComponent(id)}`;
+
+/**
+ * Syncs through a folder on any WebDAV server (Nextcloud, Apache or nginx with DAV, `rclone serve
+ * webdav`, ...). The server must allow this app's origin through CORS and expose the `ETag` header.
+ */
+export const createWebDavAdapter = (config: SyncConfig): SyncAdapter => {
+  const base = config.url.endsWith('/') ? config.url : `${config.url}/`;
+  const auth: Record<string, string> = config.username || config.password ? { Authorization: basicAuth(config.username, config.password) } : {};
+  const madeFolders = new Set<string>();
+
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(base + path, { ...init, headers: { ...auth, ...init.headers }, cache: 'no-store' });
+    } catch (e) {
+      throw new SyncError('offline', 'Could not reach the sync server. Changes will be sent once it can be reached.');
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('auth', 'The sync server did not accept your username and password.');
+    }
+    return response;
+  };
+
+  const failure = (response: Response, action: string): SyncError =>
+    new SyncError('server', `The sync server could not ${action} (HTTP ${response.status}).`);
+
+  const readIndex = async (): Promise<{ index: ServerIndex, etag: string | null }> => {
+    const response = await request(INDEX_FILE);
+    if (response.status === 404) return { index: { seq: 0, entries: {} }, etag: null };
+    if (!response.ok) throw failure(response, 'read its note index');
+    const index = await readJson(response);
+    if (!isServerIndex(index)) throw new SyncError('server', 'The note index on the sync server is damaged, so nothing was synced.');
+    // Without it the index could only be written blind, and two devices could drop each other's changes
+    const etag = response.headers.get('ETag');
+    if (!etag) throw new SyncError('server', 'The sync server does not show this app the ETag header, which sync needs. Add ETag to its Access-Control-Expose-Headers.');
+    return { index, etag };
+  };
+
+  const ensureFolder = async (folder: string): Promise<void> => {
+    if (madeFolders.has(folder)) return;
+    const response = await request(folder, { method: 'MKCOL' });
+    // 405 means the folder is already there.
+    if (!response.ok && response.status !== 405) throw failure(response, `create the ${folder.slice(0, -1)} folder`);
+    madeFolders.add(folder);
+  };
+
+  return {
+    check: async () => {
+      await readIndex();
+    },
+
+    pull: async (cursor) => {
+      const { index } = await readIndex();
+      // A counter behind ours means the server was reset, so everything is pulled again.
+      const since = index.seq < cursor ? 0 : cursor;
+      const records: SyncRecord[] = [];
+      const rejected: string[] = [];
+      for (const [id, entry] of Object.entries(index.entries)) {
+        if (entry.seq <= since) continue;
+        if (entry.deleted) {
+          records.push({ id, lastModified: entry.lastModified, deleted: true });
+          continue;
+        }
+        const response = await request(notePath(id));
+        // Deleted by another device after the index was read; its tombstone arrives next time.
+        if (response.status === 404) continue;
+        if (!response.ok) throw failure(response, 'read a note');
+        // A file that isn't a usable note, or is another note's, is left out rather than stored
+        const checked = validateNote(await readJson(response));
+        if ('reason' in checked || checked.note.id !== id) {
+          rejected.push(id);
+          continue;
+        }
+        records.push({ id, lastModified: entry.lastModified, note: checked.note });
+      }
+      return { records, cursor: index.seq, rejected };
+    },
+
+    push: async (records) => {
+      await ensureFolder(NOTES_FOLDER);
+      for (const record of records) {
+        const response = record.deleted
+          ? await request(notePath(record.id), { method: 'DELETE' })
+          : await request(notePath(record.id), { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(record.note) });
+        if (!response.ok && !(record.deleted && response.status === 404)) throw failure(response, 'save a note');
+      }
+
+      // The index goes last, so other devices never see an entry before its file.
+      for (let attempt = 1; ; attempt++) {
+        const { index, etag } = await readIndex();
+        records.forEach(r => {
+          index.seq++;
+          index.entries[r.id] = { seq: index.seq, lastModified: r.lastModified, ...(r.deleted && { deleted: true }) };
+        });
+        // No ETag means there was no index yet, so only create one if that is still so
+        const condition: Record<string, string> = etag ? { 'If-Match': etag } : { 'If-None-Match': '*' };
+        const response = await request(INDEX_FILE, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', ...condition },
+          body: JSON.stringify(index),
+        });
+        if (response.ok) return;
+        if (response.status !== 412 || attempt >= MAX_INDEX_ATTEMPTS) throw failure(response, 'update its note index');
+      }
+    },
+
+    hasAttachment: async (id) => {
+      const response = await request(attachmentPath(id), { method: 'HEAD' });
+      if (response.status === 404) return false;
+      if (!response.ok) throw failure(response, 'check for an attachment');
+      return true;
+    },
+
+    pullAttachment: async (id) => {
+      const response = await request(attachmentPath(id));
+      if (response.status === 404) return null;
+      if (!response.ok) throw failure(response, 'read an attachment');
+      return response.blob();
+    },
+
+    pushAttachment: async (id, blob) => {
+      await ensureFolder(ATTACHMENTS_FOLDER);
+      const response = await request(attachmentPath(id), { method: 'PUT', headers: { 'Content-Type': 'application/octet-stream' }, body: blob });
+      if (!response.ok) throw failure(response, 'save an attachment');
+    },
+  };
+};
@@ -1,7 +1,57 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const listFiles = (dir: string, base = dir): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const full = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+      })
+    : [];
+
+// Scripts and stylesheets index.html loads from other origins (Tailwind, the Inter font)
+const cdnUrls = (): string[] => {
+  const html = fs.readFileSync(path.resolve(__dirname, 'index.html'), 'utf8');
+  return [...html.matchAll(/<(?:script|link)\b[^>]*?(?:src|href)="(https:\/\/[^"]+)"/g)].map(match => match[1]);
+};
+
+// Emits sw.js from service-worker.js, with every file of this build in its precache list.
+// The version is a hash of the list and file contents, so any deploy that changes the app
+// installs a new worker and the page can offer to reload.
+const serviceWorker = (): Plugin => ({
+  name: 'notepad-pro-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const hash = createHash('sha256');
+    const files = new Set<string>();
+
+    for (const [fileName, output] of Object.entries(bundle)) {
+      files.add(fileName);
+      hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+    }
+    for (const fileName of listFiles(publicDir)) {
+      files.add(fileName);
+      hash.update(fileName).update(fs.readFileSync(path.join(publicDir, fileName)));
+    }
+
+    const urls = ['/', ...[...files].sort().map(file => `/${file}`)];
+    const template = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('self.__BUILD_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('self.__PRECACHE_URLS__', JSON.stringify(urls))
+        .replace('self.__CDN_URLS__', JSON.stringify(cdnUrls())),
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +59,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)